@@ -47,10 +47,34 @@ vi.mock('./flows', () => ({
 	}),
 }));
 
+vi.mock('./scheduled-orphans', () => ({
+	initScheduledOrphans: vi.fn(),
+}));
+
+vi.mock('./scheduled-uploads', () => ({
+	initScheduledUploads: vi.fn(),
+}));
+
+vi.mock('./scheduled-versions', () => ({
+	initScheduledVersions: vi.fn(),
+}));
+
+vi.mock('./scheduled-exports', () => ({
+	getScheduledExportManager: vi.fn().mockImplementation(() => {
+		return {
+			initialize: vi.fn(),
+		};
+	}),
+}));
+
 vi.mock('./middleware/check-ip', () => ({
 	checkIP: Router(),
 }));
 
+vi.mock('./middleware/check-tfa', () => ({
+	checkTFA: Router(),
+}));
+
 vi.mock('./middleware/schema', () => ({
 	default: Router(),
 }));
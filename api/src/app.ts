@@ -16,6 +16,7 @@ import assetsRouter from './controllers/assets.js';
 import authRouter from './controllers/auth.js';
 import collectionsRouter from './controllers/collections.js';
 import dashboardsRouter from './controllers/dashboards.js';
+import exportsRouter from './controllers/exports.js';
 import extensionsRouter from './controllers/extensions.js';
 import fieldsRouter from './controllers/fields.js';
 import filesRouter from './controllers/files.js';
@@ -54,6 +55,7 @@ import { createExpressLogger, useLogger } from './logger.js';
 import authenticate from './middleware/authenticate.js';
 import cache from './middleware/cache.js';
 import { checkIP } from './middleware/check-ip.js';
+import { checkTFA } from './middleware/check-tfa.js';
 import cors from './middleware/cors.js';
 import errorHandler from './middleware/error-handler.js';
 import extractToken from './middleware/extract-token.js';
@@ -62,6 +64,10 @@ import rateLimiterGlobal from './middleware/rate-limiter-global.js';
 import rateLimiter from './middleware/rate-limiter-ip.js';
 import sanitizeQuery from './middleware/sanitize-query.js';
 import schema from './middleware/schema.js';
+import { getScheduledExportManager } from './scheduled-exports.js';
+import { initScheduledOrphans } from './scheduled-orphans.js';
+import { initScheduledUploads } from './scheduled-uploads.js';
+import { initScheduledVersions } from './scheduled-versions.js';
 import { initTelemetry } from './telemetry/index.js';
 import { getConfigFromEnv } from './utils/get-config-from-env.js';
 import { Url } from './utils/url.js';
@@ -102,9 +108,15 @@ export default async function createApp(): Promise<express.Application> {
 
 	const extensionManager = getExtensionManager();
 	const flowManager = getFlowManager();
+	const scheduledExportManager = getScheduledExportManager();
 
 	await extensionManager.initialize();
 	await flowManager.initialize();
+	await scheduledExportManager.initialize();
+
+	initScheduledVersions();
+	initScheduledUploads();
+	initScheduledOrphans();
 
 	const app = express();
 
@@ -261,6 +273,8 @@ export default async function createApp(): Promise<express.Application> {
 
 	app.use(checkIP);
 
+	app.use(checkTFA);
+
 	app.use(sanitizeQuery);
 
 	app.use(cache);
@@ -281,6 +295,7 @@ export default async function createApp(): Promise<express.Application> {
 	app.use('/assets', assetsRouter);
 	app.use('/collections', collectionsRouter);
 	app.use('/dashboards', dashboardsRouter);
+	app.use('/exports', exportsRouter);
 	app.use('/extensions', extensionsRouter);
 	app.use('/fields', fieldsRouter);
 	app.use('/files', filesRouter);
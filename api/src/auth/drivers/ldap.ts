@@ -410,6 +410,10 @@ export function createLDAPAuthRouter(provider: string): Router {
 		password: Joi.string().required(),
 		mode: Joi.string().valid('cookie', 'json', 'session'),
 		otp: Joi.string(),
+		webauthn: Joi.object({
+			response: Joi.object().required(),
+			token: Joi.string().required(),
+		}),
 	}).unknown();
 
 	router.post(
@@ -444,6 +448,7 @@ export function createLDAPAuthRouter(provider: string): Router {
 			const { accessToken, refreshToken, expires } = await authenticationService.login(provider, req.body, {
 				session: mode === 'session',
 				otp: req.body?.otp,
+				webauthn: req.body?.webauthn,
 			});
 
 			const payload = { access_token: accessToken, expires } as {
@@ -8,6 +8,7 @@ import { REFRESH_COOKIE_OPTIONS, SESSION_COOKIE_OPTIONS } from '../../constants.
 import { useEnv } from '@directus/env';
 import { respond } from '../../middleware/respond.js';
 import { AuthenticationService } from '../../services/authentication.js';
+import { WebAuthnService } from '../../services/webauthn.js';
 import type { AuthenticationMode, User } from '../../types/index.js';
 import asyncHandler from '../../utils/async-handler.js';
 import { getIPFromReq } from '../../utils/get-ip-from-req.js';
@@ -16,6 +17,11 @@ import { AuthDriver } from '../auth.js';
 
 export class LocalAuthDriver extends AuthDriver {
 	async getUserID(payload: Record<string, any>): Promise<string> {
+		if (isPasskeyLogin(payload)) {
+			const webAuthnService = new WebAuthnService({ knex: this.knex, schema: this.schema });
+			return await webAuthnService.getUserID(payload['webauthn']);
+		}
+
 		if (!payload['email']) {
 			throw new InvalidCredentialsError();
 		}
@@ -40,21 +46,43 @@ export class LocalAuthDriver extends AuthDriver {
 	}
 
 	override async login(user: User, payload: Record<string, any>): Promise<void> {
+		if (isPasskeyLogin(payload)) {
+			const webAuthnService = new WebAuthnService({ knex: this.knex, schema: this.schema });
+
+			// The passkey replaces both the password and the second factor, so the authenticator has to verify the user
+			await webAuthnService.verifyAuthentication(user.id, payload['webauthn'], { requireUserVerification: true });
+			return;
+		}
+
 		await this.verify(user, payload['password']);
 	}
 }
 
+/**
+ * Whether the payload logs in with a passkey instead of a password, rather than using it as second factor
+ */
+export function isPasskeyLogin(payload: Record<string, any>): boolean {
+	return payload['password'] === undefined && payload['webauthn'] !== undefined;
+}
+
 export function createLocalAuthRouter(provider: string): Router {
 	const env = useEnv();
 
 	const router = Router();
 
 	const userLoginSchema = Joi.object({
-		email: Joi.string().email().required(),
-		password: Joi.string().required(),
+		email: Joi.string().email(),
+		password: Joi.string(),
 		mode: Joi.string().valid('cookie', 'json', 'session'),
 		otp: Joi.string(),
-	}).unknown();
+		webauthn: Joi.object({
+			response: Joi.object().required(),
+			token: Joi.string().required(),
+		}),
+	})
+		.and('email', 'password')
+		.or('email', 'webauthn')
+		.unknown();
 
 	router.post(
 		'/',
@@ -90,6 +118,7 @@ export function createLocalAuthRouter(provider: string): Router {
 			const { accessToken, refreshToken, expires } = await authenticationService.login(provider, req.body, {
 				session: mode === 'session',
 				otp: req.body?.otp,
+				webauthn: req.body?.webauthn,
 			});
 
 			const payload = { expires } as { expires: number; access_token?: string; refresh_token?: string };
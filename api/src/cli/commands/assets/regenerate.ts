@@ -0,0 +1,31 @@
+import getDatabase from '../../../database/index.js';
+import { useLogger } from '../../../logger.js';
+import { AssetsService } from '../../../services/assets.js';
+import { getSchema } from '../../../utils/get-schema.js';
+
+export default async function assetsRegenerate({ preset }: { preset?: string[] }): Promise<void> {
+	const database = getDatabase();
+	const logger = useLogger();
+
+	try {
+		const schema = await getSchema();
+		const service = new AssetsService({ schema, knex: database });
+
+		const keys = (await database.select('id').from('directus_files')).map(({ id }) => id);
+		const report = await service.regenerateDerivatives(keys, preset);
+
+		logger.info(
+			`Removed ${report.purged} derivatives and generated ${report.generated} derivatives of ${report.files} files`,
+		);
+
+		for (const key of report.failed) {
+			logger.error(`Couldn't generate all derivatives of file ${key}`);
+		}
+
+		await database.destroy();
+		process.exit(report.failed.length > 0 ? 1 : 0);
+	} catch (err: any) {
+		logger.error(err);
+		process.exit(1);
+	}
+}
@@ -0,0 +1,37 @@
+import getDatabase from '../../../database/index.js';
+import { useLogger } from '../../../logger.js';
+import { FilesService } from '../../../services/files.js';
+import { getSchema } from '../../../utils/get-schema.js';
+
+export default async function filesVerify({ storage }: { storage?: string }): Promise<void> {
+	const database = getDatabase();
+	const logger = useLogger();
+
+	try {
+		const schema = await getSchema();
+		const service = new FilesService({ schema, knex: database });
+
+		const query = database.select('id').from('directus_files');
+
+		if (storage) query.where({ storage });
+
+		const keys = (await query).map(({ id }) => id);
+		const report = await service.verify(keys);
+
+		logger.info(`Checked ${report.checked} files, stored the hash of ${report.hashed.length} files`);
+
+		for (const key of report.missing) {
+			logger.error(`Content of file ${key} is missing`);
+		}
+
+		for (const key of report.mismatched) {
+			logger.error(`Content of file ${key} doesn't match its hash`);
+		}
+
+		await database.destroy();
+		process.exit(report.missing.length > 0 || report.mismatched.length > 0 ? 1 : 0);
+	} catch (err: any) {
+		logger.error(err);
+		process.exit(1);
+	}
+}
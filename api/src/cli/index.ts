@@ -2,10 +2,12 @@ import { Command, Option } from 'commander';
 import { version } from 'directus/version';
 import emitter from '../emitter.js';
 import { startServer } from '../server.js';
+import assetsRegenerate from './commands/assets/regenerate.js';
 import bootstrap from './commands/bootstrap/index.js';
 import count from './commands/count/index.js';
 import dbInstall from './commands/database/install.js';
 import dbMigrate from './commands/database/migrate.js';
+import filesVerify from './commands/files/verify.js';
 import init from './commands/init/index.js';
 import rolesCreate from './commands/roles/create.js';
 import { apply } from './commands/schema/apply.js';
@@ -78,6 +80,22 @@ export async function createCli(): Promise<Command> {
 		.option('--admin', `whether or not the role has admin access`)
 		.action(rolesCreate);
 
+	const filesCommand = program.command('files');
+
+	filesCommand
+		.command('verify')
+		.description('Verify the content of files against their stored hash')
+		.option('--storage <value>', `only verify the files in this storage location`)
+		.action(filesVerify);
+
+	const assetsCommand = program.command('assets');
+
+	assetsCommand
+		.command('regenerate')
+		.description('Remove all derivatives of files and generate those of the eager presets again')
+		.option('--preset <keys...>', `generate the derivatives of these presets instead`)
+		.action(assetsRegenerate);
+
 	program.command('count <collection>').description('Count the amount of items in a given collection').action(count);
 
 	program
@@ -1,3 +1,4 @@
+import type { ExportFormat } from '@directus/types';
 import type { CookieOptions } from 'express';
 import type { TransformationParams } from './types/index.js';
 import { getMilliseconds } from './utils/get-milliseconds.js';
@@ -93,3 +94,27 @@ export const SUPPORTED_IMAGE_METADATA_FORMATS = [
 	'image/tiff',
 	'image/avif',
 ];
+
+/** Formats where metadata extraction and poster images are supported, through FFmpeg for videos and Poppler for PDFs */
+export const SUPPORTED_POSTER_FORMATS = [
+	'application/pdf',
+	'video/mp4',
+	'video/mpeg',
+	'video/ogg',
+	'video/quicktime',
+	'video/webm',
+	'video/x-matroska',
+	'video/x-msvideo',
+];
+
+/** Size of the longest side of the poster images of PDFs, in pixels */
+export const DOCUMENT_POSTER_SIZE = 2000;
+
+/** Mime types of the supported export formats */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+	csv: 'text/csv',
+	json: 'application/json',
+	xml: 'text/xml',
+	yaml: 'text/yaml',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
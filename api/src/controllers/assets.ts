@@ -1,15 +1,19 @@
 import { useEnv } from '@directus/env';
-import { InvalidQueryError, RangeNotSatisfiableError } from '@directus/errors';
+import { InvalidPayloadError, InvalidQueryError, RangeNotSatisfiableError } from '@directus/errors';
 import type { Range } from '@directus/storage';
+import type { PrimaryKey } from '@directus/types';
 import { parseJSON } from '@directus/utils';
 import contentDisposition from 'content-disposition';
 import { Router } from 'express';
+import Joi from 'joi';
 import { merge, pick } from 'lodash-es';
 import { ASSET_TRANSFORM_QUERY_KEYS, SYSTEM_ASSET_ALLOW_LIST } from '../constants.js';
 import getDatabase from '../database/index.js';
 import { useLogger } from '../logger.js';
+import { respond } from '../middleware/respond.js';
 import useCollection from '../middleware/use-collection.js';
 import { AssetsService } from '../services/assets.js';
+import { FilesService } from '../services/files.js';
 import { PayloadService } from '../services/payload.js';
 import type { TransformationFormat, TransformationParams } from '../types/assets.js';
 import { TransformationMethods } from '../types/assets.js';
@@ -17,6 +21,7 @@ import asyncHandler from '../utils/async-handler.js';
 import { getCacheControlHeader } from '../utils/get-cache-headers.js';
 import { getConfigFromEnv } from '../utils/get-config-from-env.js';
 import { getMilliseconds } from '../utils/get-milliseconds.js';
+import { sanitizeQuery } from '../utils/sanitize-query.js';
 
 const router = Router();
 
@@ -267,4 +272,48 @@ router.get(
 	}),
 );
 
+const regenerateSchema = Joi.object({
+	keys: Joi.array().items(Joi.alternatives(Joi.string(), Joi.number())),
+	query: Joi.object().unknown(),
+	presets: Joi.array().items(Joi.string()),
+}).oxor('keys', 'query');
+
+router.post(
+	'/regenerate',
+	asyncHandler(async (req, res, next) => {
+		const { error } = regenerateSchema.validate(req.body);
+
+		if (error) {
+			throw new InvalidPayloadError({ reason: error.message });
+		}
+
+		const service = new AssetsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const filesService = new FilesService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		if (req.body.keys) {
+			res.locals['payload'] = { data: await service.regenerateDerivatives(req.body.keys, req.body.presets) };
+			return next();
+		}
+
+		// Without keys or query, the derivatives of all files are regenerated. As that can be any number of files, they're
+		// regenerated in the background
+		const sanitizedQuery = sanitizeQuery({ limit: -1, ...req.body.query }, req.accountability);
+		const keys: PrimaryKey[] = await filesService.getKeysByQuery(sanitizedQuery);
+
+		await service.queueRegeneration(keys, req.body.presets);
+
+		res.locals['payload'] = { data: null };
+
+		return next();
+	}),
+	respond,
+);
+
 export default router;
@@ -15,6 +15,7 @@ import { useLogger } from '../logger.js';
 import { respond } from '../middleware/respond.js';
 import { AuthenticationService } from '../services/authentication.js';
 import { UsersService } from '../services/users.js';
+import { WebAuthnService } from '../services/webauthn.js';
 import type { AuthenticationMode } from '../types/auth.js';
 import asyncHandler from '../utils/async-handler.js';
 import { getAuthProviders } from '../utils/get-auth-providers.js';
@@ -260,6 +261,18 @@ router.post(
 	respond,
 );
 
+router.post(
+	'/webauthn/options',
+	asyncHandler(async (req, res, next) => {
+		const service = new WebAuthnService({ schema: req.schema });
+
+		res.locals['payload'] = { data: await service.generateAuthenticationOptions() };
+
+		return next();
+	}),
+	respond,
+);
+
 router.get(
 	'/',
 	asyncHandler(async (req, res, next) => {
@@ -1,5 +1,5 @@
 import { useEnv } from '@directus/env';
-import { ErrorCode, InvalidPayloadError, isDirectusError } from '@directus/errors';
+import { ErrorCode, InvalidPayloadError, UnsupportedMediaTypeError, isDirectusError } from '@directus/errors';
 import formatTitle from '@directus/format-title';
 import type { BusboyFileStream, PrimaryKey } from '@directus/types';
 import { toArray } from '@directus/utils';
@@ -13,10 +13,12 @@ import path from 'path';
 import { respond } from '../middleware/respond.js';
 import useCollection from '../middleware/use-collection.js';
 import { validateBatch } from '../middleware/validate-batch.js';
+import { FileUploadsService } from '../services/file-uploads.js';
 import { FilesService } from '../services/files.js';
 import { MetaService } from '../services/meta.js';
 import asyncHandler from '../utils/async-handler.js';
 import { sanitizeQuery } from '../utils/sanitize-query.js';
+import { Url } from '../utils/url.js';
 
 const router = express.Router();
 const env = useEnv();
@@ -220,6 +222,237 @@ router.post(
 	respond,
 );
 
+const moveSchema = Joi.object({
+	keys: Joi.array().items(Joi.alternatives(Joi.string(), Joi.number())),
+	query: Joi.object().unknown(),
+	storage: Joi.string().required(),
+}).xor('keys', 'query');
+
+router.post(
+	'/move',
+	asyncHandler(async (req, res, next) => {
+		const { error } = moveSchema.validate(req.body);
+
+		if (error) {
+			throw new InvalidPayloadError({ reason: error.message });
+		}
+
+		const service = new FilesService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		let keys: PrimaryKey[];
+
+		if (req.body.keys) {
+			keys = req.body.keys;
+		} else {
+			const sanitizedQuery = sanitizeQuery(req.body.query, req.accountability);
+			keys = await service.getKeysByQuery(sanitizedQuery);
+		}
+
+		keys = await service.moveToStorage(keys, req.body.storage);
+
+		try {
+			const result = await service.readMany(keys, req.sanitizedQuery);
+			res.locals['payload'] = { data: result || null };
+		} catch (error: any) {
+			if (isDirectusError(error, ErrorCode.Forbidden)) {
+				return next();
+			}
+
+			throw error;
+		}
+
+		return next();
+	}),
+	respond,
+);
+
+const verifySchema = Joi.object({
+	keys: Joi.array().items(Joi.alternatives(Joi.string(), Joi.number())),
+	query: Joi.object().unknown(),
+}).xor('keys', 'query');
+
+router.post(
+	'/verify',
+	asyncHandler(async (req, res, next) => {
+		const { error } = verifySchema.validate(req.body);
+
+		if (error) {
+			throw new InvalidPayloadError({ reason: error.message });
+		}
+
+		const service = new FilesService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		let keys: PrimaryKey[];
+
+		if (req.body.keys) {
+			keys = req.body.keys;
+		} else {
+			const sanitizedQuery = sanitizeQuery(req.body.query, req.accountability);
+			keys = await service.getKeysByQuery(sanitizedQuery);
+		}
+
+		res.locals['payload'] = { data: await service.verify(keys) };
+
+		return next();
+	}),
+	respond,
+);
+
+/**
+ * Resumable uploads following the tus protocol (https://tus.io/protocols/resumable-upload), with support for the
+ * creation and termination extensions
+ */
+const TUS_VERSION = '1.0.0';
+
+router.use('/tus', (_req, res, next) => {
+	res.setHeader('Tus-Resumable', TUS_VERSION);
+	next();
+});
+
+router.options('/tus', (_req, res) => {
+	res.setHeader('Tus-Version', TUS_VERSION);
+	res.setHeader('Tus-Extension', 'creation,termination');
+
+	if (env['FILES_MAX_UPLOAD_SIZE']) {
+		res.setHeader('Tus-Max-Size', bytes(env['FILES_MAX_UPLOAD_SIZE'] as string)!);
+	}
+
+	res.status(204).end();
+});
+
+router.post(
+	'/tus',
+	asyncHandler(async (req, res) => {
+		const service = new FileUploadsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const metadata: Record<string, string> = {};
+
+		// Comma separated list of keys with an optional base64 encoded value
+		for (const pair of String(req.headers['upload-metadata'] ?? '').split(',')) {
+			const [key, value] = pair.trim().split(' ');
+
+			if (!key) continue;
+
+			metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+		}
+
+		const id = await service.create(Number(req.headers['upload-length']), metadata);
+
+		res.setHeader('Location', new Url(env['PUBLIC_URL'] as string).addPath('files', 'tus', String(id)).toString());
+		res.status(201).end();
+	}),
+);
+
+router.head(
+	'/tus/:id',
+	asyncHandler(async (req, res) => {
+		const service = new FileUploadsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const upload = await service.readOne(req.params['id']!);
+
+		res.setHeader('Upload-Offset', upload.offset);
+		res.setHeader('Upload-Length', upload.length);
+		res.setHeader('Cache-Control', 'no-store');
+
+		if (upload.file) {
+			res.setHeader('Directus-File-Id', upload.file);
+		}
+
+		res.status(200).end();
+	}),
+);
+
+router.patch(
+	'/tus/:id',
+	asyncHandler(async (req, res) => {
+		if (req.is('application/offset+octet-stream') === false) {
+			throw new UnsupportedMediaTypeError({ mediaType: req.headers['content-type']!, where: 'Content-Type header' });
+		}
+
+		const service = new FileUploadsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const offset = Number(req.headers['upload-offset']);
+		const upload = await service.readOne(req.params['id']!);
+
+		// The client has to resume from the offset the server knows about
+		if (upload.offset !== offset) {
+			res.status(409).end();
+			return;
+		}
+
+		const result = await service.append(upload.id, offset, req);
+
+		res.setHeader('Upload-Offset', result.offset);
+
+		if (result.file) {
+			res.setHeader('Directus-File-Id', result.file);
+		}
+
+		res.status(204).end();
+	}),
+);
+
+router.delete(
+	'/tus/:id',
+	asyncHandler(async (req, res) => {
+		const service = new FileUploadsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.deleteOne(req.params['id']!);
+
+		res.status(204).end();
+	}),
+);
+
+router.get(
+	'/usage',
+	asyncHandler(async (req, res, next) => {
+		const service = new FilesService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const folder = typeof req.query['folder'] === 'string' && req.query['folder'] ? req.query['folder'] : null;
+
+		const quotas = await service.readStorageUsage(folder);
+
+		res.locals['payload'] = { data: quotas };
+		return next();
+	}),
+	respond,
+);
+
+router.get(
+	'/orphans',
+	asyncHandler(async (req, res, next) => {
+		const service = new FilesService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readOrphans() };
+		return next();
+	}),
+	respond,
+);
+
 const readHandler = asyncHandler(async (req, res, next) => {
 	const service = new FilesService({
 		accountability: req.accountability,
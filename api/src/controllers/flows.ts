@@ -1,12 +1,14 @@
-import { ErrorCode, isDirectusError } from '@directus/errors';
-import type { PrimaryKey } from '@directus/types';
+import { ErrorCode, ForbiddenError, InvalidPayloadError, isDirectusError } from '@directus/errors';
+import type { Filter, FlowJob, FlowRun, PrimaryKey, Query } from '@directus/types';
 import express from 'express';
 import { UUID_REGEX } from '../constants.js';
+import { getFlowQueue } from '../flow-queue.js';
 import { getFlowManager } from '../flows.js';
 import { respond } from '../middleware/respond.js';
 import useCollection from '../middleware/use-collection.js';
 import { validateBatch } from '../middleware/validate-batch.js';
 import { FlowsService } from '../services/flows.js';
+import { ItemsService } from '../services/items.js';
 import { MetaService } from '../services/meta.js';
 import asyncHandler from '../utils/async-handler.js';
 import { sanitizeQuery } from '../utils/sanitize-query.js';
@@ -44,6 +46,131 @@ const webhookFlowHandler = asyncHandler(async (req, res, next) => {
 router.get(`/trigger/:pk(${UUID_REGEX})`, webhookFlowHandler, respond);
 router.post(`/trigger/:pk(${UUID_REGEX})`, webhookFlowHandler, respond);
 
+/**
+ * Read the items of a system collection that belong to the flow in the route
+ */
+const flowItemsReadHandler = (collection: string) =>
+	asyncHandler(async (req, res, next) => {
+		const service = new ItemsService(collection, {
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const metaService = new MetaService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const flowFilter: Filter = { flow: { _eq: req.params['pk']! } };
+
+		const query: Query = {
+			...req.sanitizedQuery,
+			filter: req.sanitizedQuery.filter ? { _and: [flowFilter, req.sanitizedQuery.filter] } : flowFilter,
+		};
+
+		const records = await service.readByQuery(query);
+		const meta = await metaService.getMetaForQuery(collection, query);
+
+		res.locals['payload'] = { data: records || null, meta };
+		return next();
+	});
+
+const runsReadHandler = flowItemsReadHandler('directus_flow_runs');
+
+router.get(`/:pk(${UUID_REGEX})/runs`, runsReadHandler, respond);
+router.search(`/:pk(${UUID_REGEX})/runs`, runsReadHandler, respond);
+
+router.post(
+	`/:pk(${UUID_REGEX})/runs/:run(${UUID_REGEX})/replay`,
+	asyncHandler(async (req, res, next) => {
+		if (req.accountability && req.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const service = new ItemsService<FlowRun>('directus_flow_runs', {
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const run = await service.readOne(req.params['run']!, { fields: ['flow'] });
+
+		if (run.flow !== req.params['pk']) {
+			throw new ForbiddenError();
+		}
+
+		const flowManager = getFlowManager();
+
+		const runKey = await flowManager.replayFlowRun(req.params['run']!, {
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: runKey ? await service.readOne(runKey, req.sanitizedQuery) : null };
+		return next();
+	}),
+	respond,
+);
+
+const jobsReadHandler = flowItemsReadHandler('directus_flow_jobs');
+
+router.get(`/:pk(${UUID_REGEX})/jobs`, jobsReadHandler, respond);
+router.search(`/:pk(${UUID_REGEX})/jobs`, jobsReadHandler, respond);
+
+router.post(
+	`/:pk(${UUID_REGEX})/jobs/:job(${UUID_REGEX})/retry`,
+	asyncHandler(async (req, res, next) => {
+		if (req.accountability && req.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const service = new ItemsService<FlowJob>('directus_flow_jobs', {
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const job = await service.readOne(req.params['job']!, { fields: ['flow', 'status'] });
+
+		if (job.flow !== req.params['pk']) {
+			throw new ForbiddenError();
+		}
+
+		if (job.status !== 'failed') {
+			throw new InvalidPayloadError({ reason: `Only failed jobs can be retried` });
+		}
+
+		await getFlowQueue().retry(req.params['job']!);
+
+		res.locals['payload'] = { data: await service.readOne(req.params['job']!, req.sanitizedQuery) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	`/:pk(${UUID_REGEX})/jobs/:job(${UUID_REGEX})`,
+	asyncHandler(async (req, _res, next) => {
+		if (req.accountability && req.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const service = new ItemsService<FlowJob>('directus_flow_jobs', {
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const job = await service.readOne(req.params['job']!, { fields: ['flow'] });
+
+		if (job.flow !== req.params['pk']) {
+			throw new ForbiddenError();
+		}
+
+		await service.deleteOne(req.params['job']!);
+
+		return next();
+	}),
+	respond,
+);
+
 router.post(
 	'/',
 	asyncHandler(async (req, res, next) => {
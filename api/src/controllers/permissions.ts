@@ -1,12 +1,15 @@
-import { ErrorCode, isDirectusError } from '@directus/errors';
+import { ErrorCode, ForbiddenError, InvalidQueryError, isDirectusError } from '@directus/errors';
 import type { PrimaryKey } from '@directus/types';
 import express from 'express';
+import Joi from 'joi';
+import getDatabase from '../database/index.js';
 import { respond } from '../middleware/respond.js';
 import useCollection from '../middleware/use-collection.js';
 import { validateBatch } from '../middleware/validate-batch.js';
 import { MetaService } from '../services/meta.js';
 import { PermissionsService } from '../services/permissions/index.js';
 import asyncHandler from '../utils/async-handler.js';
+import { explainAccess } from '../utils/explain-access.js';
 import { sanitizeQuery } from '../utils/sanitize-query.js';
 
 const router = express.Router();
@@ -86,6 +89,41 @@ const readHandler = asyncHandler(async (req, res, next) => {
 router.get('/', validateBatch('read'), readHandler, respond);
 router.search('/', validateBatch('read'), readHandler, respond);
 
+const explainSchema = Joi.object({
+	collection: Joi.string().required(),
+	user: Joi.string(),
+	role: Joi.string(),
+	item: Joi.alternatives(Joi.string(), Joi.number()),
+	field: Joi.string(),
+	share: Joi.string(),
+	ip: Joi.string().ip({ cidr: 'forbidden' }),
+}).oxor('user', 'role', 'share');
+
+router.get(
+	'/explain',
+	asyncHandler(async (req, res, next) => {
+		if (req.accountability && req.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const { error, value } = explainSchema.validate(req.query, { allowUnknown: true, stripUnknown: true });
+
+		if (error) {
+			throw new InvalidQueryError({ reason: error.message });
+		}
+
+		// Rules that are limited to certain networks are checked against the IP of this request by default
+		const explanation = await explainAccess(
+			{ ...value, ip: value.ip ?? req.accountability?.ip ?? null },
+			{ knex: getDatabase(), schema: req.schema },
+		);
+
+		res.locals['payload'] = { data: explanation };
+		return next();
+	}),
+	respond,
+);
+
 router.get(
 	'/:pk',
 	asyncHandler(async (req, res, next) => {
@@ -1,3 +1,4 @@
+import { useEnv } from '@directus/env';
 import {
 	ErrorCode,
 	ForbiddenError,
@@ -6,21 +7,29 @@ import {
 	isDirectusError,
 } from '@directus/errors';
 import type { PrimaryKey, RegisterUserInput, Role } from '@directus/types';
+import type { Request } from 'express';
 import express from 'express';
 import Joi from 'joi';
 import checkRateLimit from '../middleware/rate-limiter-registration.js';
 import { respond } from '../middleware/respond.js';
 import useCollection from '../middleware/use-collection.js';
 import { validateBatch } from '../middleware/validate-batch.js';
+import { AccessTokensService, type AccessTokenPayload } from '../services/access-tokens.js';
 import { AuthenticationService } from '../services/authentication.js';
 import { MetaService } from '../services/meta.js';
 import { RolesService } from '../services/roles.js';
+import { SessionsService } from '../services/sessions.js';
 import { TFAService } from '../services/tfa.js';
 import { UsersService } from '../services/users.js';
+import { WebAuthnService } from '../services/webauthn.js';
 import asyncHandler from '../utils/async-handler.js';
+import { getSecret } from '../utils/get-secret.js';
+import isDirectusJWT from '../utils/is-directus-jwt.js';
+import { verifyAccessJWT } from '../utils/jwt.js';
 import { sanitizeQuery } from '../utils/sanitize-query.js';
 
 const router = express.Router();
+const env = useEnv();
 
 router.use(useCollection('directus_users'));
 
@@ -127,6 +136,20 @@ router.get(
 	respond,
 );
 
+router.get(
+	'/:pk/access',
+	asyncHandler(async (req, res, next) => {
+		const service = new UsersService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readAccess(req.params['pk']!) };
+		return next();
+	}),
+	respond,
+);
+
 router.get(
 	'/:pk',
 	asyncHandler(async (req, res, next) => {
@@ -363,7 +386,7 @@ router.post(
 
 router.post(
 	'/me/tfa/enable/',
-	asyncHandler(async (req, _res, next) => {
+	asyncHandler(async (req, res, next) => {
 		if (!req.accountability?.user) {
 			throw new InvalidCredentialsError();
 		}
@@ -413,8 +436,39 @@ router.post(
 			schema: req.schema,
 		});
 
-		await service.enableTFA(req.accountability.user, req.body.otp, req.body.secret);
+		const recoveryCodes = await service.enableTFA(req.accountability.user, req.body.otp, req.body.secret);
+
+		res.locals['payload'] = { data: { recovery_codes: recoveryCodes } };
+		return next();
+	}),
+	respond,
+);
+
+router.post(
+	'/me/tfa/recovery-codes',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		if (!req.body.otp) {
+			throw new InvalidPayloadError({ reason: `"otp" is required` });
+		}
+
+		const service = new TFAService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const otpValid = await service.verifyOTP(req.accountability.user, req.body.otp);
+
+		if (otpValid === false) {
+			throw new InvalidPayloadError({ reason: `"otp" is invalid` });
+		}
+
+		const recoveryCodes = await service.generateRecoveryCodes(req.accountability.user);
 
+		res.locals['payload'] = { data: { recovery_codes: recoveryCodes } };
 		return next();
 	}),
 	respond,
@@ -502,6 +556,363 @@ router.post(
 	respond,
 );
 
+router.get(
+	'/me/webauthn',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.accountability.user) };
+		return next();
+	}),
+	respond,
+);
+
+router.post(
+	'/me/webauthn/options',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		if (!req.body.password) {
+			throw new InvalidPayloadError({ reason: `"password" is required` });
+		}
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const authService = new AuthenticationService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await authService.verifyPassword(req.accountability.user, req.body.password);
+
+		res.locals['payload'] = { data: await service.generateRegistrationOptions(req.accountability.user) };
+		return next();
+	}),
+	respond,
+);
+
+const registerWebAuthnSchema = Joi.object({
+	response: Joi.object().required(),
+	token: Joi.string().required(),
+	name: Joi.string().max(255).allow(null, ''),
+});
+
+router.post(
+	'/me/webauthn',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const { error } = registerWebAuthnSchema.validate(req.body);
+		if (error) throw new InvalidPayloadError({ reason: error.message });
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.register(req.accountability.user, req.body.response, req.body.token, req.body.name);
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/me/webauthn/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.delete(req.accountability.user, Number(req.params['id']));
+		return next();
+	}),
+	respond,
+);
+
+router.get(
+	'/:pk/webauthn',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.params['pk']!) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/:pk/webauthn/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new WebAuthnService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.delete(req.params['pk']!, Number(req.params['id']));
+		return next();
+	}),
+	respond,
+);
+
+/**
+ * Get the token of the session a request was made with, either from the access token in session mode or from the
+ * refresh token cookie
+ */
+function getSessionToken(req: Request): string | null {
+	if (req.token && isDirectusJWT(req.token)) {
+		const payload = verifyAccessJWT(req.token, getSecret());
+		if (payload.session) return payload.session;
+	}
+
+	return req.cookies?.[env['REFRESH_TOKEN_COOKIE_NAME'] as string] ?? null;
+}
+
+router.get(
+	'/me/sessions',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.accountability.user, getSessionToken(req)) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/me/sessions',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		// Keep the current session, so users can log out of all of their other devices
+		await service.revokeAll(req.accountability.user, getSessionToken(req));
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/me/sessions/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.revoke(req.accountability.user, req.params['id']!);
+		return next();
+	}),
+	respond,
+);
+
+router.get(
+	'/:pk/sessions',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.params['pk']!, getSessionToken(req)) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/:pk/sessions',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.revokeAll(req.params['pk']!);
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/:pk/sessions/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new SessionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.revoke(req.params['pk']!, req.params['id']!);
+		return next();
+	}),
+	respond,
+);
+
+const accessTokenSchema = Joi.object<AccessTokenPayload>({
+	name: Joi.string().required(),
+	expires: Joi.date().iso().allow(null),
+	ip_access: Joi.array().items(Joi.string()).allow(null),
+	scope: Joi.array()
+		.items(
+			Joi.object({
+				collection: Joi.string().required(),
+				action: Joi.string().valid('create', 'read', 'update', 'delete', 'share').required(),
+			}),
+		)
+		.allow(null),
+});
+
+router.get(
+	'/me/access-tokens',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new AccessTokensService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.accountability.user) };
+		return next();
+	}),
+	respond,
+);
+
+router.post(
+	'/me/access-tokens',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const { error } = accessTokenSchema.validate(req.body);
+		if (error) throw new InvalidPayloadError({ reason: error.message });
+
+		const service = new AccessTokensService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.create(req.accountability.user, req.body) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/me/access-tokens/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.user) {
+			throw new InvalidCredentialsError();
+		}
+
+		const service = new AccessTokensService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.revoke(req.accountability.user, req.params['id']!);
+		return next();
+	}),
+	respond,
+);
+
+router.get(
+	'/:pk/access-tokens',
+	asyncHandler(async (req, res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new AccessTokensService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		res.locals['payload'] = { data: await service.readByUser(req.params['pk']!) };
+		return next();
+	}),
+	respond,
+);
+
+router.delete(
+	'/:pk/access-tokens/:id',
+	asyncHandler(async (req, _res, next) => {
+		if (!req.accountability?.admin) {
+			throw new ForbiddenError();
+		}
+
+		const service = new AccessTokensService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		await service.revoke(req.params['pk']!, req.params['id']!);
+		return next();
+	}),
+	respond,
+);
+
 const registerSchema = Joi.object<RegisterUserInput>({
 	email: Joi.string().email().required(),
 	password: Joi.string().required(),
@@ -1,4 +1,5 @@
 import { InvalidPayloadError, InvalidQueryError, UnsupportedMediaTypeError } from '@directus/errors';
+import { toArray } from '@directus/utils';
 import argon2 from 'argon2';
 import Busboy from 'busboy';
 import { Router } from 'express';
@@ -8,6 +9,7 @@ import { respond } from '../middleware/respond.js';
 import { ExportService, ImportService } from '../services/import-export.js';
 import { RevisionsService } from '../services/revisions.js';
 import { UtilsService } from '../services/utils.js';
+import type { ImportMode, ImportOptions } from '../types/index.js';
 import asyncHandler from '../utils/async-handler.js';
 import { generateHash } from '../utils/generate-hash.js';
 import { sanitizeQuery } from '../utils/sanitize-query.js';
@@ -122,15 +124,46 @@ router.post(
 			};
 		}
 
+		const options: ImportOptions = {};
+
+		if (typeof req.query['sheet'] === 'string') {
+			options.sheet = req.query['sheet'];
+		}
+
+		if (req.query['headerRow']) {
+			options.headerRow = Number(req.query['headerRow']);
+		}
+
+		if (req.query['matchFields']) {
+			options.matchFields = toArray(req.query['matchFields'] as string | string[]);
+		}
+
+		if (typeof req.query['mode'] === 'string') {
+			options.mode = req.query['mode'] as ImportMode;
+		}
+
+		for (const flag of ['dryRun', 'skipInvalid'] as const) {
+			if (flag in req.query && (req.query[flag] === '' || req.query[flag] === 'true')) {
+				options[flag] = true;
+			}
+		}
+
 		const busboy = Busboy({ headers });
 
 		busboy.on('file', async (_fieldname, fileStream, { mimeType }) => {
+			let report;
+
 			try {
-				await service.import(req.params['collection']!, mimeType, fileStream);
+				report = await service.import(req.params['collection']!, mimeType, fileStream, options);
 			} catch (err: any) {
 				return next(err);
 			}
 
+			// The report is only of interest when the import didn't abort on the first error
+			if (options.dryRun || options.skipInvalid) {
+				return res.status(200).json({ data: report });
+			}
+
 			return res.status(200).end();
 		});
 
@@ -1,4 +1,4 @@
-import { ErrorCode, InvalidPayloadError, isDirectusError } from '@directus/errors';
+import { ErrorCode, InvalidPayloadError, InvalidQueryError, isDirectusError } from '@directus/errors';
 import type { PrimaryKey } from '@directus/types';
 import express from 'express';
 import { assign } from 'lodash-es';
@@ -224,6 +224,29 @@ router.get(
 	respond,
 );
 
+router.get(
+	'/:pk/diff',
+	asyncHandler(async (req, res, next) => {
+		const service = new VersionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const base = req.query['base'];
+
+		if (base !== undefined && typeof base !== 'string') {
+			throw new InvalidQueryError({ reason: `"base" has to be the primary key of a version` });
+		}
+
+		const diff = await service.diff(req.params['pk']!, base);
+
+		res.locals['payload'] = { data: diff };
+
+		return next();
+	}),
+	respond,
+);
+
 router.post(
 	'/:pk/save',
 	asyncHandler(async (req, res, next) => {
@@ -270,4 +293,37 @@ router.post(
 	respond,
 );
 
+router.post(
+	'/:pk/schedule',
+	asyncHandler(async (req, res, next) => {
+		const publishAt = req.body?.['publishAt'] ?? null;
+
+		if (publishAt !== null && typeof publishAt !== 'string') {
+			throw new InvalidPayloadError({ reason: `"publishAt" has to be a date or null` });
+		}
+
+		const service = new VersionsService({
+			accountability: req.accountability,
+			schema: req.schema,
+		});
+
+		const key = await service.schedulePromote(req.params['pk']!, publishAt, req.body?.['mainHash']);
+
+		try {
+			const record = await service.readOne(key, req.sanitizedQuery);
+
+			res.locals['payload'] = { data: record || null };
+		} catch (error: any) {
+			if (isDirectusError(error, ErrorCode.Forbidden)) {
+				return next();
+			}
+
+			throw error;
+		}
+
+		return next();
+	}),
+	respond,
+);
+
 export default router;
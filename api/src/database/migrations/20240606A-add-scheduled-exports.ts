@@ -0,0 +1,42 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_exports', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.string('name').notNullable();
+		table.string('status').notNullable().defaultTo('active');
+		table.string('schedule').notNullable();
+
+		table
+			.string('collection', 64)
+			.notNullable()
+			.references('collection')
+			.inTable('directus_collections')
+			.onDelete('CASCADE');
+
+		table.json('query');
+		table.string('format').notNullable().defaultTo('csv');
+		table.string('storage').notNullable();
+		table.string('path');
+		table.integer('retention_count');
+		table.string('retention_age');
+		table.timestamp('date_created').defaultTo(knex.fn.now());
+		table.uuid('user_created').references('id').inTable('directus_users').onDelete('SET NULL');
+	});
+
+	await knex.schema.createTable('directus_export_runs', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.uuid('export').notNullable().references('id').inTable('directus_exports').onDelete('CASCADE');
+		table.string('status').notNullable();
+		table.timestamp('date_started').defaultTo(knex.fn.now());
+		table.timestamp('date_finished');
+		table.string('filename_disk');
+		table.bigInteger('filesize');
+		table.text('error');
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_export_runs');
+	await knex.schema.dropTable('directus_exports');
+}
@@ -0,0 +1,20 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_flow_runs', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.uuid('flow').notNullable().references('id').inTable('directus_flows').onDelete('CASCADE');
+		table.string('status').notNullable();
+		table.timestamp('date_started').notNullable();
+		table.timestamp('date_finished').notNullable();
+		table.integer('duration').notNullable();
+		table.uuid('user').references('id').inTable('directus_users').onDelete('SET NULL');
+		table.json('data');
+		table.json('steps');
+		table.uuid('replay_of').references('id').inTable('directus_flow_runs').onDelete('SET NULL');
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_flow_runs');
+}
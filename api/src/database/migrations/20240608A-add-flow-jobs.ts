@@ -0,0 +1,24 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_flow_jobs', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.uuid('flow').notNullable().references('id').inTable('directus_flows').onDelete('CASCADE');
+		table.string('status').notNullable().defaultTo('pending');
+		table.uuid('operation');
+		table.json('data');
+		table.json('accountability');
+		table.integer('attempts').notNullable().defaultTo(0);
+		table.timestamp('available_at').notNullable();
+		table.string('claimed_by');
+		table.timestamp('claimed_at');
+		table.text('error');
+		table.timestamp('date_created').defaultTo(knex.fn.now());
+
+		table.index(['status', 'available_at']);
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_flow_jobs');
+}
@@ -0,0 +1,17 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_versions', (table) => {
+		table.timestamp('publish_at');
+		table.string('publish_hash');
+		table.text('publish_error');
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_versions', (table) => {
+		table.dropColumn('publish_at');
+		table.dropColumn('publish_hash');
+		table.dropColumn('publish_error');
+	});
+}
@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_file_uploads', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.string('storage', 255).notNullable();
+		table.bigInteger('length').notNullable();
+		table.bigInteger('offset').notNullable().defaultTo(0);
+		table.json('metadata');
+		table.uuid('file').references('id').inTable('directus_files').onDelete('SET NULL');
+		table.uuid('user').references('id').inTable('directus_users').onDelete('CASCADE');
+		table.timestamp('date_created').defaultTo(knex.fn.now());
+		table.timestamp('date_updated').defaultTo(knex.fn.now());
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_file_uploads');
+}
@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+const tables = ['directus_roles', 'directus_users', 'directus_folders'];
+
+export async function up(knex: Knex): Promise<void> {
+	for (const name of tables) {
+		await knex.schema.alterTable(name, (table) => {
+			table.bigInteger('storage_quota');
+			table.integer('storage_quota_files');
+		});
+	}
+}
+
+export async function down(knex: Knex): Promise<void> {
+	for (const name of tables) {
+		await knex.schema.alterTable(name, (table) => {
+			table.dropColumn('storage_quota');
+			table.dropColumn('storage_quota_files');
+		});
+	}
+}
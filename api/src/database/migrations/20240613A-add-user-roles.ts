@@ -0,0 +1,14 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_user_roles', (table) => {
+		table.increments('id');
+		table.uuid('user').notNullable().references('id').inTable('directus_users').onDelete('CASCADE');
+		table.uuid('role').notNullable().references('id').inTable('directus_roles').onDelete('CASCADE');
+		table.unique(['user', 'role']);
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_user_roles');
+}
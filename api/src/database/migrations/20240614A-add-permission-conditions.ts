@@ -0,0 +1,16 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_permissions', (table) => {
+		table.timestamp('active_from').nullable();
+		table.timestamp('active_until').nullable();
+		table.json('schedule').nullable();
+		table.text('ip_access').nullable();
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_permissions', (table) => {
+		table.dropColumns('active_from', 'active_until', 'schedule', 'ip_access');
+	});
+}
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex';
+import { randomUUID } from 'node:crypto';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_sessions', (table) => {
+		table.uuid('id').nullable().index();
+		table.timestamp('date_created').nullable();
+		table.timestamp('last_refresh').nullable();
+	});
+
+	const sessions: { token: string }[] = await knex.select('token').from('directus_sessions');
+
+	for (const { token } of sessions) {
+		await knex('directus_sessions').update({ id: randomUUID() }).where({ token });
+	}
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_sessions', (table) => {
+		table.dropIndex('id');
+		table.dropColumns('id', 'date_created', 'last_refresh');
+	});
+}
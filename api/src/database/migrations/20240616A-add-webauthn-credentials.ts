@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_webauthn_credentials', (table) => {
+		table.increments('id');
+		table.uuid('user').notNullable().references('id').inTable('directus_users').onDelete('CASCADE');
+		table.string('name').nullable();
+		table.string('credential_id', 512).notNullable().unique();
+		table.text('public_key').notNullable();
+		table.bigInteger('counter').notNullable().defaultTo(0);
+		table.string('transports').nullable();
+		table.string('device_type').nullable();
+		table.boolean('backed_up').notNullable().defaultTo(false);
+		table.timestamp('date_created').defaultTo(knex.fn.now());
+		table.timestamp('last_used').nullable();
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_webauthn_credentials');
+}
@@ -0,0 +1,13 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_users', (table) => {
+		table.text('tfa_recovery_codes').nullable();
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_users', (table) => {
+		table.dropColumn('tfa_recovery_codes');
+	});
+}
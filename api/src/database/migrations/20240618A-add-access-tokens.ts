@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.createTable('directus_access_tokens', (table) => {
+		table.uuid('id').primary().notNullable();
+		table.uuid('user').notNullable().references('id').inTable('directus_users').onDelete('CASCADE');
+		table.string('name').notNullable();
+		table.string('token', 64).notNullable().unique();
+		table.json('scope').nullable();
+		table.text('ip_access').nullable();
+		table.timestamp('expires').nullable();
+		table.timestamp('date_created').defaultTo(knex.fn.now());
+		table.timestamp('last_used').nullable();
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.dropTable('directus_access_tokens');
+}
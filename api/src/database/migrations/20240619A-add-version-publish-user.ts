@@ -0,0 +1,14 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_versions', (table) => {
+		table.uuid('publish_user').references('id').inTable('directus_users').onDelete('SET NULL');
+	});
+}
+
+export async function down(knex: Knex): Promise<void> {
+	await knex.schema.alterTable('directus_versions', (table) => {
+		table.dropForeign('publish_user');
+		table.dropColumn('publish_user');
+	});
+}
@@ -0,0 +1,93 @@
+import { parseJSON } from '@directus/utils';
+import type { Knex } from 'knex';
+import { randomUUID } from 'node:crypto';
+
+const BATCH_SIZE = 500;
+
+type OldStep = {
+	operation: string;
+	key: string;
+	status: 'resolve' | 'reject' | 'unknown';
+	options?: Record<string, any> | null;
+};
+
+type OldRevisionData = {
+	steps?: OldStep[];
+	data?: Record<string, unknown>;
+};
+
+/**
+ * Runs of flows used to be recorded as activity, with a revision that holds the steps and data for flows that track
+ * all their data. Copy them into the flow runs, so they're still listed in the logs of the flow
+ */
+export async function up(knex: Knex): Promise<void> {
+	const flows = new Set((await knex.select('id').from('directus_flows')).map(({ id }) => String(id)));
+
+	// Runs since the flow runs were introduced are recorded in both places already
+	const firstRun = await knex.min('date_started', { as: 'date' }).from('directus_flow_runs').first();
+	const recordedSince = firstRun?.date ? new Date(firstRun.date).getTime() : Infinity;
+
+	let lastId = 0;
+
+	for (;;) {
+		const activities = await knex
+			.select(
+				'directus_activity.id',
+				'directus_activity.item',
+				'directus_activity.user',
+				'directus_activity.timestamp',
+				'directus_revisions.data',
+			)
+			.from('directus_activity')
+			.leftJoin('directus_revisions', 'directus_revisions.activity', 'directus_activity.id')
+			.where({ 'directus_activity.action': 'run', 'directus_activity.collection': 'directus_flows' })
+			.andWhere('directus_activity.id', '>', lastId)
+			.orderBy('directus_activity.id')
+			.limit(BATCH_SIZE);
+
+		if (activities.length === 0) break;
+
+		lastId = activities[activities.length - 1].id;
+
+		const runs = activities
+			.filter((activity) => flows.has(String(activity.item)) && new Date(activity.timestamp).getTime() < recordedSince)
+			.map((activity) => {
+				const revision: OldRevisionData | null =
+					typeof activity.data === 'string' ? parseJSON(activity.data) : activity.data ?? null;
+
+				const keyedData = revision?.data ?? {};
+				const timestamp = new Date(activity.timestamp);
+
+				const steps = (revision?.steps ?? []).map((step) => ({
+					...step,
+					// The timing of the steps wasn't recorded
+					date_started: isNaN(timestamp.getTime()) ? null : timestamp.toISOString(),
+					duration: 0,
+					data: keyedData[step.key] ?? null,
+				}));
+
+				return {
+					id: randomUUID(),
+					flow: activity.item,
+					status: steps.at(-1)?.status ?? 'unknown',
+					date_started: activity.timestamp,
+					date_finished: activity.timestamp,
+					duration: 0,
+					user: activity.user,
+					data: revision
+						? JSON.stringify({ $trigger: keyedData['$trigger'], $accountability: keyedData['$accountability'] })
+						: null,
+					steps: JSON.stringify(steps),
+					replay_of: null,
+				};
+			});
+
+		for (const run of runs) {
+			await knex('directus_flow_runs').insert(run);
+		}
+	}
+}
+
+export async function down(): Promise<void> {
+	// Do nothing, the runs are still in the activity and revisions they were copied from
+}
@@ -0,0 +1,74 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, beforeEach, describe, expect, test, vi } from 'vitest';
+import getDatabase from './database/index.js';
+import { getFlowQueue } from './flow-queue.js';
+
+vi.mock('./database/index.js');
+
+vi.mock('./bus/index.js', () => ({
+	useBus: vi.fn().mockReturnValue({ subscribe: vi.fn(), publish: vi.fn() }),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+beforeEach(() => {
+	vi.mocked(getDatabase).mockReturnValue(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+describe('checkpoint', () => {
+	test('renews the claim of the job', async () => {
+		tracker.on.update('directus_flow_jobs').responseOnce(1);
+
+		await getFlowQueue().checkpoint('job-1', 'operation-2', { $trigger: null });
+
+		expect(tracker.history.update[0]!.sql).toContain('"claimed_at" = ?');
+	});
+
+	test('throws when the job was released to another instance', async () => {
+		tracker.on.update('directus_flow_jobs').responseOnce(0);
+
+		await expect(getFlowQueue().checkpoint('job-1', 'operation-2', { $trigger: null })).rejects.toThrow(
+			'Flow job "job-1" is no longer claimed by this instance',
+		);
+	});
+});
+
+describe('process', () => {
+	test('runs the claimed jobs at the same time', async () => {
+		const job = (id: string) => ({ id, flow: 'flow-1', status: 'running', data: '{}', accountability: null });
+
+		tracker.on.update('directus_flow_jobs').response(1);
+		tracker.on.delete('directus_flow_jobs').response(1);
+
+		tracker.on.select('directus_flow_jobs').responseOnce([{ id: 'job-1' }, { id: 'job-2' }]);
+		tracker.on.select('directus_flow_jobs').responseOnce(job('job-1'));
+		tracker.on.select('directus_flow_jobs').responseOnce([{ id: 'job-2' }]);
+		tracker.on.select('directus_flow_jobs').responseOnce(job('job-2'));
+		tracker.on.select('directus_flow_jobs').response([]);
+
+		let finish!: () => void;
+		const finished = new Promise<void>((resolve) => (finish = resolve));
+		const handler = vi.fn(() => finished);
+
+		const queue = getFlowQueue();
+		queue.start(handler);
+
+		await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+
+		finish();
+		queue.stop();
+
+		await vi.waitFor(() => expect(tracker.history.delete).toHaveLength(2));
+	});
+});
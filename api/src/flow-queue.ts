@@ -0,0 +1,286 @@
+import { useEnv } from '@directus/env';
+import type { Accountability, FlowJob } from '@directus/types';
+import { parseJSON } from '@directus/utils';
+import { omit } from 'lodash-es';
+import { randomUUID } from 'node:crypto';
+import { useBus } from './bus/index.js';
+import getDatabase from './database/index.js';
+import { useLogger } from './logger.js';
+
+let flowQueue: FlowQueue | undefined;
+
+export function getFlowQueue(): FlowQueue {
+	if (flowQueue) {
+		return flowQueue;
+	}
+
+	flowQueue = new FlowQueue();
+
+	return flowQueue;
+}
+
+type FlowJobHandler = (job: FlowJob) => Promise<void>;
+
+interface FlowQueueMessage {
+	type: 'enqueue';
+}
+
+/**
+ * Thrown when an operation of a queued flow rejects without a reject path, so the job is retried from that operation
+ */
+export class FlowJobError extends Error {
+	operation: string;
+
+	constructor(operation: string, message: string) {
+		super(message);
+		this.operation = operation;
+	}
+}
+
+/**
+ * Thrown when the claim of a running job expired and the job was released to the queue, so it's not run twice
+ */
+class FlowJobClaimLostError extends Error {
+	constructor(job: string) {
+		super(`Flow job "${job}" is no longer claimed by this instance`);
+	}
+}
+
+/**
+ * Database backed queue that runs flows on any of the available instances. Jobs are claimed with a conditional
+ * update, so each job is only ever run by a single instance at a time
+ */
+class FlowQueue {
+	private instance = randomUUID();
+	private handler: FlowJobHandler | null = null;
+	private interval: NodeJS.Timeout | null = null;
+	private processing = false;
+
+	constructor() {
+		const messenger = useBus();
+
+		messenger.subscribe<FlowQueueMessage>('flows-queue', (event) => {
+			if (event['type'] === 'enqueue') {
+				this.process();
+			}
+		});
+	}
+
+	public start(handler: FlowJobHandler): void {
+		const env = useEnv();
+
+		this.handler = handler;
+
+		if (this.interval) return;
+
+		this.interval = setInterval(() => this.process(), Number(env['FLOWS_QUEUE_POLL_INTERVAL']));
+		this.interval.unref();
+
+		this.process();
+	}
+
+	public stop(): void {
+		if (this.interval) {
+			clearInterval(this.interval);
+		}
+
+		this.interval = null;
+		this.handler = null;
+	}
+
+	public async enqueue(
+		flow: string,
+		data: Record<string, unknown>,
+		accountability: Accountability | null,
+	): Promise<string> {
+		const id = randomUUID();
+
+		await getDatabase()('directus_flow_jobs').insert({
+			id,
+			flow,
+			status: 'pending',
+			data: JSON.stringify(data),
+			// Permissions are fetched again when the job is run
+			accountability: JSON.stringify(accountability ? omit(accountability, 'permissions') : null),
+			attempts: 0,
+			available_at: new Date(),
+			date_created: new Date(),
+		});
+
+		useBus().publish<FlowQueueMessage>('flows-queue', { type: 'enqueue' });
+
+		return id;
+	}
+
+	/**
+	 * Save the progress of a running job, so it continues from the given operation if it has to be run again. Throws
+	 * when the job was released in the meantime, to stop running it
+	 */
+	public async checkpoint(job: string, operation: string | null, data: Record<string, unknown>): Promise<void> {
+		const updated = await getDatabase()('directus_flow_jobs')
+			.update({ operation, data: JSON.stringify(data), attempts: 0, claimed_at: new Date() })
+			.where({ id: job, claimed_by: this.instance });
+
+		if (updated !== 1) throw new FlowJobClaimLostError(job);
+	}
+
+	/**
+	 * Move a failed job back into the queue
+	 */
+	public async retry(job: string): Promise<void> {
+		await getDatabase()('directus_flow_jobs')
+			.update({ status: 'pending', attempts: 0, available_at: new Date(), error: null })
+			.where({ id: job, status: 'failed' });
+
+		useBus().publish<FlowQueueMessage>('flows-queue', { type: 'enqueue' });
+	}
+
+	private async process(): Promise<void> {
+		const env = useEnv();
+		const logger = useLogger();
+
+		if (this.processing || !this.handler) return;
+
+		this.processing = true;
+
+		const concurrency = Math.max(Number(env['FLOWS_QUEUE_CONCURRENCY']) || 1, 1);
+		const running = new Set<Promise<void>>();
+
+		try {
+			await this.releaseExpiredClaims();
+
+			for (;;) {
+				// Only claim as many jobs as can be run, so the other instances can pick up the rest
+				const job = running.size < concurrency ? await this.claim() : null;
+
+				if (job) {
+					const run: Promise<void> = this.run(job)
+						.catch((error) => logger.error(error, `Failed to run flow job "${job.id}"`))
+						.finally(() => running.delete(run));
+
+					running.add(run);
+				} else if (running.size > 0) {
+					// Jobs that were enqueued in the meantime are claimed once a slot is free
+					await Promise.race(running);
+				} else {
+					break;
+				}
+			}
+		} catch (error) {
+			logger.error(error, 'Failed to process the flow queue');
+		} finally {
+			await Promise.all(running);
+			this.processing = false;
+		}
+	}
+
+	private async claim(): Promise<FlowJob | null> {
+		const database = getDatabase();
+
+		const candidates = await database
+			.select('id')
+			.from('directus_flow_jobs')
+			.where({ status: 'pending' })
+			.andWhere('available_at', '<=', new Date())
+			.orderBy('available_at')
+			.limit(10);
+
+		for (const { id } of candidates) {
+			const claimed = await database('directus_flow_jobs')
+				.update({ status: 'running', claimed_by: this.instance, claimed_at: new Date() })
+				.where({ id, status: 'pending' });
+
+			// Another instance claimed the job in the meantime
+			if (claimed !== 1) continue;
+
+			const job = await database.select('*').from('directus_flow_jobs').where({ id }).first();
+
+			return {
+				...job,
+				data: typeof job.data === 'string' ? parseJSON(job.data) : job.data ?? {},
+				accountability: typeof job.accountability === 'string' ? parseJSON(job.accountability) : job.accountability,
+			};
+		}
+
+		return null;
+	}
+
+	private async run(job: FlowJob): Promise<void> {
+		const env = useEnv();
+		const logger = useLogger();
+		const database = getDatabase();
+
+		// Renew the claim while the job runs, so jobs that take longer than the claim timeout aren't released
+		const heartbeat = setInterval(
+			() => this.renewClaim(job.id),
+			Math.max(Number(env['FLOWS_QUEUE_CLAIM_TIMEOUT']) / 3, 1000),
+		);
+
+		heartbeat.unref();
+
+		try {
+			await this.handler!(job);
+
+			await database('directus_flow_jobs').delete().where({ id: job.id, claimed_by: this.instance });
+		} catch (error: any) {
+			// The job is run by another instance by now, which takes care of retrying it
+			if (error instanceof FlowJobClaimLostError) {
+				logger.warn(error.message);
+				return;
+			}
+
+			// The attempts are reset whenever an operation succeeds, so every operation is retried on its own
+			const { attempts } = await database
+				.select('attempts')
+				.from('directus_flow_jobs')
+				.where({ id: job.id })
+				.first()
+				.then((result) => result ?? { attempts: job.attempts });
+
+			const failed = attempts >= Number(env['FLOWS_QUEUE_RETRIES']);
+			const backoff = Number(env['FLOWS_QUEUE_BACKOFF']) * 2 ** attempts;
+
+			await database('directus_flow_jobs')
+				.update({
+					status: failed ? 'failed' : 'pending',
+					attempts: attempts + 1,
+					available_at: new Date(Date.now() + backoff),
+					claimed_by: null,
+					claimed_at: null,
+					error: error?.message ?? String(error),
+				})
+				.where({ id: job.id, claimed_by: this.instance });
+
+			if (failed) {
+				logger.warn(`Flow job "${job.id}" failed after ${attempts + 1} attempts: ${error?.message ?? error}`);
+			}
+		} finally {
+			clearInterval(heartbeat);
+		}
+	}
+
+	private async renewClaim(job: string): Promise<void> {
+		const logger = useLogger();
+
+		try {
+			await getDatabase()('directus_flow_jobs')
+				.update({ claimed_at: new Date() })
+				.where({ id: job, claimed_by: this.instance });
+		} catch (error) {
+			logger.warn(error, `Failed to renew the claim of flow job "${job}"`);
+		}
+	}
+
+	/**
+	 * Jobs of instances that stopped while running a job are put back into the queue once their claim wasn't renewed
+	 * within the claim timeout
+	 */
+	private async releaseExpiredClaims(): Promise<void> {
+		const env = useEnv();
+
+		await getDatabase()('directus_flow_jobs')
+			.update({ status: 'pending', claimed_by: null, claimed_at: null })
+			.where({ status: 'running' })
+			.andWhere('claimed_at', '<', new Date(Date.now() - Number(env['FLOWS_QUEUE_CLAIM_TIMEOUT'])));
+	}
+}
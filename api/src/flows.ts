@@ -2,21 +2,36 @@ import { Action } from '@directus/constants';
 import { useEnv } from '@directus/env';
 import { ForbiddenError } from '@directus/errors';
 import type { OperationHandler } from '@directus/extensions';
-import type { Accountability, ActionHandler, FilterHandler, Flow, Operation, SchemaOverview } from '@directus/types';
+import type {
+	Accountability,
+	ActionHandler,
+	FilterHandler,
+	Flow,
+	FlowJob,
+	FlowRun,
+	FlowRunStatus,
+	FlowRunStep,
+	Operation,
+	PrimaryKey,
+	SchemaOverview,
+} from '@directus/types';
 import { applyOptionsData, getRedactedString, isValidJSON, parseJSON, toArray } from '@directus/utils';
 import type { Knex } from 'knex';
+import { randomUUID } from 'node:crypto';
 import { omit, pick } from 'lodash-es';
 import { get } from 'micromustache';
 import { useBus } from './bus/index.js';
 import getDatabase from './database/index.js';
 import emitter from './emitter.js';
+import { FlowJobError, getFlowQueue } from './flow-queue.js';
 import { useLogger } from './logger.js';
 import { ActivityService } from './services/activity.js';
 import { FlowsService } from './services/flows.js';
 import * as services from './services/index.js';
-import { RevisionsService } from './services/revisions.js';
+import { ItemsService } from './services/items.js';
 import type { EventHandler } from './types/index.js';
 import { constructFlowTree } from './utils/construct-flow-tree.js';
+import { getPermissions } from './utils/get-permissions.js';
 import { getSchema } from './utils/get-schema.js';
 import { JobQueue } from './utils/job-queue.js';
 import { mapValuesDeep } from './utils/map-values-deep.js';
@@ -50,6 +65,42 @@ interface FlowMessage {
 	type: 'reload';
 }
 
+type FlowRunOptions = {
+	/**
+	 * Primary key to use for the recorded run
+	 */
+	key?: string;
+
+	/**
+	 * Run that is replayed by this run
+	 */
+	replayOf?: string;
+
+	/**
+	 * Queued job the flow is run for
+	 */
+	job?: FlowJob;
+};
+
+// Operations that reject on purpose to stop a flow. These aren't retried when the flow is run from the queue
+const FINAL_OPERATIONS = ['condition'];
+
+function findOperation(operation: Operation | null, id: string): Operation | undefined {
+	if (operation === null) return undefined;
+
+	if (operation.id === id) return operation;
+
+	return findOperation(operation.resolve, id) ?? findOperation(operation.reject, id);
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+
+	if (typeof error === 'string') return error;
+
+	return JSON.stringify(error);
+}
+
 class FlowManager {
 	private isLoaded = false;
 
@@ -61,6 +112,7 @@ class FlowManager {
 
 	private reloadQueue: JobQueue;
 	private envs: Record<string, any>;
+	private queueEnabled: boolean;
 
 	constructor() {
 		const env = useEnv();
@@ -68,6 +120,7 @@ class FlowManager {
 
 		this.reloadQueue = new JobQueue();
 		this.envs = env['FLOWS_ENV_ALLOW_LIST'] ? pick(env, toArray(env['FLOWS_ENV_ALLOW_LIST'] as string)) : {};
+		this.queueEnabled = env['FLOWS_QUEUE_ENABLED'] === true;
 
 		const messenger = useBus();
 
@@ -89,6 +142,10 @@ class FlowManager {
 		if (!this.isLoaded) {
 			await this.load();
 		}
+
+		if (this.queueEnabled) {
+			getFlowQueue().start((job) => this.executeFlowJob(job));
+		}
 	}
 
 	public async reload(): Promise<void> {
@@ -118,6 +175,43 @@ class FlowManager {
 		return handler(data, context);
 	}
 
+	/**
+	 * Run a chain of operations of the given flow that isn't connected to its trigger, starting with the operation with
+	 * the given key. Resolves with the result of the last operation, and rejects with it if that operation rejected
+	 */
+	public async runOperationChain(
+		flow: Flow,
+		key: string,
+		keyedData: Record<string, unknown>,
+		context: Record<string, unknown>,
+	): Promise<unknown> {
+		let nextOperation: Operation | null | undefined = flow.chains[key];
+
+		if (nextOperation === undefined) {
+			throw new Error(`Operation "${key}" doesn't start a chain of operations in flow "${flow.id}"`);
+		}
+
+		const chainData = { ...keyedData };
+
+		let lastOperationStatus: FlowRunStatus = 'unknown';
+
+		while (nextOperation !== null) {
+			const { successor, data, status } = await this.executeOperation(nextOperation, chainData, { ...context, flow });
+
+			chainData[nextOperation.key] = data;
+			chainData[LAST_KEY] = data;
+			lastOperationStatus = status;
+
+			nextOperation = successor;
+		}
+
+		if (lastOperationStatus === 'reject') {
+			throw chainData[LAST_KEY];
+		}
+
+		return chainData[LAST_KEY];
+	}
+
 	public async runWebhookFlow(
 		id: string,
 		data: unknown,
@@ -193,11 +287,13 @@ class FlowManager {
 					});
 				} else if (flow.options['type'] === 'action') {
 					const handler: ActionHandler = (meta, context) =>
-						this.executeFlow(flow, meta, {
-							accountability: context['accountability'],
-							database: getDatabase(),
-							getSchema: context['schema'] ? () => context['schema'] : getSchema,
-						});
+						this.queueEnabled
+							? getFlowQueue().enqueue(flow.id, { [TRIGGER_KEY]: meta, [LAST_KEY]: meta }, context['accountability'])
+							: this.executeFlow(flow, meta, {
+									accountability: context['accountability'],
+									database: getDatabase(),
+									getSchema: context['schema'] ? () => context['schema'] : getSchema,
+							  });
 
 					events.forEach((event) => emitter.onAction(event, handler));
 
@@ -210,7 +306,11 @@ class FlowManager {
 				if (validateCron(flow.options['cron'])) {
 					const job = scheduleSynchronizedJob(flow.id, flow.options['cron'], async () => {
 						try {
-							await this.executeFlow(flow);
+							if (this.queueEnabled) {
+								await getFlowQueue().enqueue(flow.id, { [TRIGGER_KEY]: null, [LAST_KEY]: null }, null);
+							} else {
+								await this.executeFlow(flow);
+							}
 						} catch (error: any) {
 							logger.error(error);
 						}
@@ -308,38 +408,132 @@ class FlowManager {
 		this.isLoaded = false;
 	}
 
-	private async executeFlow(flow: Flow, data: unknown = null, context: Record<string, unknown> = {}): Promise<unknown> {
+	/**
+	 * Run a flow job that was claimed from the queue. Throws when the job has to be retried
+	 */
+	private async executeFlowJob(job: FlowJob): Promise<void> {
+		const database = getDatabase();
+		const schema = await getSchema({ database });
+
+		const flowsService = new FlowsService({ knex: database, schema });
+
+		const flow = constructFlowTree(await flowsService.readOne(job.flow, { fields: ['*', 'operations.*'] }));
+
+		// Jobs of flows that have been deactivated in the meantime are dropped
+		if (flow.status !== 'active') return;
+
+		const accountability = job.accountability
+			? { ...job.accountability, permissions: await getPermissions(job.accountability, schema) }
+			: null;
+
+		await this.executeFlow(flow, job.data[TRIGGER_KEY] ?? null, { accountability, database, getSchema }, { job });
+	}
+
+	/**
+	 * Run the flow of a previous run again, using the trigger payload that was recorded for that run.
+	 * Returns the key of the new run, if the flow keeps track of its runs
+	 */
+	public async replayFlowRun(key: PrimaryKey, context: Record<string, unknown> = {}): Promise<PrimaryKey | null> {
+		const database = getDatabase();
+		const schema = await getSchema({ database });
+
+		const flowRunsService = new ItemsService<FlowRun>('directus_flow_runs', { knex: database, schema });
+		const flowsService = new FlowsService({ knex: database, schema });
+
+		const run = await flowRunsService.readOne(key, { fields: ['id', 'flow', 'data'] });
+		const flow = constructFlowTree(await flowsService.readOne(run.flow, { fields: ['*', 'operations.*'] }));
+
+		const runKey = randomUUID();
+
+		await this.executeFlow(
+			flow,
+			run.data?.[TRIGGER_KEY] ?? null,
+			{ database, schema, ...context },
+			{
+				key: runKey,
+				replayOf: run.id,
+			},
+		);
+
+		return flow.accountability !== null ? runKey : null;
+	}
+
+	private async executeFlow(
+		flow: Flow,
+		data: unknown = null,
+		context: Record<string, unknown> = {},
+		runOptions: FlowRunOptions = {},
+	): Promise<unknown> {
 		const database = (context['database'] as Knex) ?? getDatabase();
 		const schema = (context['schema'] as SchemaOverview) ?? (await getSchema({ database }));
 
 		const keyedData: Record<string, unknown> = {
 			[TRIGGER_KEY]: data,
 			[LAST_KEY]: data,
+			...(runOptions.job?.data ?? {}),
 			[ACCOUNTABILITY_KEY]: context?.['accountability'] ?? null,
 			[ENV_KEY]: this.envs,
 		};
 
-		let nextOperation = flow.operation;
-		let lastOperationStatus: 'resolve' | 'reject' | 'unknown' = 'unknown';
+		let nextOperation = runOptions.job?.operation
+			? findOperation(flow.operation, runOptions.job.operation)
+			: flow.operation;
+
+		if (nextOperation === undefined) {
+			throw new Error(`Operation "${runOptions.job!.operation}" doesn't exist in flow "${flow.id}"`);
+		}
+
+		let lastOperationStatus: FlowRunStatus = 'unknown';
+
+		const steps: FlowRunStep[] = [];
 
-		const steps: {
-			operation: string;
-			key: string;
-			status: 'resolve' | 'reject' | 'unknown';
-			options: Record<string, any> | null;
-		}[] = [];
+		const dateStarted = new Date();
 
 		while (nextOperation !== null) {
-			const { successor, data, status, options } = await this.executeOperation(nextOperation, keyedData, context);
+			const stepStarted = new Date();
+
+			const { successor, data, status, options } = await this.executeOperation(nextOperation, keyedData, {
+				...context,
+				flow,
+			});
+
+			// Unhandled rejections of queued flows are retried by the queue, starting from the rejected operation
+			if (
+				runOptions.job &&
+				status === 'reject' &&
+				nextOperation.reject === null &&
+				!FINAL_OPERATIONS.includes(nextOperation.type)
+			) {
+				throw new FlowJobError(nextOperation.id, getErrorMessage(data));
+			}
 
 			keyedData[nextOperation.key] = data;
 			keyedData[LAST_KEY] = data;
 			lastOperationStatus = status;
-			steps.push({ operation: nextOperation!.id, key: nextOperation.key, status, options });
+
+			steps.push({
+				operation: nextOperation!.id,
+				key: nextOperation.key,
+				status,
+				date_started: stepStarted.toISOString(),
+				duration: Date.now() - stepStarted.getTime(),
+				options,
+				data,
+			});
+
+			if (runOptions.job) {
+				await getFlowQueue().checkpoint(
+					runOptions.job.id,
+					successor?.id ?? null,
+					omit(keyedData, [ACCOUNTABILITY_KEY, ENV_KEY]),
+				);
+			}
 
 			nextOperation = successor;
 		}
 
+		const dateFinished = new Date();
+
 		if (flow.accountability !== null) {
 			const activityService = new ActivityService({
 				knex: database,
@@ -348,7 +542,7 @@ class FlowManager {
 
 			const accountability = context?.['accountability'] as Accountability | undefined;
 
-			const activity = await activityService.createOne({
+			await activityService.createOne({
 				action: Action.RUN,
 				user: accountability?.user ?? null,
 				collection: 'directus_flows',
@@ -358,37 +552,55 @@ class FlowManager {
 				item: flow.id,
 			});
 
-			if (flow.accountability === 'all') {
-				const revisionsService = new RevisionsService({
-					knex: database,
-					schema: schema,
-				});
+			const flowRunsService = new ItemsService('directus_flow_runs', {
+				knex: database,
+				schema: schema,
+			});
 
-				await revisionsService.createOne({
-					activity: activity,
-					collection: 'directus_flows',
-					item: flow.id,
-					data: {
-						steps: steps.map((step) => redactObject(step, { values: this.envs }, getRedactedString)),
-						data: redactObject(
-							omit(keyedData, '$accountability.permissions'), // Permissions is a ton of data, and is just a copy of what's in the directus_permissions table
-							{
-								keys: [
-									['**', 'headers', 'authorization'],
-									['**', 'headers', 'cookie'],
-									['**', 'query', 'access_token'],
-									['**', 'payload', 'password'],
-								],
-								values: this.envs,
-							},
-							getRedactedString,
-						),
+			const redactOptions = {
+				keys: [
+					['**', 'headers', 'authorization'],
+					['**', 'headers', 'cookie'],
+					['**', 'query', 'access_token'],
+					['**', 'payload', 'password'],
+				],
+				values: this.envs,
+			};
+
+			await flowRunsService.createOne({
+				...(runOptions.key ? { id: runOptions.key } : {}),
+				flow: flow.id,
+				status: lastOperationStatus,
+				date_started: dateStarted.toISOString(),
+				date_finished: dateFinished.toISOString(),
+				duration: dateFinished.getTime() - dateStarted.getTime(),
+				user: accountability?.user ?? null,
+				data: redactObject(
+					{
+						[TRIGGER_KEY]: keyedData[TRIGGER_KEY],
+						// Permissions is a ton of data, and is just a copy of what's in the directus_permissions table
+						[ACCOUNTABILITY_KEY]: accountability ? omit(accountability, 'permissions') : null,
 					},
-				});
-			}
+					redactOptions,
+					getRedactedString,
+				),
+				// The options and results of the operations are only kept when the flow tracks all its data
+				steps: steps.map((step) =>
+					flow.accountability === 'all'
+						? redactObject(step, redactOptions, getRedactedString)
+						: omit(step, ['options', 'data']),
+				),
+				replay_of: runOptions.replayOf ?? null,
+			});
 		}
 
-		if (flow.trigger === 'event' && flow.options['type'] === 'filter' && lastOperationStatus === 'reject') {
+		// Replays can't cancel the original event anymore, so there's no need to reject them
+		if (
+			flow.trigger === 'event' &&
+			flow.options['type'] === 'filter' &&
+			lastOperationStatus === 'reject' &&
+			!runOptions.replayOf
+		) {
 			throw keyedData[LAST_KEY];
 		}
 
@@ -407,7 +619,7 @@ class FlowManager {
 		context: Record<string, unknown> = {},
 	): Promise<{
 		successor: Operation | null;
-		status: 'resolve' | 'reject' | 'unknown';
+		status: FlowRunStatus;
 		data: unknown;
 		options: Record<string, any> | null;
 	}> {
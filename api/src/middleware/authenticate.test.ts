@@ -10,6 +10,10 @@ import { handler } from './authenticate.js';
 
 vi.mock('../database/index');
 
+vi.mock('../utils/verify-access-token.js', () => ({
+	verifyAccessToken: vi.fn().mockResolvedValue(null),
+}));
+
 // This is required because logger uses global env which is imported before the tests run. Can be
 // reduce to just mock the file when logger is also using useLogger everywhere @TODO
 vi.mock('@directus/env', () => ({
@@ -238,6 +242,7 @@ test('Sets accountability to user information when static token is used', async
 	const expectedAccountability = {
 		user: testUser.id,
 		role: testUser.role,
+		roles: [testUser.role],
 		app: testUser.app_access,
 		admin: testUser.admin_access,
 		ip: '127.0.0.1',
@@ -251,6 +256,9 @@ test('Sets accountability to user information when static token is used', async
 		leftJoin: vi.fn().mockReturnThis(),
 		where: vi.fn().mockReturnThis(),
 		first: vi.fn().mockResolvedValue(testUser),
+		orderBy: vi.fn().mockResolvedValue([]),
+		// Admin and app access are read from the roles of the user
+		whereIn: vi.fn(() => Promise.resolve([testUser])),
 	} as unknown as Knex);
 
 	await handler(req, res, next);
@@ -0,0 +1,68 @@
+import { TfaRequiredError } from '@directus/errors';
+import type { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { afterEach, expect, test, vi } from 'vitest';
+import '../types/express.d.ts';
+import { checkTFA } from './check-tfa.js';
+
+vi.mock('../utils/get-secret.js', () => ({
+	getSecret: vi.fn().mockReturnValue('test'),
+}));
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+function createToken(payload: Record<string, unknown> = {}): string {
+	return jwt.sign({ id: 'user-id', role: 'role-a', app_access: true, admin_access: false, ...payload }, 'test', {
+		issuer: 'directus',
+	});
+}
+
+function createRequest(method: string, path: string, token: string | null = null): Request {
+	return {
+		method,
+		path,
+		token,
+		accountability: { user: 'user-id', role: 'role-a', roles: ['role-a', 'role-b'] },
+	} as unknown as Request;
+}
+
+test('Rejects requests when the token requires TFA to be set up', () => {
+	const next = vi.fn();
+
+	checkTFA(createRequest('GET', '/items/articles', createToken({ tfa_setup_required: true })), {} as Response, next);
+
+	expect(next).toHaveBeenCalledWith(expect.any(TfaRequiredError));
+});
+
+test('Allows requests when the token does not require TFA to be set up', () => {
+	const next = vi.fn();
+
+	checkTFA(createRequest('GET', '/items/articles', createToken()), {} as Response, next);
+
+	expect(next).toHaveBeenCalledWith();
+});
+
+test.each([
+	['POST', '/auth/refresh'],
+	['GET', '/users/me'],
+	['POST', '/users/me/tfa/generate/'],
+	['POST', '/users/me/tfa/enable'],
+	['POST', '/users/me/webauthn/options'],
+	['POST', '/users/me/webauthn'],
+])('Allows %s %s, which is needed to set up TFA', (method, path) => {
+	const next = vi.fn();
+
+	checkTFA(createRequest(method, path, createToken({ tfa_setup_required: true })), {} as Response, next);
+
+	expect(next).toHaveBeenCalledWith();
+});
+
+test('Does not apply to static tokens', () => {
+	const next = vi.fn();
+
+	checkTFA(createRequest('GET', '/items/articles', 'static-token'), {} as Response, next);
+
+	expect(next).toHaveBeenCalledWith();
+});
@@ -0,0 +1,51 @@
+import { TfaRequiredError } from '@directus/errors';
+import type { Request, RequestHandler } from 'express';
+import { getSecret } from '../utils/get-secret.js';
+import isDirectusJWT from '../utils/is-directus-jwt.js';
+import { verifyAccessJWT } from '../utils/jwt.js';
+
+/**
+ * Endpoints needed to set up TFA, which stay available to users that are required to set it up first
+ */
+const TFA_SETUP_ROUTES: { method: string; path: string | RegExp }[] = [
+	{ method: '*', path: /^\/auth(\/|$)/ },
+	{ method: 'GET', path: /^\/extensions\/sources\// },
+	{ method: 'GET', path: '/server/info' },
+	{ method: 'GET', path: '/server/health' },
+	{ method: 'GET', path: '/users/me' },
+	{ method: 'PATCH', path: '/users/me/track/page' },
+	{ method: 'POST', path: '/users/me/tfa/generate' },
+	{ method: 'POST', path: '/users/me/tfa/enable' },
+	{ method: 'GET', path: '/users/me/webauthn' },
+	{ method: 'POST', path: '/users/me/webauthn/options' },
+	{ method: 'POST', path: '/users/me/webauthn' },
+];
+
+/**
+ * Reject requests of users without TFA when one of their roles enforces it, until they have set it up. Whether that's
+ * the case is decided when the access token is issued, so a new token has to be requested once TFA is set up
+ */
+export const checkTFA: RequestHandler = (req, _res, next) => {
+	const { user, share } = req.accountability!;
+
+	// Static tokens aren't used to log in, so the enforcement only applies to sessions
+	if (!user || share || !req.token || !isDirectusJWT(req.token)) return next();
+
+	if (isTFASetupRoute(req)) return next();
+
+	const { tfa_setup_required } = verifyAccessJWT(req.token, getSecret());
+
+	if (tfa_setup_required) return next(new TfaRequiredError());
+
+	return next();
+};
+
+function isTFASetupRoute(req: Request): boolean {
+	const path = req.path.length > 1 ? req.path.replace(/\/$/, '') : req.path;
+
+	return TFA_SETUP_ROUTES.some((route) => {
+		if (route.method !== '*' && route.method !== req.method) return false;
+
+		return typeof route.path === 'string' ? route.path === path : route.path.test(path);
+	});
+}
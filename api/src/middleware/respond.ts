@@ -86,6 +86,12 @@ export const respond: RequestHandler = asyncHandler(async (req, res) => {
 			res.set('Content-Type', 'text/yaml');
 			return res.status(200).send(exportService.transform(res.locals['payload']?.data, 'yaml'));
 		}
+
+		if (req.sanitizedQuery.export === 'xlsx') {
+			res.attachment(`${filename}.xlsx`);
+			res.set('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+			return res.status(200).send(await exportService.transformXLSX(res.locals['payload']?.data, req.collection));
+		}
 	}
 
 	if (Buffer.isBuffer(res.locals['payload'])) {
@@ -0,0 +1,84 @@
+import type { Flow } from '@directus/types';
+import { afterEach, expect, test, vi } from 'vitest';
+
+const runOperationChain = vi.fn();
+
+vi.doMock('../../flows.js', () => ({
+	getFlowManager: vi.fn().mockReturnValue({
+		runOperationChain,
+	}),
+}));
+
+const { default: config } = await import('./index.js');
+
+const flow = { id: '00000000-0000-0000-0000-000000000000' } as Flow;
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+test('runs the chain for every element of the array', async () => {
+	runOperationChain.mockImplementation((_flow, _key, data) => data.$item * 2);
+
+	const result = await config.handler({ array: [1, 2, 3], operation: 'double' }, { flow, data: {} } as any);
+
+	expect(runOperationChain).toHaveBeenCalledTimes(3);
+	expect(result).toEqual([2, 4, 6]);
+});
+
+test('passes the element and its index to the chain', async () => {
+	await config.handler({ array: '["a", "b"]', operation: 'body' }, { flow, data: { $trigger: 'trigger' } } as any);
+
+	expect(runOperationChain).toHaveBeenCalledWith(
+		flow,
+		'body',
+		{ $trigger: 'trigger', $item: 'b', $index: 1, $last: 'b' },
+		expect.anything(),
+	);
+});
+
+test('keeps the order of the results when running concurrently', async () => {
+	runOperationChain.mockImplementation(
+		(_flow, _key, data) => new Promise((resolve) => setTimeout(() => resolve(data.$item), 30 - data.$item * 10)),
+	);
+
+	const result = await config.handler({ array: [1, 2, 3], operation: 'body', concurrency: 3 }, {
+		flow,
+		data: {},
+	} as any);
+
+	expect(result).toEqual([1, 2, 3]);
+});
+
+test('limits the number of elements processed at the same time', async () => {
+	let running = 0;
+	let maxRunning = 0;
+
+	runOperationChain.mockImplementation(async () => {
+		running++;
+		maxRunning = Math.max(maxRunning, running);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		running--;
+	});
+
+	await config.handler({ array: [1, 2, 3, 4, 5], operation: 'body', concurrency: 2 }, { flow, data: {} } as any);
+
+	expect(runOperationChain).toHaveBeenCalledTimes(5);
+	expect(maxRunning).toBe(2);
+});
+
+test('stops processing elements once the chain rejects', async () => {
+	runOperationChain.mockRejectedValueOnce(new Error('failed'));
+
+	await expect(config.handler({ array: [1, 2, 3], operation: 'body' }, { flow, data: {} } as any)).rejects.toThrowError(
+		'failed',
+	);
+
+	expect(runOperationChain).toHaveBeenCalledOnce();
+});
+
+test('throws if array is not an array', async () => {
+	await expect(
+		config.handler({ array: '{ "a": 1 }', operation: 'body' }, { flow, data: {} } as any),
+	).rejects.toThrowError('Loop "array" has to be an array');
+});
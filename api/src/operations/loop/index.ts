@@ -0,0 +1,63 @@
+import { defineOperationApi } from '@directus/extensions';
+import { optionToObject } from '@directus/utils';
+import { omit } from 'lodash-es';
+import { getFlowManager } from '../../flows.js';
+
+type Options = {
+	array: unknown[] | string | null;
+	operation: string;
+	concurrency?: number | string | null;
+};
+
+export default defineOperationApi<Options>({
+	id: 'loop',
+
+	handler: async ({ array, operation, concurrency }, context) => {
+		const flowManager = getFlowManager();
+
+		const items = optionToObject(array) ?? [];
+
+		if (!Array.isArray(items)) {
+			throw new Error('Loop "array" has to be an array');
+		}
+
+		if (!context.flow) {
+			throw new Error('Loop operation has to be run within a flow');
+		}
+
+		const flow = context.flow;
+		const limit = Math.max(Number(concurrency ?? 1) || 1, 1);
+
+		const results: unknown[] = new Array(items.length);
+
+		let nextIndex = 0;
+		let failed = false;
+
+		// Every worker picks up the next item once it's done with its previous one, so that at most `limit` items are
+		// processed at the same time. The results are kept in the order of the items
+		const worker = async () => {
+			while (nextIndex < items.length && !failed) {
+				const index = nextIndex++;
+
+				const data = {
+					...context.data,
+					$item: items[index],
+					$index: index,
+					$last: items[index],
+				};
+
+				try {
+					results[index] = await flowManager.runOperationChain(flow, operation, data, omit(context, 'data'));
+				} catch (error) {
+					// Stop picking up the remaining items once one of them failed
+					failed = true;
+					throw error;
+				}
+			}
+		};
+
+		await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+		return results;
+	},
+});
@@ -0,0 +1,105 @@
+import type { Flow } from '@directus/types';
+import { afterEach, expect, test, vi } from 'vitest';
+
+const runOperationChain = vi.fn();
+
+vi.doMock('../../flows.js', () => ({
+	getFlowManager: vi.fn().mockReturnValue({
+		runOperationChain,
+	}),
+}));
+
+const { default: config } = await import('./index.js');
+
+const flow = { id: '00000000-0000-0000-0000-000000000000' } as Flow;
+
+const branches = [
+	{ name: 'weather', operation: 'fetch_weather' },
+	{ name: 'news', operation: 'fetch_news' },
+];
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+test('runs every branch with the data of the flow', async () => {
+	const data = { $trigger: { test: 'test' } };
+
+	await config.handler({ branches }, { flow, data } as any);
+
+	expect(runOperationChain).toHaveBeenCalledTimes(2);
+	expect(runOperationChain).toHaveBeenCalledWith(flow, 'fetch_weather', data, expect.anything());
+	expect(runOperationChain).toHaveBeenCalledWith(flow, 'fetch_news', data, expect.anything());
+});
+
+test('runs the branches at the same time', async () => {
+	let running = 0;
+	let maxRunning = 0;
+
+	runOperationChain.mockImplementation(async () => {
+		running++;
+		maxRunning = Math.max(maxRunning, running);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		running--;
+	});
+
+	await config.handler({ branches }, { flow, data: {} } as any);
+
+	expect(maxRunning).toBe(2);
+});
+
+test('returns the results of all branches under their names', async () => {
+	runOperationChain.mockImplementation((_flow, key) => `${key} result`);
+
+	const result = await config.handler({ branches, mode: 'all' }, { flow, data: {} } as any);
+
+	expect(result).toEqual({ weather: 'fetch_weather result', news: 'fetch_news result' });
+});
+
+test('rejects if any of the branches rejects', async () => {
+	runOperationChain.mockResolvedValueOnce('weather').mockRejectedValueOnce(new Error('failed'));
+
+	await expect(config.handler({ branches }, { flow, data: {} } as any)).rejects.toThrowError('failed');
+});
+
+test('returns the result of the first resolved branch', async () => {
+	runOperationChain.mockImplementation(
+		(_flow, key) => new Promise((resolve) => setTimeout(() => resolve(key), key === 'fetch_news' ? 0 : 20)),
+	);
+
+	const result = await config.handler({ branches, mode: 'first' }, { flow, data: {} } as any);
+
+	expect(result).toEqual({ news: 'fetch_news' });
+});
+
+test('ignores rejected branches if waiting for the first', async () => {
+	runOperationChain.mockRejectedValueOnce(new Error('failed')).mockResolvedValueOnce('news');
+
+	const result = await config.handler({ branches, mode: 'first' }, { flow, data: {} } as any);
+
+	expect(result).toEqual({ news: 'news' });
+});
+
+test('rejects if all branches reject when waiting for the first', async () => {
+	runOperationChain.mockRejectedValueOnce(new Error('weather failed')).mockRejectedValueOnce(new Error('news failed'));
+
+	await expect(config.handler({ branches, mode: 'first' }, { flow, data: {} } as any)).rejects.toThrowError(
+		'weather failed',
+	);
+});
+
+test('throws if names of branches are not unique', async () => {
+	await expect(
+		config.handler(
+			{
+				branches: [
+					{ name: 'a', operation: 'one' },
+					{ name: 'a', operation: 'two' },
+				],
+			},
+			{ flow, data: {} } as any,
+		),
+	).rejects.toThrowError('Branches of parallel operation have to have unique names');
+
+	expect(runOperationChain).not.toHaveBeenCalled();
+});
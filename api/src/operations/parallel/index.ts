@@ -0,0 +1,62 @@
+import { defineOperationApi } from '@directus/extensions';
+import { optionToObject } from '@directus/utils';
+import { omit } from 'lodash-es';
+import { getFlowManager } from '../../flows.js';
+
+type Branch = {
+	name: string;
+	operation: string;
+};
+
+type Options = {
+	branches: Branch[] | string | null;
+	mode?: 'all' | 'first' | null;
+};
+
+export default defineOperationApi<Options>({
+	id: 'parallel',
+
+	handler: async ({ branches, mode }, context) => {
+		const flowManager = getFlowManager();
+
+		const branchesArray: Branch[] = optionToObject(branches) ?? [];
+
+		if (!Array.isArray(branchesArray) || branchesArray.length === 0) {
+			throw new Error('Undefined branches for parallel operation');
+		}
+
+		const names = branchesArray.map((branch) => branch.name);
+
+		if (new Set(names).size !== names.length) {
+			throw new Error('Branches of parallel operation have to have unique names');
+		}
+
+		if (!context.flow) {
+			throw new Error('Parallel operation has to be run within a flow');
+		}
+
+		const flow = context.flow;
+
+		// Every branch starts out with the same data, and its own results aren't visible to the other branches
+		const runBranch = async ({ name, operation }: Branch) => {
+			const result = await flowManager.runOperationChain(flow, operation, context.data, omit(context, 'data'));
+
+			return [name, result] as const;
+		};
+
+		if (mode === 'first') {
+			try {
+				const [name, result] = await Promise.any(branchesArray.map(runBranch));
+
+				return { [name]: result };
+			} catch (error) {
+				// All branches rejected, reject with the result of the first one
+				throw error instanceof AggregateError ? error.errors[0] : error;
+			}
+		}
+
+		const results = await Promise.all(branchesArray.map(runBranch));
+
+		return Object.fromEntries(results);
+	},
+});
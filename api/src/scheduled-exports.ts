@@ -0,0 +1,107 @@
+import { useBus } from './bus/index.js';
+import getDatabase from './database/index.js';
+import { useLogger } from './logger.js';
+import { ExportsService } from './services/exports.js';
+import { getSchema } from './utils/get-schema.js';
+import { JobQueue } from './utils/job-queue.js';
+import { scheduleSynchronizedJob, validateCron, type ScheduledJob } from './utils/schedule.js';
+
+let scheduledExportManager: ScheduledExportManager | undefined;
+
+export function getScheduledExportManager(): ScheduledExportManager {
+	if (scheduledExportManager) {
+		return scheduledExportManager;
+	}
+
+	scheduledExportManager = new ScheduledExportManager();
+
+	return scheduledExportManager;
+}
+
+interface ScheduledExportMessage {
+	type: 'reload';
+}
+
+class ScheduledExportManager {
+	private isLoaded = false;
+
+	private jobs: ScheduledJob[] = [];
+
+	private reloadQueue: JobQueue;
+
+	constructor() {
+		const logger = useLogger();
+
+		this.reloadQueue = new JobQueue();
+
+		const messenger = useBus();
+
+		messenger.subscribe<ScheduledExportMessage>('exports', (event) => {
+			if (event['type'] === 'reload') {
+				this.reloadQueue.enqueue(async () => {
+					if (this.isLoaded) {
+						await this.unload();
+						await this.load();
+					} else {
+						logger.warn('Scheduled exports have to be loaded before they can be reloaded');
+					}
+				});
+			}
+		});
+	}
+
+	public async initialize(): Promise<void> {
+		if (!this.isLoaded) {
+			await this.load();
+		}
+	}
+
+	public async reload(): Promise<void> {
+		const messenger = useBus();
+
+		messenger.publish<ScheduledExportMessage>('exports', { type: 'reload' });
+	}
+
+	private async load(): Promise<void> {
+		const logger = useLogger();
+
+		const exportsService = new ExportsService({ knex: getDatabase(), schema: await getSchema() });
+
+		const scheduledExports = await exportsService.readByQuery({
+			filter: { status: { _eq: 'active' } },
+			fields: ['id', 'schedule'],
+			limit: -1,
+		});
+
+		for (const scheduledExport of scheduledExports) {
+			if (!validateCron(scheduledExport.schedule)) {
+				logger.warn(`Couldn't schedule export. Provided cron is invalid: ${scheduledExport.schedule}`);
+				continue;
+			}
+
+			const job = scheduleSynchronizedJob(`export:${scheduledExport.id}`, scheduledExport.schedule, async () => {
+				try {
+					const exportsService = new ExportsService({ knex: getDatabase(), schema: await getSchema() });
+
+					await exportsService.run(scheduledExport.id);
+				} catch (error: any) {
+					logger.error(error);
+				}
+			});
+
+			this.jobs.push(job);
+		}
+
+		this.isLoaded = true;
+	}
+
+	private async unload(): Promise<void> {
+		for (const job of this.jobs) {
+			await job.stop();
+		}
+
+		this.jobs = [];
+
+		this.isLoaded = false;
+	}
+}
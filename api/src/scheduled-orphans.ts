@@ -0,0 +1,56 @@
+import { useEnv } from '@directus/env';
+import getDatabase from './database/index.js';
+import { useLogger } from './logger.js';
+import { FilesService } from './services/files.js';
+import { getSchema } from './utils/get-schema.js';
+import { scheduleSynchronizedJob, validateCron } from './utils/schedule.js';
+
+/**
+ * Exported to be able to test the anonymous callback function
+ */
+export const jobCallback = async () => {
+	const env = useEnv();
+	const logger = useLogger();
+
+	try {
+		const filesService = new FilesService({ knex: getDatabase(), schema: await getSchema() });
+
+		const orphans = await filesService.readOrphans();
+
+		if (orphans.length === 0) return;
+
+		if (env['FILES_ORPHAN_CLEANUP_DRY_RUN'] === true) {
+			for (const file of orphans) {
+				logger.info(`Orphaned file "${file.id}" (${file.filename_download}) would be removed`);
+			}
+
+			logger.info(`${orphans.length} orphaned files would be removed, skipped in dry run`);
+			return;
+		}
+
+		await filesService.deleteMany(orphans.map((file) => file.id));
+
+		logger.info(`Removed ${orphans.length} orphaned files`);
+	} catch (error) {
+		logger.error(error, `Couldn't remove orphaned files`);
+	}
+};
+
+/**
+ * Remove the files that aren't referenced anywhere on the configured schedule, if any
+ */
+export const initScheduledOrphans = () => {
+	const env = useEnv();
+	const logger = useLogger();
+
+	const schedule = env['FILES_ORPHAN_CLEANUP_SCHEDULE'];
+
+	if (!schedule) return;
+
+	if (typeof schedule !== 'string' || validateCron(schedule) === false) {
+		logger.warn(`Invalid cron expression in FILES_ORPHAN_CLEANUP_SCHEDULE, orphaned files won't be removed`);
+		return;
+	}
+
+	scheduleSynchronizedJob('files-orphan-cleanup', schedule, jobCallback);
+};
@@ -0,0 +1,27 @@
+import getDatabase from './database/index.js';
+import { useLogger } from './logger.js';
+import { FileUploadsService } from './services/file-uploads.js';
+import { getSchema } from './utils/get-schema.js';
+import { scheduleSynchronizedJob } from './utils/schedule.js';
+
+/**
+ * Exported to be able to test the anonymous callback function
+ */
+export const jobCallback = async () => {
+	const logger = useLogger();
+
+	try {
+		const fileUploadsService = new FileUploadsService({ knex: getDatabase(), schema: await getSchema() });
+
+		await fileUploadsService.deleteExpired();
+	} catch (error) {
+		logger.error(error, `Couldn't remove expired uploads`);
+	}
+};
+
+/**
+ * Remove resumable uploads that weren't continued within the expiration time every hour
+ */
+export const initScheduledUploads = () => {
+	scheduleSynchronizedJob('files-uploads-cleanup', '0 * * * *', jobCallback);
+};
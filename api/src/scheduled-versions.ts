@@ -0,0 +1,27 @@
+import getDatabase from './database/index.js';
+import { useLogger } from './logger.js';
+import { VersionsService } from './services/versions.js';
+import { getSchema } from './utils/get-schema.js';
+import { scheduleSynchronizedJob } from './utils/schedule.js';
+
+/**
+ * Exported to be able to test the anonymous callback function
+ */
+export const jobCallback = async () => {
+	const logger = useLogger();
+
+	try {
+		const versionsService = new VersionsService({ knex: getDatabase(), schema: await getSchema() });
+
+		await versionsService.promoteScheduled();
+	} catch (error) {
+		logger.error(error, `Couldn't promote scheduled versions`);
+	}
+};
+
+/**
+ * Check every minute for content versions that are scheduled to be promoted
+ */
+export const initScheduledVersions = () => {
+	scheduleSynchronizedJob('versions-publish', '* * * * *', jobCallback);
+};
@@ -0,0 +1,111 @@
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { hashAccessToken } from '../utils/verify-access-token.js';
+import { AccessTokensService } from './access-tokens.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+const user = 'user-id';
+
+describe('readByUser', () => {
+	test('returns the tokens without the tokens themselves', async () => {
+		tracker.on.select('directus_access_tokens').responseOnce([
+			{
+				id: 'token-1',
+				name: 'ERP',
+				scope: '[{"collection":"orders","action":"read"}]',
+				ip_access: '10.0.0.0/8,192.168.0.1',
+				expires: null,
+				date_created: new Date('2024-06-01T00:00:00Z'),
+				last_used: null,
+			},
+		]);
+
+		const service = new AccessTokensService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		expect(await service.readByUser(user)).toEqual([
+			{
+				id: 'token-1',
+				name: 'ERP',
+				scope: [{ collection: 'orders', action: 'read' }],
+				ip_access: ['10.0.0.0/8', '192.168.0.1'],
+				expires: null,
+				date_created: '2024-06-01T00:00:00.000Z',
+				last_used: null,
+			},
+		]);
+
+		expect(tracker.history.select[0]!.sql).not.toContain('"token"');
+	});
+
+	test('only allows admins to read the tokens of other users', async () => {
+		const service = new AccessTokensService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.readByUser('other-user')).rejects.toBeInstanceOf(ForbiddenError);
+	});
+});
+
+describe('create', () => {
+	test('stores a hash of the token', async () => {
+		tracker.on.insert('directus_access_tokens').responseOnce([1]);
+
+		const service = new AccessTokensService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		const { token } = await service.create(user, {
+			name: 'Website build',
+			scope: [{ collection: 'articles', action: 'read' }],
+		});
+
+		const bindings = tracker.history.insert[0]!.bindings;
+
+		expect(bindings).toContain(hashAccessToken(token));
+		expect(bindings).not.toContain(token);
+		expect(bindings).toContain('[{"collection":"articles","action":"read"}]');
+	});
+
+	test('rejects invalid IP addresses', async () => {
+		const service = new AccessTokensService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.create(user, { name: 'BI', ip_access: ['not-an-ip'] })).rejects.toBeInstanceOf(
+			InvalidPayloadError,
+		);
+	});
+
+	test('does not allow tokens restricted to a scope to create tokens', async () => {
+		const service = new AccessTokensService({
+			knex: db,
+			schema: {} as any,
+			accountability: { user, role: null, access_token_scope: [{ collection: 'articles', action: 'read' }] },
+		});
+
+		await expect(service.create(user, { name: 'Escalated' })).rejects.toBeInstanceOf(ForbiddenError);
+	});
+});
+
+describe('revoke', () => {
+	test('throws when the token does not exist', async () => {
+		tracker.on.delete('directus_access_tokens').responseOnce(0);
+
+		const service = new AccessTokensService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.revoke(user, 'token-1')).rejects.toBeInstanceOf(ForbiddenError);
+		expect(tracker.history.delete[0]!.bindings).toEqual([user, 'token-1']);
+	});
+});
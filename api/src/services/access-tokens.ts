@@ -0,0 +1,133 @@
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import type { AccessTokenScope, Accountability, UserAccessToken } from '@directus/types';
+import { parseJSON } from '@directus/utils';
+import type { Knex } from 'knex';
+import { nanoid } from 'nanoid';
+import { randomUUID } from 'node:crypto';
+import getDatabase from '../database/index.js';
+import type { AbstractServiceOptions } from '../types/index.js';
+import { ipInNetworks } from '../utils/ip-in-networks.js';
+import { hashAccessToken } from '../utils/verify-access-token.js';
+
+export type AccessTokenPayload = {
+	name: string;
+	expires?: string | null;
+	ip_access?: string[] | null;
+	scope?: AccessTokenScope[] | null;
+};
+
+export class AccessTokensService {
+	knex: Knex;
+	accountability: Accountability | null;
+
+	constructor(options: AbstractServiceOptions) {
+		this.knex = options.knex || getDatabase();
+		this.accountability = options.accountability || null;
+	}
+
+	/**
+	 * Read the access tokens of a user, without the tokens themselves
+	 */
+	async readByUser(user: string): Promise<UserAccessToken[]> {
+		this.checkAccess(user);
+
+		const tokens = await this.knex
+			.select('id', 'name', 'scope', 'ip_access', 'expires', 'date_created', 'last_used')
+			.from('directus_access_tokens')
+			.where({ user })
+			.orderBy('date_created', 'desc');
+
+		return tokens.map((token) => ({
+			id: token.id,
+			name: token.name,
+			scope: typeof token.scope === 'string' ? parseJSON(token.scope) : token.scope ?? null,
+			ip_access: token.ip_access ? token.ip_access.split(',') : null,
+			expires: toISOString(token.expires),
+			date_created: toISOString(token.date_created),
+			last_used: toISOString(token.last_used),
+		}));
+	}
+
+	/**
+	 * Create an access token for a user. Only a hash of the token is stored
+	 *
+	 * @returns Primary key of the token, and the token itself, which can't be retrieved again
+	 */
+	async create(user: string, payload: AccessTokenPayload): Promise<{ id: string; token: string }> {
+		this.checkSelf(user);
+
+		const expires = payload.expires ? new Date(payload.expires) : null;
+
+		if (expires && expires.getTime() <= Date.now()) {
+			throw new InvalidPayloadError({ reason: `"expires" has to be in the future` });
+		}
+
+		const ipAccess = payload.ip_access?.filter((ip) => ip) ?? [];
+
+		for (const network of ipAccess) {
+			try {
+				ipInNetworks('127.0.0.1', [network]);
+			} catch {
+				throw new InvalidPayloadError({ reason: `"${network}" isn't a valid IP address, range or CIDR notation` });
+			}
+		}
+
+		const id = randomUUID();
+		const token = nanoid(64);
+
+		await this.knex('directus_access_tokens').insert({
+			id,
+			user,
+			name: payload.name,
+			token: hashAccessToken(token),
+			scope: payload.scope && payload.scope.length > 0 ? JSON.stringify(payload.scope) : null,
+			ip_access: ipAccess.length > 0 ? ipAccess.join(',') : null,
+			expires,
+			date_created: new Date(),
+		});
+
+		return { id, token };
+	}
+
+	/**
+	 * Revoke an access token of a user, so it can no longer be used
+	 */
+	async revoke(user: string, id: string): Promise<void> {
+		this.checkAccess(user);
+
+		const deleted = await this.knex('directus_access_tokens').delete().where({ user, id });
+
+		if (deleted === 0) throw new ForbiddenError();
+	}
+
+	/**
+	 * Tokens restricted to a scope can't manage tokens, as they could otherwise create tokens without restrictions
+	 */
+	private checkAccess(user: string): void {
+		if (!this.accountability) return;
+
+		if (
+			this.accountability.access_token_scope ||
+			(this.accountability.admin !== true && this.accountability.user !== user)
+		) {
+			throw new ForbiddenError();
+		}
+	}
+
+	/**
+	 * Tokens are only shown once to whoever creates them, so they can't be created on behalf of others
+	 */
+	private checkSelf(user: string): void {
+		if (!this.accountability) return;
+
+		if (this.accountability.access_token_scope || this.accountability.user !== user) {
+			throw new ForbiddenError();
+		}
+	}
+}
+
+function toISOString(value: Date | string | number | null): string | null {
+	if (value === null || value === undefined) return null;
+
+	return new Date(value).toISOString();
+}
@@ -0,0 +1,275 @@
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import type { Knex } from 'knex';
+import knex from 'knex';
+import { createTracker, MockClient, Tracker } from 'knex-mock-client';
+import { Readable } from 'node:stream';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi, type MockedFunction } from 'vitest';
+import { getStorage } from '../storage/index.js';
+import { generatePoster } from '../utils/generate-poster.js';
+import { getMediaMetadata } from '../utils/get-media-metadata.js';
+import { withLocalCopy } from '../utils/with-local-copy.js';
+import { AssetsService } from './assets.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('../storage/index.js');
+vi.mock('../utils/generate-poster.js');
+vi.mock('../utils/get-media-metadata.js');
+vi.mock('../utils/with-local-copy.js');
+
+vi.mock('./authorization.js', () => ({
+	AuthorizationService: vi.fn(),
+}));
+
+const presets = [
+	{ key: 'eager', fit: 'cover', width: 100, height: 100, eager: true },
+	{ key: 'lazy', fit: 'cover', width: 200, height: 200, eager: false },
+];
+
+const file = {
+	id: 'file-1',
+	storage: 'local',
+	filename_disk: 'file-1.jpg',
+	type: 'image/jpeg',
+	width: 1000,
+	height: 1000,
+	focal_point_x: null,
+	focal_point_y: null,
+};
+
+describe('Services / Assets', () => {
+	let db: MockedFunction<Knex>;
+	let tracker: Tracker;
+	let service: AssetsService;
+
+	const disk = {
+		exists: vi.fn(),
+		read: vi.fn(),
+		write: vi.fn(),
+		list: vi.fn(),
+		delete: vi.fn(),
+		stat: vi.fn(),
+	};
+
+	beforeAll(() => {
+		db = vi.mocked(knex.default({ client: MockClient }));
+		tracker = createTracker(db);
+	});
+
+	beforeEach(() => {
+		vi.mocked(getStorage).mockResolvedValue({ location: () => disk } as any);
+
+		disk.list.mockImplementation(async function* () {
+			yield 'file-1__abc.jpg';
+			yield 'file-1__def.webp';
+		});
+
+		tracker.on.select('directus_settings').response({ storage_asset_presets: JSON.stringify(presets) });
+		tracker.on.select('directus_files').response([file]);
+
+		service = new AssetsService({
+			knex: db,
+			schema: { collections: {}, relations: [] },
+		});
+	});
+
+	afterEach(() => {
+		tracker.reset();
+		vi.clearAllMocks();
+	});
+
+	describe('generateDerivatives', () => {
+		it('only checks the derivatives of eager presets by default', async () => {
+			disk.exists.mockResolvedValue(true);
+
+			await expect(service.generateDerivatives(['file-1'])).resolves.toEqual({ generated: 0, failed: [] });
+
+			expect(disk.exists).toHaveBeenCalledTimes(1);
+		});
+
+		it('checks the derivatives of the given presets', async () => {
+			disk.exists.mockResolvedValue(true);
+
+			await service.generateDerivatives(['file-1'], ['eager', 'lazy', 'system-small-cover']);
+
+			// The "auto" format of system presets results in a derivative per format
+			expect(disk.exists).toHaveBeenCalledTimes(5);
+		});
+
+		it('skips files that can not be transformed', async () => {
+			tracker.reset();
+			tracker.on.select('directus_settings').response({ storage_asset_presets: JSON.stringify(presets) });
+			tracker.on.select('directus_files').response([{ ...file, type: 'text/plain' }]);
+
+			await expect(service.generateDerivatives(['file-1'])).resolves.toEqual({ generated: 0, failed: [] });
+
+			expect(disk.exists).not.toHaveBeenCalled();
+		});
+
+		it('transforms the poster of videos and PDFs', async () => {
+			tracker.reset();
+			tracker.on.select('directus_settings').response({ storage_asset_presets: JSON.stringify(presets) });
+			tracker.on.select('directus_files').response([{ ...file, filename_disk: 'file-1.mp4', type: 'video/mp4' }]);
+
+			disk.exists.mockResolvedValue(true);
+
+			await expect(service.generateDerivatives(['file-1'])).resolves.toEqual({ generated: 0, failed: [] });
+
+			expect(disk.exists).toHaveBeenNthCalledWith(1, 'file-1__poster.jpg');
+			expect(disk.exists).toHaveBeenNthCalledWith(2, expect.stringMatching(/^file-1__poster__\w+\.jpg$/));
+		});
+
+		it('reports files of which the poster can not be generated', async () => {
+			tracker.reset();
+			tracker.on.select('directus_settings').response({ storage_asset_presets: JSON.stringify(presets) });
+			tracker.on.select('directus_files').response([{ ...file, filename_disk: 'file-1.pdf', type: 'application/pdf' }]);
+
+			disk.exists.mockResolvedValue(false);
+			vi.mocked(withLocalCopy).mockRejectedValue(new Error('spawn pdftoppm ENOENT'));
+
+			await expect(service.generateDerivatives(['file-1'])).resolves.toEqual({ generated: 0, failed: ['file-1'] });
+
+			expect(disk.exists).toHaveBeenCalledTimes(1);
+		});
+
+		it('stores the metadata of videos that is read along with the poster', async () => {
+			tracker.reset();
+			tracker.on.select('directus_settings').response({ storage_asset_presets: JSON.stringify([]) });
+
+			tracker.on
+				.select('directus_files')
+				.response([{ ...file, filename_disk: 'file-1.mp4', type: 'video/mp4', width: null, height: null }]);
+
+			tracker.on.update('directus_files').response(1);
+
+			disk.exists.mockResolvedValue(false);
+
+			vi.mocked(withLocalCopy).mockImplementation(async (_stream, _extension, callback) =>
+				callback('/tmp/file-1.mp4', '/tmp'),
+			);
+
+			vi.mocked(getMediaMetadata).mockResolvedValue({ width: 1920, height: 1080, duration: 5000 });
+			vi.mocked(generatePoster).mockResolvedValue(new URL(import.meta.url).pathname);
+
+			await expect(service.generateDerivatives(['file-1'])).resolves.toEqual({ generated: 1, failed: [] });
+
+			expect(tracker.history.update[0]!.bindings).toEqual([1920, 1080, 5000, 'file-1']);
+
+			expect(generatePoster).toHaveBeenCalledWith(
+				'/tmp/file-1.mp4',
+				expect.objectContaining({ width: 1920, height: 1080, duration: 5000 }),
+				'/tmp',
+			);
+		});
+	});
+
+	describe('getAsset', () => {
+		const video = {
+			...file,
+			id: 'a1d32e2a-7ebe-4d0b-a8c8-f4f4e2f6f3c5',
+			filename_disk: 'file-1.mp4',
+			type: 'video/mp4',
+			filesize: 1000,
+		};
+
+		beforeEach(() => {
+			service = new AssetsService({
+				knex: db,
+				accountability: { role: 'admin', user: 'user-1', admin: true },
+				schema: { collections: {}, relations: [] },
+			});
+
+			vi.spyOn(service.filesService, 'readOne').mockResolvedValue(video);
+
+			disk.exists.mockImplementation(async (filepath: string) => filepath === 'file-1.mp4');
+			disk.read.mockResolvedValue(Readable.from([]));
+			disk.stat.mockResolvedValue({ size: 1000 });
+		});
+
+		it('serves the original while the poster is generated in the background, once per file', async () => {
+			let finish!: () => void;
+
+			const createPoster = vi
+				.spyOn(AssetsService.prototype as any, 'createPoster')
+				.mockReturnValue(new Promise<void>((resolve) => (finish = resolve)));
+
+			const transformation = { transformationParams: { format: 'jpg' as const } };
+
+			const [first, second] = await Promise.all([
+				service.getAsset(video.id, transformation),
+				service.getAsset(video.id, transformation),
+			]);
+
+			expect(first.file.type).toBe('video/mp4');
+			expect(second.file.type).toBe('video/mp4');
+			expect(disk.read).toHaveBeenCalledWith('file-1.mp4', undefined);
+
+			await vi.waitFor(() => expect(createPoster).toHaveBeenCalledTimes(1));
+
+			finish();
+			createPoster.mockRestore();
+		});
+	});
+
+	describe('queueDerivatives', () => {
+		it('waits for the transaction to be committed before generating the derivatives', async () => {
+			const generateDerivatives = vi
+				.spyOn(AssetsService.prototype, 'generateDerivatives')
+				.mockResolvedValue({ generated: 0, failed: [] });
+
+			await db.transaction(async (trx) => {
+				new AssetsService({ knex: trx, schema: { collections: {}, relations: [] } }).queueDerivatives(['file-1']);
+
+				await new Promise((resolve) => setTimeout(resolve));
+
+				expect(generateDerivatives).not.toHaveBeenCalled();
+			});
+
+			await vi.waitFor(() => expect(generateDerivatives).toHaveBeenCalledWith(['file-1'], undefined));
+
+			generateDerivatives.mockRestore();
+		});
+	});
+
+	describe('purgeDerivatives', () => {
+		it('removes the derivatives of the files', async () => {
+			await expect(service.purgeDerivatives(['file-1'])).resolves.toBe(2);
+
+			expect(disk.list).toHaveBeenCalledWith('file-1__');
+			expect(disk.delete).toHaveBeenCalledWith('file-1__abc.jpg');
+			expect(disk.delete).toHaveBeenCalledWith('file-1__def.webp');
+		});
+	});
+
+	describe('regenerateDerivatives', () => {
+		it('throws ForbiddenError for non-admin users', async () => {
+			service = new AssetsService({
+				knex: db,
+				accountability: { role: 'role', user: 'user', admin: false },
+				schema: { collections: {}, relations: [] },
+			});
+
+			await expect(service.regenerateDerivatives(['file-1'])).rejects.toBeInstanceOf(ForbiddenError);
+		});
+
+		it('throws InvalidPayloadError for unknown presets before removing any derivative', async () => {
+			await expect(service.regenerateDerivatives(['file-1'], ['unknown'])).rejects.toBeInstanceOf(InvalidPayloadError);
+
+			expect(disk.delete).not.toHaveBeenCalled();
+		});
+
+		it('removes the derivatives and reports the result', async () => {
+			disk.exists.mockResolvedValue(true);
+
+			await expect(service.regenerateDerivatives(['file-1'])).resolves.toEqual({
+				files: 1,
+				purged: 2,
+				generated: 0,
+				failed: [],
+			});
+		});
+	});
+});
@@ -2,42 +2,64 @@ import { useEnv } from '@directus/env';
 import {
 	ForbiddenError,
 	IllegalAssetTransformationError,
+	InvalidPayloadError,
 	RangeNotSatisfiableError,
 	ServiceUnavailableError,
 } from '@directus/errors';
 import type { Range, Stat } from '@directus/storage';
-import type { Accountability, File } from '@directus/types';
+import type { Accountability, AssetRegenerationReport, File, PrimaryKey, SchemaOverview } from '@directus/types';
+import { parseJSON } from '@directus/utils';
 import type { Knex } from 'knex';
-import { clamp } from 'lodash-es';
+import { chunk, clamp } from 'lodash-es';
 import { contentType } from 'mime-types';
+import { createReadStream } from 'node:fs';
 import type { Readable } from 'node:stream';
 import hash from 'object-hash';
+import pLimit from 'p-limit';
 import path from 'path';
 import type { FailOnOptions } from 'sharp';
 import sharp from 'sharp';
-import { SUPPORTED_IMAGE_TRANSFORM_FORMATS } from '../constants.js';
+import { SUPPORTED_IMAGE_TRANSFORM_FORMATS, SUPPORTED_POSTER_FORMATS, SYSTEM_ASSET_ALLOW_LIST } from '../constants.js';
 import getDatabase from '../database/index.js';
 import { useLogger } from '../logger.js';
 import { getStorage } from '../storage/index.js';
-import type { AbstractServiceOptions, Transformation, TransformationSet } from '../types/index.js';
+import type {
+	AbstractServiceOptions,
+	Transformation,
+	TransformationFormat,
+	TransformationParams,
+	TransformationSet,
+} from '../types/index.js';
+import { generatePoster } from '../utils/generate-poster.js';
+import { getMediaMetadata, type MediaMetadata } from '../utils/get-media-metadata.js';
 import { getMilliseconds } from '../utils/get-milliseconds.js';
 import { isValidUuid } from '../utils/is-valid-uuid.js';
 import * as TransformationUtils from '../utils/transformations.js';
+import { withLocalCopy } from '../utils/with-local-copy.js';
 import { AuthorizationService } from './authorization.js';
 import { FilesService } from './files.js';
 
 const env = useEnv();
 const logger = useLogger();
 
+const derivativesQueue = pLimit(1);
+
+// Files of which the poster is queued, so requests for the same file don't generate it more than once
+const queuedPosters = new Set<PrimaryKey>();
+
+const REGENERATION_BATCH_SIZE = 100;
+
 export class AssetsService {
 	knex: Knex;
 	accountability: Accountability | null;
+	schema: SchemaOverview;
 	authorizationService: AuthorizationService;
 	filesService: FilesService;
 
 	constructor(options: AbstractServiceOptions) {
 		this.knex = options.knex || getDatabase();
 		this.accountability = options.accountability || null;
+		this.schema = options.schema;
 		this.filesService = new FilesService({ ...options, accountability: null });
 		this.authorizationService = new AuthorizationService(options);
 	}
@@ -111,103 +133,437 @@ export class AssetsService {
 			}
 		}
 
-		const type = file.type;
-		const transforms = transformation ? TransformationUtils.resolvePreset(transformation, file) : [];
+		let source: File = file;
+
+		// Videos and PDFs are transformed through their poster image when an image format is requested. Otherwise, or
+		// while the poster is generated in the background, the original file is served
+		if (file.type && SUPPORTED_POSTER_FORMATS.includes(file.type) && transformation?.transformationParams.format) {
+			const poster = getPosterFile(file);
+
+			if (await storage.location(file.storage).exists(poster.filename_disk)) {
+				source = poster;
+			} else {
+				this.queuePoster(file);
+			}
+		}
+
+		const type = source.type;
+		const transforms = transformation ? TransformationUtils.resolvePreset(transformation, source) : [];
 
 		if (type && transforms.length > 0 && SUPPORTED_IMAGE_TRANSFORM_FORMATS.includes(type)) {
 			const maybeNewFormat = TransformationUtils.maybeExtractFormat(transforms);
-
-			const assetFilename =
-				path.basename(file.filename_disk, path.extname(file.filename_disk)) +
-				getAssetSuffix(transforms) +
-				(maybeNewFormat ? `.${maybeNewFormat}` : path.extname(file.filename_disk));
+			const assetFilename = getAssetFilename(source, transforms);
 
 			const exists = await storage.location(file.storage).exists(assetFilename);
 
-			if (maybeNewFormat) {
+			if (exists === false) {
+				await this.generateAsset(source, transforms, assetFilename);
+			}
+
+			if (maybeNewFormat || source !== file) {
 				file.type = contentType(assetFilename) || null;
 			}
 
-			if (exists) {
-				return {
-					stream: await storage.location(file.storage).read(assetFilename, range),
-					file,
-					stat: await storage.location(file.storage).stat(assetFilename),
-				};
+			return {
+				stream: await storage.location(file.storage).read(assetFilename, range),
+				stat: await storage.location(file.storage).stat(assetFilename),
+				file,
+			};
+		} else {
+			const readStream = await storage.location(file.storage).read(file.filename_disk, range);
+			const stat = await storage.location(file.storage).stat(file.filename_disk);
+			return { stream: readStream, file, stat };
+		}
+	}
+
+	/**
+	 * Generate the derivatives of the given presets for the given files in the background, by default those of the eager
+	 * presets. Derivatives are generated one file at a time, to leave room for the transformations of regular requests
+	 */
+	queueDerivatives(keys: PrimaryKey[], presetKeys?: string[]): void {
+		// The current transaction might be done by the time the derivatives are generated
+		const service = new AssetsService({ schema: this.schema });
+
+		afterCommit(this.knex, () => {
+			derivativesQueue(() => service.generateDerivatives(keys, presetKeys)).catch((error) => {
+				logger.warn(error, `Couldn't generate derivatives of files ${keys.join(', ')}`);
+			});
+		});
+	}
+
+	/**
+	 * Regenerate the derivatives of the given files in the background, a batch of files at a time so the derivatives of
+	 * new uploads don't have to wait for all of them. Fails right away for non-admins and unknown presets
+	 */
+	async queueRegeneration(keys: PrimaryKey[], presetKeys?: string[]): Promise<void> {
+		if (this.accountability && this.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		await this.getPresets(presetKeys);
+
+		const service = new AssetsService({ schema: this.schema });
+
+		for (const batch of chunk(keys, REGENERATION_BATCH_SIZE)) {
+			derivativesQueue(() => service.regenerateDerivatives(batch, presetKeys)).then(
+				(report) => {
+					logger.info(
+						`Removed ${report.purged} derivatives and generated ${report.generated} derivatives of ${report.files} files`,
+					);
+
+					if (report.failed.length > 0) {
+						logger.warn(`Couldn't generate all derivatives of files ${report.failed.join(', ')}`);
+					}
+				},
+				(error) => {
+					logger.warn(error, `Couldn't regenerate derivatives of files ${batch.join(', ')}`);
+				},
+			);
+		}
+	}
+
+	/**
+	 * Generate the missing derivatives of the given presets for the given files, by default those of the eager presets.
+	 * The poster images of videos and PDFs are generated as well, regardless of the presets
+	 */
+	async generateDerivatives(
+		keys: PrimaryKey[],
+		presetKeys?: string[],
+	): Promise<Pick<AssetRegenerationReport, 'generated' | 'failed'>> {
+		const presets = await this.getPresets(presetKeys);
+		const result: Pick<AssetRegenerationReport, 'generated' | 'failed'> = { generated: 0, failed: [] };
+
+		if (keys.length === 0) return result;
+
+		const storage = await getStorage();
+
+		for (const file of await this.readFiles(keys)) {
+			if (!file.type) continue;
+
+			let source = file;
+
+			if (SUPPORTED_POSTER_FORMATS.includes(file.type)) {
+				try {
+					if (await this.createPoster(file)) result.generated++;
+				} catch {
+					// The reason is logged while generating the poster
+					result.failed.push(file.id);
+					continue;
+				}
+
+				source = getPosterFile(file);
+			} else if (SUPPORTED_IMAGE_TRANSFORM_FORMATS.includes(file.type) === false) {
+				continue;
 			}
 
-			// Check image size before transforming. Processing an image that's too large for the
-			// system memory will kill the API. Sharp technically checks for this too in it's
-			// limitInputPixels, but we should have that check applied before starting the read streams
-			const { width, height } = file;
-
-			if (
-				!width ||
-				!height ||
-				width > (env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number) ||
-				height > (env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number)
-			) {
-				logger.warn(`Image is too large to be transformed, or image size couldn't be determined.`);
-				throw new IllegalAssetTransformationError({ invalidTransformations: ['width', 'height'] });
+			const disk = storage.location(file.storage);
+
+			for (const [assetFilename, transforms] of getDerivatives(source, presets)) {
+				try {
+					if (await disk.exists(assetFilename)) continue;
+
+					await this.generateAsset(source, transforms, assetFilename);
+					result.generated++;
+				} catch (error) {
+					logger.warn(error, `Couldn't generate derivative ${assetFilename} of file ${file.id}`);
+
+					if (result.failed.includes(file.id) === false) result.failed.push(file.id);
+				}
 			}
+		}
+
+		return result;
+	}
 
-			const { queue, process } = sharp.counters();
+	/**
+	 * Remove all derivatives of the given files, including the poster images of videos and PDFs. They're generated
+	 * again on their next request
+	 */
+	async purgeDerivatives(keys: PrimaryKey[]): Promise<number> {
+		const storage = await getStorage();
 
-			if (queue + process > (env['ASSETS_TRANSFORM_MAX_CONCURRENT'] as number)) {
-				throw new ServiceUnavailableError({
-					service: 'files',
-					reason: 'Server too busy',
-				});
+		let purged = 0;
+
+		for (const file of await this.readFiles(keys)) {
+			const disk = storage.location(file.storage);
+
+			for await (const filepath of disk.list(path.parse(file.filename_disk).name + '__')) {
+				await disk.delete(filepath);
+				purged++;
 			}
+		}
 
-			const readStream = await storage.location(file.storage).read(file.filename_disk, range);
+		return purged;
+	}
 
-			const transformer = sharp({
-				limitInputPixels: Math.pow(env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number, 2),
-				sequentialRead: true,
-				failOn: env['ASSETS_INVALID_IMAGE_SENSITIVITY_LEVEL'] as FailOnOptions,
-			});
+	/**
+	 * Remove all derivatives of the given files, including those of changed or removed presets, and generate the
+	 * derivatives of the given presets again, by default those of the eager presets
+	 */
+	async regenerateDerivatives(keys: PrimaryKey[], presetKeys?: string[]): Promise<AssetRegenerationReport> {
+		if (this.accountability && this.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
 
-			transformer.timeout({
-				seconds: clamp(Math.round(getMilliseconds(env['ASSETS_TRANSFORM_TIMEOUT'], 0) / 1000), 1, 3600),
-			});
+		// Fail before anything is removed
+		await this.getPresets(presetKeys);
 
-			if (transforms.find((transform) => transform[0] === 'rotate') === undefined) transformer.rotate();
+		const files = await this.readFiles(keys);
+		const purged = await this.purgeDerivatives(keys);
+		const { generated, failed } = await this.generateDerivatives(keys, presetKeys);
 
-			transforms.forEach(([method, ...args]) => (transformer[method] as any).apply(transformer, args));
+		return { files: files.length, purged, generated, failed };
+	}
+
+	private async generateAsset(file: File, transforms: Transformation[], assetFilename: string): Promise<void> {
+		const storage = await getStorage();
+
+		// Check image size before transforming. Processing an image that's too large for the
+		// system memory will kill the API. Sharp technically checks for this too in it's
+		// limitInputPixels, but we should have that check applied before starting the read streams
+		const { width, height } = file;
+
+		if (
+			!width ||
+			!height ||
+			width > (env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number) ||
+			height > (env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number)
+		) {
+			logger.warn(`Image is too large to be transformed, or image size couldn't be determined.`);
+			throw new IllegalAssetTransformationError({ invalidTransformations: ['width', 'height'] });
+		}
+
+		const { queue, process } = sharp.counters();
 
-			readStream.on('error', (e: Error) => {
-				logger.error(e, `Couldn't transform file ${file.id}`);
-				readStream.unpipe(transformer);
+		if (queue + process > (env['ASSETS_TRANSFORM_MAX_CONCURRENT'] as number)) {
+			throw new ServiceUnavailableError({
+				service: 'files',
+				reason: 'Server too busy',
 			});
+		}
+
+		const readStream = await storage.location(file.storage).read(file.filename_disk);
 
+		const transformer = sharp({
+			limitInputPixels: Math.pow(env['ASSETS_TRANSFORM_IMAGE_MAX_DIMENSION'] as number, 2),
+			sequentialRead: true,
+			failOn: env['ASSETS_INVALID_IMAGE_SENSITIVITY_LEVEL'] as FailOnOptions,
+		});
+
+		transformer.timeout({
+			seconds: clamp(Math.round(getMilliseconds(env['ASSETS_TRANSFORM_TIMEOUT'], 0) / 1000), 1, 3600),
+		});
+
+		if (transforms.find((transform) => transform[0] === 'rotate') === undefined) transformer.rotate();
+
+		transforms.forEach(([method, ...args]) => (transformer[method] as any).apply(transformer, args));
+
+		readStream.on('error', (e: Error) => {
+			logger.error(e, `Couldn't transform file ${file.id}`);
+			readStream.unpipe(transformer);
+		});
+
+		try {
+			await storage.location(file.storage).write(assetFilename, readStream.pipe(transformer), file.type ?? undefined);
+		} catch (error) {
 			try {
-				await storage.location(file.storage).write(assetFilename, readStream.pipe(transformer), type);
-			} catch (error) {
-				try {
-					await storage.location(file.storage).delete(assetFilename);
-				} catch {
-					// Ignored to prevent original error from being overwritten
-				}
+				await storage.location(file.storage).delete(assetFilename);
+			} catch {
+				// Ignored to prevent original error from being overwritten
+			}
 
-				if ((error as Error)?.message?.includes('timeout')) {
-					throw new ServiceUnavailableError({ service: 'assets', reason: `Transformation timed out` });
-				} else {
-					throw error;
-				}
+			if ((error as Error)?.message?.includes('timeout')) {
+				throw new ServiceUnavailableError({ service: 'assets', reason: `Transformation timed out` });
+			} else {
+				throw error;
 			}
+		}
+	}
 
-			return {
-				stream: await storage.location(file.storage).read(assetFilename, range),
-				stat: await storage.location(file.storage).stat(assetFilename),
-				file,
-			};
-		} else {
-			const readStream = await storage.location(file.storage).read(file.filename_disk, range);
-			const stat = await storage.location(file.storage).stat(file.filename_disk);
-			return { stream: readStream, file, stat };
+	/**
+	 * Generate the poster image of a video or PDF in the background, along with the other derivatives
+	 */
+	private queuePoster(file: File): void {
+		if (queuedPosters.has(file.id)) return;
+
+		queuedPosters.add(file.id);
+
+		const service = new AssetsService({ schema: this.schema });
+
+		derivativesQueue(() => service.createPoster(file))
+			.catch(() => {
+				// The reason is logged while generating the poster
+			})
+			.finally(() => queuedPosters.delete(file.id));
+	}
+
+	/**
+	 * Generate the poster image of a video or PDF, unless it exists already. Returns whether it was generated
+	 */
+	private async createPoster(file: File): Promise<boolean> {
+		const storage = await getStorage();
+		const disk = storage.location(file.storage);
+		const posterFilename = getPosterFile(file).filename_disk;
+
+		if (await disk.exists(posterFilename)) return false;
+
+		try {
+			await withLocalCopy(
+				await disk.read(file.filename_disk),
+				path.extname(file.filename_disk),
+				async (filepath, directory) => {
+					// Reading the metadata of videos and PDFs needs a local copy of the whole file as well, so it's done here
+					// rather than while uploading
+					if (!file.width || !file.height) {
+						await this.saveMediaMetadata(file, filepath);
+					}
+
+					const posterPath = await generatePoster(filepath, file, directory);
+					await disk.write(posterFilename, createReadStream(posterPath), 'image/jpeg');
+				},
+			);
+		} catch (error) {
+			logger.warn(error, `Couldn't generate poster of file ${file.id}`);
+			throw new ServiceUnavailableError({ service: 'assets', reason: `Couldn't generate poster of file` });
 		}
+
+		return true;
 	}
+
+	/**
+	 * Store the dimensions, duration and title read from a video or PDF on the file, for those that aren't set yet. The
+	 * poster is still generated when the metadata can't be read
+	 */
+	private async saveMediaMetadata(file: File, filepath: string): Promise<void> {
+		let extracted: MediaMetadata;
+
+		try {
+			extracted = await getMediaMetadata(filepath, file.type!);
+		} catch (error) {
+			logger.warn(error, `Couldn't extract metadata from file ${file.id}`);
+			return;
+		}
+
+		const data: Partial<File> = {};
+
+		if (!file.width && extracted.width) data.width = extracted.width;
+		if (!file.height && extracted.height) data.height = extracted.height;
+		if (!file.duration && extracted.duration) data.duration = extracted.duration;
+		if (!file.title && extracted.title) data.title = extracted.title;
+		if (!file.metadata && extracted.metadata) data.metadata = extracted.metadata;
+
+		if (Object.keys(data).length === 0) return;
+
+		await this.knex('directus_files')
+			.update({ ...data, metadata: data.metadata ? JSON.stringify(data.metadata) : undefined })
+			.where({ id: file.id });
+
+		Object.assign(file, data);
+	}
+
+	private async readFiles(keys: PrimaryKey[]): Promise<File[]> {
+		if (keys.length === 0) return [];
+
+		return await this.knex
+			.select(
+				'id',
+				'storage',
+				'filename_disk',
+				'type',
+				'width',
+				'height',
+				'duration',
+				'title',
+				'metadata',
+				'focal_point_x',
+				'focal_point_y',
+			)
+			.from('directus_files')
+			.whereIn('id', keys)
+			.whereNotNull('filename_disk');
+	}
+
+	/**
+	 * Get the presets with the given keys, or the eager presets of the project
+	 */
+	private async getPresets(presetKeys?: string[]): Promise<TransformationParams[]> {
+		const settings = await this.knex.select('storage_asset_presets').from('directus_settings').first();
+
+		const projectPresets: TransformationParams[] =
+			(typeof settings?.storage_asset_presets === 'string'
+				? parseJSON(settings.storage_asset_presets)
+				: settings?.storage_asset_presets) ?? [];
+
+		if (presetKeys === undefined) {
+			return projectPresets.filter((preset) => preset.eager === true);
+		}
+
+		const presets = [...SYSTEM_ASSET_ALLOW_LIST, ...projectPresets];
+
+		return presetKeys.map((key) => {
+			const preset = presets.find((preset) => preset.key === key);
+
+			if (!preset) {
+				throw new InvalidPayloadError({ reason: `Preset "${key}" doesn't exist` });
+			}
+
+			return preset;
+		});
+	}
+}
+
+/**
+ * Run the callback once the transaction of the given connection is committed, or right away outside of a transaction.
+ * It's not run when the transaction is rolled back
+ */
+function afterCommit(knex: Knex, callback: () => void): void {
+	if (!knex.isTransaction) return callback();
+
+	(knex as Knex.Transaction).executionPromise.then(callback, () => {});
+}
+
+/**
+ * Get the filenames and transformations of the derivatives of a file. Presets with the "auto" format result in a
+ * derivative per format that can be requested through the Accept header
+ */
+function getDerivatives(file: File, presets: TransformationParams[]): Map<string, Transformation[]> {
+	const derivatives = new Map<string, Transformation[]>();
+
+	for (const preset of presets) {
+		const acceptFormats: (TransformationFormat | undefined)[] =
+			preset.format === 'auto' ? [undefined, 'webp', 'avif'] : [undefined];
+
+		for (const acceptFormat of acceptFormats) {
+			const transforms = TransformationUtils.resolvePreset({ transformationParams: preset, acceptFormat }, file);
+
+			if (transforms.length > 0) {
+				derivatives.set(getAssetFilename(file, transforms), transforms);
+			}
+		}
+	}
+
+	return derivatives;
+}
+
+/**
+ * Get the poster image of a video or PDF, which is transformed in place of the file itself
+ */
+function getPosterFile(file: File): File {
+	return {
+		...file,
+		filename_disk: path.parse(file.filename_disk).name + '__poster.jpg',
+		type: 'image/jpeg',
+	};
+}
+
+function getAssetFilename(file: File, transforms: Transformation[]): string {
+	const maybeNewFormat = TransformationUtils.maybeExtractFormat(transforms);
+
+	return (
+		path.basename(file.filename_disk, path.extname(file.filename_disk)) +
+		getAssetSuffix(transforms) +
+		(maybeNewFormat ? `.${maybeNewFormat}` : path.extname(file.filename_disk))
+	);
 }
 
 const getAssetSuffix = (transforms: Transformation[]) => {
@@ -0,0 +1,74 @@
+import { InvalidOtpError } from '@directus/errors';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { getAuthProvider } from '../auth.js';
+import { AuthenticationService } from './authentication.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({ LOGIN_STALL_TIME: 0, EMAIL_TEMPLATES_PATH: './templates' }),
+}));
+
+vi.mock('../auth.js');
+
+vi.mock('./activity.js');
+
+vi.mock('../emitter.js', () => ({
+	default: {
+		emitFilter: vi.fn((_event, payload) => payload),
+		emitAction: vi.fn(),
+	},
+}));
+
+vi.mock('../utils/login-attempts.js');
+
+vi.mock('./settings.js', () => ({
+	SettingsService: vi.fn(() => ({
+		readSingleton: vi.fn().mockResolvedValue({ auth_login_attempts: 25 }),
+	})),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+const user = {
+	id: 'user-id',
+	status: 'active',
+	provider: 'default',
+	tfa_secret: null,
+};
+
+describe('login', () => {
+	test('requires a second factor when logging in with a password by a user with a passkey', async () => {
+		vi.mocked(getAuthProvider).mockReturnValue({
+			getUserID: vi.fn().mockResolvedValue(user.id),
+			login: vi.fn(),
+		} as any);
+
+		tracker.on.select('directus_users').responseOnce(user);
+		tracker.on.select('directus_webauthn_credentials').responseOnce({ id: 'credential-id' });
+
+		const service = new AuthenticationService({ knex: db, schema: {} as any });
+
+		const login = service.login('default', { email: 'admin@example.com', password: 'password' });
+
+		await expect(login).rejects.toThrow(InvalidOtpError);
+		await expect(login).rejects.toMatchObject({ extensions: { otp: false, webauthn: true } });
+
+		expect(tracker.history.insert).toHaveLength(0);
+	});
+});
@@ -1,34 +1,38 @@
 import { Action } from '@directus/constants';
 import { useEnv } from '@directus/env';
 import {
+	ErrorCode,
 	InvalidCredentialsError,
 	InvalidOtpError,
 	InvalidProviderError,
-	ServiceUnavailableError,
 	UserSuspendedError,
+	isDirectusError,
 } from '@directus/errors';
 import type { Accountability, SchemaOverview } from '@directus/types';
 import jwt from 'jsonwebtoken';
 import type { Knex } from 'knex';
 import { clone, cloneDeep } from 'lodash-es';
+import { randomUUID } from 'node:crypto';
 import { performance } from 'perf_hooks';
 import { getAuthProvider } from '../auth.js';
+import { LocalAuthDriver, isPasskeyLogin } from '../auth/drivers/local.js';
 import { DEFAULT_AUTH_PROVIDER } from '../constants.js';
 import getDatabase from '../database/index.js';
 import emitter from '../emitter.js';
-import { RateLimiterRes, createRateLimiter } from '../rate-limiter.js';
 import type { AbstractServiceOptions, DirectusTokenPayload, LoginResult, Session, User } from '../types/index.js';
 import { getMilliseconds } from '../utils/get-milliseconds.js';
 import { getSecret } from '../utils/get-secret.js';
+import { getUserRoles } from '../utils/get-user-roles.js';
+import { checkLoginLockout, registerFailedLogin, resetLoginAttempts } from '../utils/login-attempts.js';
+import { requiresTFASetup } from '../utils/requires-tfa-setup.js';
 import { stall } from '../utils/stall.js';
 import { ActivityService } from './activity.js';
 import { SettingsService } from './settings.js';
 import { TFAService } from './tfa.js';
+import { WebAuthnService, type WebAuthnAssertion } from './webauthn.js';
 
 const env = useEnv();
 
-const loginAttemptsLimiter = createRateLimiter('RATE_LIMITER', { duration: 0 });
-
 export class AuthenticationService {
 	knex: Knex;
 	accountability: Accountability | null;
@@ -53,6 +57,7 @@ export class AuthenticationService {
 		payload: Record<string, any>,
 		options?: Partial<{
 			otp: string;
+			webauthn: WebAuthnAssertion;
 			session: boolean;
 		}>,
 	): Promise<LoginResult> {
@@ -63,11 +68,20 @@ export class AuthenticationService {
 
 		const provider = getAuthProvider(providerName);
 
+		const ip = this.accountability?.ip;
+
 		let userId;
 
 		try {
+			await checkLoginLockout({ ip });
+
 			userId = await provider.getUserID(cloneDeep(payload));
 		} catch (err) {
+			// Guessing at accounts that don't exist counts towards the lockout of the IP address
+			if (isDirectusError(err, ErrorCode.InvalidCredentials)) {
+				await registerFailedLogin({ ip }, null);
+			}
+
 			await stall(STALL_TIME, timeStart);
 			throw err;
 		}
@@ -149,59 +163,80 @@ export class AuthenticationService {
 			fields: ['auth_login_attempts'],
 		});
 
-		if (allowedAttempts !== null) {
-			loginAttemptsLimiter.points = allowedAttempts;
-
-			try {
-				await loginAttemptsLimiter.consume(user.id);
-			} catch (error) {
-				if (error instanceof RateLimiterRes && error.remainingPoints === 0) {
-					await this.knex('directus_users').update({ status: 'suspended' }).where({ id: user.id });
-					user.status = 'suspended';
-
-					// This means that new attempts after the user has been re-activated will be accepted
-					await loginAttemptsLimiter.set(user.id, 0, 0);
-				} else {
-					throw new ServiceUnavailableError({
-						service: 'authentication',
-						reason: 'Rate limiter unreachable',
-					});
-				}
-			}
+		try {
+			await checkLoginLockout({ user: user.id, ip });
+		} catch (e) {
+			emitStatus('fail');
+			await stall(STALL_TIME, timeStart);
+			throw e;
 		}
 
 		try {
 			await provider.login(clone(user), cloneDeep(updatedPayload));
 		} catch (e) {
+			await this.registerFailedLogin(user.id, allowedAttempts);
 			emitStatus('fail');
 			await stall(STALL_TIME, timeStart);
 			throw e;
 		}
 
-		if (user.tfa_secret && !options?.otp) {
+		// A passkey the local driver verified the user with already is a second factor
+		const passkeyLogin = provider instanceof LocalAuthDriver && isPasskeyLogin(updatedPayload);
+
+		// Registered passkeys and security keys are a second factor, just like a one-time password app
+		const hasCredential =
+			!passkeyLogin &&
+			(await this.knex.select('id').from('directus_webauthn_credentials').where({ user: user.id }).first()) !==
+				undefined;
+
+		const requiresSecondFactor = !passkeyLogin && (!!user.tfa_secret || hasCredential);
+
+		if (options?.webauthn && !passkeyLogin) {
+			const webAuthnService = new WebAuthnService({ knex: this.knex, schema: this.schema });
+
+			try {
+				await webAuthnService.verifyAuthentication(user.id, options.webauthn);
+			} catch (e) {
+				await this.registerFailedLogin(user.id, allowedAttempts);
+				emitStatus('fail');
+				await stall(STALL_TIME, timeStart);
+				throw e;
+			}
+		} else if (requiresSecondFactor && !options?.otp) {
 			emitStatus('fail');
 			await stall(STALL_TIME, timeStart);
-			throw new InvalidOtpError();
-		}
-
-		if (user.tfa_secret && options?.otp) {
+			throw new InvalidOtpError({ otp: !!user.tfa_secret, webauthn: hasCredential });
+		} else if (requiresSecondFactor && options?.otp) {
 			const tfaService = new TFAService({ knex: this.knex, schema: this.schema });
-			const otpValid = await tfaService.verifyOTP(user.id, options?.otp);
+
+			// A recovery code can be used once in place of the OTP, for when the authenticator app is lost
+			const otpValid =
+				!!user.tfa_secret &&
+				((await tfaService.verifyOTP(user.id, options.otp)) ||
+					(await tfaService.useRecoveryCode(user.id, options.otp)));
 
 			if (otpValid === false) {
+				await this.registerFailedLogin(user.id, allowedAttempts);
 				emitStatus('fail');
 				await stall(STALL_TIME, timeStart);
-				throw new InvalidOtpError();
+				throw new InvalidOtpError({ otp: !!user.tfa_secret, webauthn: hasCredential });
 			}
 		}
 
+		const { roles, app_access, admin_access } = await getUserRoles(user.id, this.knex);
+
 		const tokenPayload: DirectusTokenPayload = {
 			id: user.id,
 			role: user.role,
-			app_access: user.app_access,
-			admin_access: user.admin_access,
+			roles,
+			app_access,
+			admin_access,
 		};
 
+		if (await requiresTFASetup(user.id, roles, this.knex)) {
+			tokenPayload.tfa_setup_required = true;
+		}
+
 		const refreshToken = nanoid(64);
 		const refreshTokenExpiration = new Date(Date.now() + getMilliseconds(env['REFRESH_TOKEN_TTL'], 0));
 
@@ -234,8 +269,11 @@ export class AuthenticationService {
 
 		await this.knex('directus_sessions').insert({
 			token: refreshToken,
+			id: randomUUID(),
 			user: user.id,
 			expires: refreshTokenExpiration,
+			date_created: new Date(),
+			last_refresh: new Date(),
 			ip: this.accountability?.ip,
 			user_agent: this.accountability?.userAgent,
 			origin: this.accountability?.origin,
@@ -259,9 +297,7 @@ export class AuthenticationService {
 
 		emitStatus('success');
 
-		if (allowedAttempts !== null) {
-			await loginAttemptsLimiter.set(user.id, 0, 0);
-		}
+		await resetLoginAttempts(user.id);
 
 		await stall(STALL_TIME, timeStart);
 
@@ -284,6 +320,8 @@ export class AuthenticationService {
 
 		const record = await this.knex
 			.select({
+				session_id: 's.id',
+				session_date_created: 's.date_created',
 				session_expires: 's.expires',
 				session_next_token: 's.next_token',
 				user_id: 'u.id',
@@ -369,6 +407,18 @@ export class AuthenticationService {
 			admin_access: record.role_admin_access,
 		};
 
+		if (record.user_id) {
+			const { roles, app_access, admin_access } = await getUserRoles(record.user_id, this.knex);
+
+			tokenPayload.roles = roles;
+			tokenPayload.app_access = app_access;
+			tokenPayload.admin_access = admin_access;
+
+			if (await requiresTFASetup(record.user_id, roles, this.knex)) {
+				tokenPayload.tfa_setup_required = true;
+			}
+		}
+
 		if (options?.session) {
 			newRefreshToken = await this.updateStatefulSession(record, refreshToken, newRefreshToken, refreshTokenExpiration);
 			tokenPayload.session = newRefreshToken;
@@ -378,6 +428,10 @@ export class AuthenticationService {
 				.update({
 					token: newRefreshToken,
 					expires: refreshTokenExpiration,
+					last_refresh: new Date(),
+					ip: this.accountability?.ip,
+					user_agent: this.accountability?.userAgent,
+					origin: this.accountability?.origin,
 				})
 				.where({ token: refreshToken });
 		}
@@ -450,6 +504,7 @@ export class AuthenticationService {
 			await this.knex('directus_sessions')
 				.update({
 					expires: sessionExpiration,
+					last_refresh: new Date(),
 				})
 				.where({ token: newSessionToken });
 
@@ -482,11 +537,15 @@ export class AuthenticationService {
 		}
 
 		// Instead of updating the current session record with a new token,
-		// create a new copy with the new token
+		// create a new copy with the new token. The copy keeps the id, so the
+		// session can be identified across refreshes
 		await this.knex('directus_sessions').insert({
 			token: newSessionToken,
+			id: sessionRecord['session_id'] ?? randomUUID(),
 			user: sessionRecord['user_id'],
 			expires: sessionExpiration,
+			date_created: sessionRecord['session_date_created'],
+			last_refresh: new Date(),
 			ip: this.accountability?.ip,
 			user_agent: this.accountability?.userAgent,
 			origin: this.accountability?.origin,
@@ -495,6 +554,25 @@ export class AuthenticationService {
 		return newSessionToken;
 	}
 
+	/**
+	 * Count a failed login attempt towards the lockout of the account and IP address, and log it in the activity
+	 */
+	private async registerFailedLogin(user: string, allowedAttempts: number | null): Promise<void> {
+		await registerFailedLogin({ user, ip: this.accountability?.ip }, allowedAttempts);
+
+		if (this.accountability) {
+			await this.activityService.createOne({
+				action: Action.LOGIN_FAILED,
+				user,
+				ip: this.accountability.ip,
+				user_agent: this.accountability.userAgent,
+				origin: this.accountability.origin,
+				collection: 'directus_users',
+				item: user,
+			});
+		}
+	}
+
 	async logout(refreshToken: string): Promise<void> {
 		const record = await this.knex
 			.select<User & Session>(
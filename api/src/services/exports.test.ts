@@ -0,0 +1,31 @@
+import { InvalidPayloadError } from '@directus/errors';
+import knex, { type Knex } from 'knex';
+import { MockClient } from 'knex-mock-client';
+import { beforeAll, describe, expect, test, vi } from 'vitest';
+import { ExportsService } from './exports.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('../scheduled-exports.js', () => ({
+	getScheduledExportManager: vi.fn().mockReturnValue({ reload: vi.fn() }),
+}));
+
+let db: Knex;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+});
+
+describe('path', () => {
+	test.each(['../config', 'backups/../../config', 'backups\\..\\config', '/etc'])(
+		'rejects %s, which points outside of the storage location',
+		async (path) => {
+			const service = new ExportsService({ knex: db, schema: {} as any });
+
+			await expect(service.updateMany(['export-1'], { path })).rejects.toBeInstanceOf(InvalidPayloadError);
+		},
+	);
+});
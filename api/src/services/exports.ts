@@ -0,0 +1,255 @@
+import { useEnv } from '@directus/env';
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import { isSystemCollection } from '@directus/system-data';
+import type { Item, PrimaryKey, ScheduledExport, ScheduledExportRun } from '@directus/types';
+import { toArray } from '@directus/utils';
+import { createReadStream } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { EXPORT_MIME_TYPES } from '../constants.js';
+import { useLogger } from '../logger.js';
+import { getScheduledExportManager } from '../scheduled-exports.js';
+import { getStorage } from '../storage/index.js';
+import type { AbstractServiceOptions, MutationOptions } from '../types/index.js';
+import { getAccountabilityForUser } from '../utils/get-accountability-for-user.js';
+import { getDateFormatted } from '../utils/get-date-formatted.js';
+import { getMilliseconds } from '../utils/get-milliseconds.js';
+import { validateCron } from '../utils/schedule.js';
+import { ExportService } from './import-export.js';
+import { ItemsService } from './items.js';
+import { NotificationsService } from './notifications.js';
+
+const env = useEnv();
+const logger = useLogger();
+
+export class ExportsService extends ItemsService<ScheduledExport> {
+	constructor(options: AbstractServiceOptions) {
+		super('directus_exports', options);
+	}
+
+	override async createOne(data: Partial<Item>, opts?: MutationOptions): Promise<PrimaryKey> {
+		const scheduledExportManager = getScheduledExportManager();
+
+		this.validate(data);
+
+		const result = await super.createOne(data, opts);
+		await scheduledExportManager.reload();
+
+		return result;
+	}
+
+	override async createMany(data: Partial<Item>[], opts?: MutationOptions): Promise<PrimaryKey[]> {
+		const scheduledExportManager = getScheduledExportManager();
+
+		data.forEach((item) => this.validate(item));
+
+		const result = await super.createMany(data, opts);
+		await scheduledExportManager.reload();
+
+		return result;
+	}
+
+	override async updateBatch(data: Partial<Item>[], opts?: MutationOptions): Promise<PrimaryKey[]> {
+		const scheduledExportManager = getScheduledExportManager();
+
+		data.forEach((item) => this.validate(item));
+
+		const result = await super.updateBatch(data, opts);
+		await scheduledExportManager.reload();
+
+		return result;
+	}
+
+	override async updateMany(keys: PrimaryKey[], data: Partial<Item>, opts?: MutationOptions): Promise<PrimaryKey[]> {
+		const scheduledExportManager = getScheduledExportManager();
+
+		this.validate(data);
+
+		const result = await super.updateMany(keys, data, opts);
+		await scheduledExportManager.reload();
+
+		return result;
+	}
+
+	override async deleteMany(keys: PrimaryKey[], opts?: MutationOptions): Promise<PrimaryKey[]> {
+		const scheduledExportManager = getScheduledExportManager();
+
+		const result = await super.deleteMany(keys, opts);
+		await scheduledExportManager.reload();
+
+		return result;
+	}
+
+	/**
+	 * Run the given scheduled export right away. The results are written to the configured storage
+	 * location, after which the retention rules of the export are applied. Returns the key of the run
+	 */
+	async run(key: PrimaryKey): Promise<PrimaryKey> {
+		const scheduledExport = await this.readOne(key);
+
+		const runsService = new ItemsService<ScheduledExportRun>('directus_export_runs', {
+			knex: this.knex,
+			schema: this.schema,
+		});
+
+		const runKey = await runsService.createOne({ export: scheduledExport.id, status: 'running' });
+
+		const { createTmpFile } = await import('@directus/utils/node');
+		const tmpFile = await createTmpFile().catch(() => null);
+
+		try {
+			if (!tmpFile) throw new Error('Failed to create temporary file for export');
+
+			// Exports only contain what their creator is allowed to read
+			if (!scheduledExport.user_created) throw new Error(`The user who created the export doesn't exist anymore.`);
+
+			const accountability = await getAccountabilityForUser(scheduledExport.user_created, {
+				schema: this.schema,
+				database: this.knex,
+			});
+
+			const exportService = new ExportService({ schema: this.schema, accountability });
+
+			await exportService.writeExport(
+				scheduledExport.collection,
+				scheduledExport.query ?? {},
+				scheduledExport.format,
+				tmpFile.path,
+			);
+
+			const storage = await getStorage();
+			const disk = storage.location(scheduledExport.storage);
+
+			const filenameDisk = join(
+				scheduledExport.path ?? '',
+				`export-${scheduledExport.collection}-${getDateFormatted()}-${runKey}.${scheduledExport.format}`,
+			);
+
+			await disk.write(filenameDisk, createReadStream(tmpFile.path), EXPORT_MIME_TYPES[scheduledExport.format]);
+
+			const { size } = await disk.stat(filenameDisk);
+
+			await runsService.updateOne(runKey, {
+				status: 'success',
+				date_finished: new Date().toISOString(),
+				filename_disk: filenameDisk,
+				filesize: size,
+			});
+		} catch (err: any) {
+			logger.error(err, `Couldn't run scheduled export "${scheduledExport.name}": ${err.message}`);
+
+			await runsService.updateOne(runKey, {
+				status: 'error',
+				date_finished: new Date().toISOString(),
+				error: err.message,
+			});
+
+			if (scheduledExport.user_created) {
+				const notificationsService = new NotificationsService({ schema: this.schema });
+
+				await notificationsService.createOne({
+					recipient: scheduledExport.user_created,
+					subject: `Scheduled export "${scheduledExport.name}" failed`,
+					message: `The scheduled export of ${scheduledExport.collection} failed with the following error:\n\n${err.message}`,
+					collection: 'directus_exports',
+					item: String(scheduledExport.id),
+				});
+			}
+		} finally {
+			await tmpFile?.cleanup();
+		}
+
+		await this.applyRetention(scheduledExport);
+
+		return runKey;
+	}
+
+	/**
+	 * Delete the files of previous runs that are no longer retained by either the maximum number of
+	 * files or the maximum age configured for the export
+	 */
+	private async applyRetention(scheduledExport: ScheduledExport): Promise<void> {
+		if (scheduledExport.retention_count === null && scheduledExport.retention_age === null) return;
+
+		const runs: Pick<ScheduledExportRun, 'id' | 'date_finished' | 'filename_disk'>[] = await this.knex
+			.select('id', 'date_finished', 'filename_disk')
+			.from('directus_export_runs')
+			.where({ export: scheduledExport.id, status: 'success' })
+			.whereNotNull('filename_disk')
+			.orderBy('date_finished', 'desc');
+
+		const maxAge = getMilliseconds(scheduledExport.retention_age);
+
+		const expired = runs.filter((run, index) => {
+			if (scheduledExport.retention_count !== null && index >= scheduledExport.retention_count) return true;
+
+			return maxAge !== undefined && Date.now() - new Date(run.date_finished!).getTime() > maxAge;
+		});
+
+		if (expired.length === 0) return;
+
+		const storage = await getStorage();
+		const disk = storage.location(scheduledExport.storage);
+
+		for (const run of expired) {
+			try {
+				if (await disk.exists(run.filename_disk!)) {
+					await disk.delete(run.filename_disk!);
+				}
+			} catch (err: any) {
+				logger.warn(err, `Couldn't delete expired export file "${run.filename_disk}": ${err.message}`);
+				continue;
+			}
+
+			await this.knex('directus_export_runs').update({ filename_disk: null }).where({ id: run.id });
+		}
+	}
+
+	private validate(data: Partial<ScheduledExport>): void {
+		// Exports run with the permissions of their creator, so exports of data they can't read are rejected right away
+		if (data.collection !== undefined && this.accountability && this.accountability.admin !== true) {
+			const readPermissions = this.accountability.permissions?.find(
+				(permission) => permission.collection === data.collection && permission.action === 'read',
+			);
+
+			if (isSystemCollection(data.collection) || !readPermissions) throw new ForbiddenError();
+		}
+
+		if (data.schedule !== undefined && (typeof data.schedule !== 'string' || !validateCron(data.schedule))) {
+			throw new InvalidPayloadError({ reason: `"schedule" has to be a valid cron expression` });
+		}
+
+		if (data.format !== undefined && !Object.keys(EXPORT_MIME_TYPES).includes(data.format)) {
+			throw new InvalidPayloadError({
+				reason: `"format" has to be one of ${Object.keys(EXPORT_MIME_TYPES).join(', ')}`,
+			});
+		}
+
+		if (
+			data.path !== undefined &&
+			data.path !== null &&
+			(typeof data.path !== 'string' || isAbsolute(data.path) || data.path.split(/[/\\]/).includes('..'))
+		) {
+			throw new InvalidPayloadError({ reason: `"path" has to be a relative path within the storage location` });
+		}
+
+		if (data.storage !== undefined && !toArray(env['STORAGE_LOCATIONS'] as string).includes(data.storage)) {
+			throw new InvalidPayloadError({ reason: `"storage" has to be one of the configured storage locations` });
+		}
+
+		if (
+			data.retention_count !== undefined &&
+			data.retention_count !== null &&
+			(!Number.isInteger(data.retention_count) || data.retention_count < 1)
+		) {
+			throw new InvalidPayloadError({ reason: `"retention_count" has to be a positive integer` });
+		}
+
+		if (
+			data.retention_age !== undefined &&
+			data.retention_age !== null &&
+			getMilliseconds(data.retention_age) === undefined
+		) {
+			throw new InvalidPayloadError({ reason: `"retention_age" has to be a duration, for example "30d"` });
+		}
+	}
+}
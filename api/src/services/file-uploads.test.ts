@@ -0,0 +1,243 @@
+import { ContentTooLargeError, ForbiddenError, InvalidPayloadError, StorageQuotaExceededError } from '@directus/errors';
+import type { Knex } from 'knex';
+import knex from 'knex';
+import { createTracker, MockClient, Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi, type MockedFunction } from 'vitest';
+import { Readable } from 'node:stream';
+import { getStorage } from '../storage/index.js';
+import { validateStorageQuota } from '../utils/validate-storage-quota.js';
+import { FileUploadsService } from './file-uploads.js';
+import { FilesService } from './files.js';
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({
+		STORAGE_LOCATIONS: 'local',
+		FILES_MAX_UPLOAD_SIZE: '10MB',
+		FILES_MIME_TYPE_ALLOW_LIST: 'image/*',
+	}),
+}));
+
+vi.mock('../storage/index.js');
+vi.mock('../utils/validate-storage-quota.js');
+vi.mock('./files.js');
+
+const validatePayload = vi.fn();
+
+vi.mock('./authorization.js', () => ({
+	AuthorizationService: vi.fn().mockImplementation(() => ({ validatePayload })),
+}));
+
+describe('Services / File Uploads', () => {
+	let db: MockedFunction<Knex>;
+	let tracker: Tracker;
+	let service: FileUploadsService;
+
+	beforeAll(() => {
+		db = vi.mocked(knex.default({ client: MockClient }));
+		tracker = createTracker(db);
+	});
+
+	beforeEach(() => {
+		service = new FileUploadsService({
+			knex: db,
+			accountability: { role: 'admin', user: 'user-1', admin: true },
+			schema: { collections: {}, relations: [] },
+		});
+	});
+
+	afterEach(() => {
+		tracker.reset();
+		vi.clearAllMocks();
+	});
+
+	describe('create', () => {
+		it.each([0, -1, NaN, 1.5])('throws InvalidPayloadError for length %s', async (length) => {
+			await expect(service.create(length, { filename: 'image.jpg', filetype: 'image/jpeg' })).rejects.toBeInstanceOf(
+				InvalidPayloadError,
+			);
+		});
+
+		it('throws ForbiddenError for anonymous uploads', async () => {
+			service = new FileUploadsService({
+				knex: db,
+				accountability: { role: null, user: null },
+				schema: { collections: {}, relations: [] },
+			});
+
+			await expect(service.create(100, { filename: 'image.jpg', filetype: 'image/jpeg' })).rejects.toBeInstanceOf(
+				ForbiddenError,
+			);
+
+			expect(tracker.history.insert).toHaveLength(0);
+		});
+
+		it('throws ContentTooLargeError when the length exceeds the max upload size', async () => {
+			await expect(
+				service.create(11 * 1024 * 1024, { filename: 'image.jpg', filetype: 'image/jpeg' }),
+			).rejects.toBeInstanceOf(ContentTooLargeError);
+		});
+
+		it('throws InvalidPayloadError when the filename is missing', async () => {
+			await expect(service.create(100, { filetype: 'image/jpeg' })).rejects.toBeInstanceOf(InvalidPayloadError);
+		});
+
+		it('throws InvalidPayloadError for a type that is not allowed', async () => {
+			await expect(service.create(100, { filename: 'doc.pdf', filetype: 'application/pdf' })).rejects.toBeInstanceOf(
+				InvalidPayloadError,
+			);
+		});
+
+		it('throws InvalidPayloadError for an unknown storage location', async () => {
+			await expect(
+				service.create(100, { filename: 'image.jpg', filetype: 'image/jpeg', storage: 's3' }),
+			).rejects.toBeInstanceOf(InvalidPayloadError);
+		});
+
+		it('checks the storage quota of the default folder with the length of the upload', async () => {
+			tracker.on.select('directus_settings').response({ storage_default_folder: 'folder-1' });
+
+			vi.mocked(validateStorageQuota).mockRejectedValueOnce(
+				new StorageQuotaExceededError({ scope: 'folder', limit: 'size' }),
+			);
+
+			await expect(service.create(100, { filename: 'image.jpg', filetype: 'image/jpeg' })).rejects.toBeInstanceOf(
+				StorageQuotaExceededError,
+			);
+
+			expect(validateStorageQuota).toHaveBeenCalledWith({ user: 'user-1', role: 'admin', folder: 'folder-1' }, 100, {
+				database: db,
+			});
+
+			expect(tracker.history.insert).toHaveLength(0);
+		});
+
+		it('stores the upload with the fields of the file', async () => {
+			tracker.on.insert('directus_file_uploads').response([]);
+
+			const id = await service.create(100, {
+				filename: 'summer-holiday.jpg',
+				filetype: 'image/jpeg',
+				folder: 'null',
+				description: 'Beach',
+			});
+
+			expect(id).toEqual(expect.any(String));
+			expect(validatePayload).toHaveBeenCalledWith('create', 'directus_files', expect.any(Object));
+
+			const [insert] = tracker.history.insert;
+
+			expect(insert!.bindings).toContain('local');
+			expect(insert!.bindings).toContain(100);
+			expect(insert!.bindings).toContain('user-1');
+
+			expect(
+				JSON.parse(insert!.bindings.find((binding) => typeof binding === 'string' && binding.startsWith('{'))),
+			).toEqual({
+				folder: null,
+				description: 'Beach',
+				storage: 'local',
+				filename_download: 'summer-holiday.jpg',
+				title: 'Summer Holiday',
+				type: 'image/jpeg',
+			});
+		});
+	});
+
+	describe('append', () => {
+		const disk = {
+			write: vi.fn(async (_path: string, stream: Readable) => {
+				for await (const _chunk of stream);
+			}),
+			move: vi.fn(),
+			delete: vi.fn(async () => {}),
+			list: vi.fn(async function* () {}),
+		};
+
+		beforeEach(() => {
+			vi.mocked(getStorage).mockResolvedValue({ location: () => disk } as any);
+
+			tracker.on
+				.select('directus_file_uploads')
+				.response({ id: 'upload-1', user: 'user-1', storage: 'local', length: '100', offset: '0', file: null });
+		});
+
+		it('moves the chunk into place once the offset is updated', async () => {
+			tracker.on.update('directus_file_uploads').response(1);
+
+			await expect(service.append('upload-1', 0, Readable.from([Buffer.alloc(10)]))).resolves.toMatchObject({
+				offset: 10,
+			});
+
+			const tempPath = disk.write.mock.calls[0]![0];
+
+			expect(tempPath).toMatch(/^\.tus\/upload-1\/0{16}\.[\w-]+$/);
+			expect(disk.move).toHaveBeenCalledWith(tempPath, '.tus/upload-1/0000000000000000');
+		});
+
+		it('keeps the chunk of a concurrent request at the same offset', async () => {
+			tracker.on.update('directus_file_uploads').response(0);
+
+			await expect(service.append('upload-1', 0, Readable.from([Buffer.alloc(10)]))).rejects.toBeInstanceOf(
+				InvalidPayloadError,
+			);
+
+			expect(disk.move).not.toHaveBeenCalled();
+			expect(disk.delete).toHaveBeenCalledWith(disk.write.mock.calls[0]![0]);
+			expect(disk.delete).not.toHaveBeenCalledWith('.tus/upload-1/0000000000000000');
+		});
+
+		it('rolls back the offset when creating the file fails, so the last chunk can be sent again', async () => {
+			tracker.on.update('directus_file_uploads').response(1);
+
+			vi.mocked(FilesService).mockImplementation(
+				() => ({ uploadOne: vi.fn().mockRejectedValue(new Error('Storage unavailable')) }) as any,
+			);
+
+			await expect(service.append('upload-1', 0, Readable.from([Buffer.alloc(100)]))).rejects.toThrow(
+				'Storage unavailable',
+			);
+
+			expect(tracker.history.update).toHaveLength(2);
+			expect(tracker.history.update[1]!.bindings).toEqual([0, 'upload-1', 100]);
+			expect(disk.delete).toHaveBeenCalledWith('.tus/upload-1/0000000000000000');
+		});
+	});
+
+	describe('readOne', () => {
+		it('throws ForbiddenError for an upload of another user', async () => {
+			tracker.on.select('directus_file_uploads').response({ id: 'upload-1', user: 'user-2' });
+
+			await expect(service.readOne('upload-1')).rejects.toBeInstanceOf(ForbiddenError);
+		});
+
+		it('throws ForbiddenError for anonymous clients', async () => {
+			tracker.on.select('directus_file_uploads').response({ id: 'upload-1', user: null });
+
+			service = new FileUploadsService({
+				knex: db,
+				accountability: { role: null, user: null },
+				schema: { collections: {}, relations: [] },
+			});
+
+			await expect(service.readOne('upload-1')).rejects.toBeInstanceOf(ForbiddenError);
+		});
+
+		it('throws ForbiddenError for an upload that does not exist', async () => {
+			tracker.on.select('directus_file_uploads').response(undefined);
+
+			await expect(service.readOne('upload-1')).rejects.toBeInstanceOf(ForbiddenError);
+		});
+
+		it('returns the upload with numeric offsets', async () => {
+			tracker.on
+				.select('directus_file_uploads')
+				.response({ id: 'upload-1', user: 'user-1', length: '100', offset: '50', metadata: '{"type":"image/jpeg"}' });
+
+			await expect(service.readOne('upload-1')).resolves.toMatchObject({
+				length: 100,
+				offset: 50,
+				metadata: { type: 'image/jpeg' },
+			});
+		});
+	});
+});
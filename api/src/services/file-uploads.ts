@@ -0,0 +1,346 @@
+import { useEnv } from '@directus/env';
+import { ContentTooLargeError, ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import formatTitle from '@directus/format-title';
+import type { Accountability, File, FileUpload, PrimaryKey, SchemaOverview } from '@directus/types';
+import { parseJSON, toArray } from '@directus/utils';
+import bytes from 'bytes';
+import type { Knex } from 'knex';
+import { minimatch } from 'minimatch';
+import { randomUUID } from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import path from 'path';
+import getDatabase from '../database/index.js';
+import { useLogger } from '../logger.js';
+import { getStorage } from '../storage/index.js';
+import type { AbstractServiceOptions } from '../types/index.js';
+import { getMilliseconds } from '../utils/get-milliseconds.js';
+import { validateStorageQuota } from '../utils/validate-storage-quota.js';
+import { AuthorizationService } from './authorization.js';
+import { FilesService } from './files.js';
+
+const env = useEnv();
+const logger = useLogger();
+
+const CHUNK_NAME_REGEX = /^\d{16}$/;
+
+/**
+ * Manages resumable uploads. The content of an upload is stored as a chunk per request in the upload's storage
+ * location, and is only turned into a file once all chunks are received
+ */
+export class FileUploadsService {
+	knex: Knex;
+	accountability: Accountability | null;
+	schema: SchemaOverview;
+
+	constructor(options: AbstractServiceOptions) {
+		this.knex = options.knex || getDatabase();
+		this.accountability = options.accountability || null;
+		this.schema = options.schema;
+	}
+
+	/**
+	 * Start a new upload of the given length. The metadata contains the `filename` and `filetype` of the upload, as well
+	 * as any other fields of the file that's created once the upload is complete
+	 */
+	async create(length: number, metadata: Record<string, string>): Promise<PrimaryKey> {
+		this.checkAccess();
+
+		if (!Number.isSafeInteger(length) || length < 1) {
+			throw new InvalidPayloadError({ reason: `Upload length has to be a positive integer` });
+		}
+
+		if (env['FILES_MAX_UPLOAD_SIZE'] && length > bytes(env['FILES_MAX_UPLOAD_SIZE'] as string)!) {
+			throw new ContentTooLargeError();
+		}
+
+		const { filename, filetype, ...fields } = metadata;
+
+		if (!filename) {
+			throw new InvalidPayloadError({ reason: `File is missing filename` });
+		}
+
+		const type = filetype || 'application/octet-stream';
+
+		const allowedPatterns = toArray(env['FILES_MIME_TYPE_ALLOW_LIST'] as string | string[]);
+		const mimeTypeAllowed = allowedPatterns.some((pattern) => minimatch(type, pattern));
+
+		if (mimeTypeAllowed === false) {
+			throw new InvalidPayloadError({ reason: `File is of invalid content type` });
+		}
+
+		const payload: Record<string, unknown> = {};
+
+		for (const [field, value] of Object.entries(fields)) {
+			if (value.trim() === 'null') payload[field] = null;
+			else if (value.trim() === 'false') payload[field] = false;
+			else if (value.trim() === 'true') payload[field] = true;
+			else payload[field] = value;
+		}
+
+		payload['storage'] ||= toArray(env['STORAGE_LOCATIONS'] as string)[0];
+
+		if (!toArray(env['STORAGE_LOCATIONS'] as string).includes(payload['storage'] as string)) {
+			throw new InvalidPayloadError({ reason: `Storage location "${payload['storage']}" doesn't exist` });
+		}
+
+		payload['filename_download'] = filename;
+		payload['title'] ??= formatTitle(path.parse(filename).name);
+		payload['type'] = type;
+
+		// Fail early instead of after the whole file is uploaded
+		if (this.accountability) {
+			const authorizationService = new AuthorizationService({
+				knex: this.knex,
+				accountability: this.accountability,
+				schema: this.schema,
+			});
+
+			authorizationService.validatePayload('create', 'directus_files', payload);
+		}
+
+		let folder = payload['folder'] as string | null | undefined;
+
+		// Files without a folder end up in the default folder
+		if (folder === undefined) {
+			const settings = await this.knex.select('storage_default_folder').from('directus_settings').first();
+			folder = settings?.storage_default_folder;
+		}
+
+		await validateStorageQuota(
+			{ user: this.accountability?.user ?? null, role: this.accountability?.role ?? null, folder: folder ?? null },
+			length,
+			{ database: this.knex },
+		);
+
+		const id = randomUUID();
+
+		await this.knex('directus_file_uploads').insert({
+			id,
+			storage: payload['storage'],
+			length,
+			offset: 0,
+			metadata: JSON.stringify(payload),
+			user: this.accountability?.user ?? null,
+			date_created: new Date(),
+			date_updated: new Date(),
+		});
+
+		return id;
+	}
+
+	/**
+	 * Read an upload that was started by the current user
+	 */
+	async readOne(id: string): Promise<FileUpload> {
+		this.checkAccess();
+
+		const upload = await this.knex.select('*').from('directus_file_uploads').where({ id }).first();
+
+		if (!upload || upload.user !== (this.accountability?.user ?? null)) {
+			throw new ForbiddenError();
+		}
+
+		return {
+			...upload,
+			length: Number(upload.length),
+			offset: Number(upload.offset),
+			metadata: typeof upload.metadata === 'string' ? parseJSON(upload.metadata) : upload.metadata,
+		};
+	}
+
+	/**
+	 * Append the stream to the upload at the given offset. Once all data is received, the file is created and its primary
+	 * key is returned as part of the upload
+	 */
+	async append(id: string, offset: number, stream: Readable): Promise<FileUpload> {
+		const upload = await this.readOne(id);
+
+		if (upload.offset !== offset) {
+			throw new InvalidPayloadError({ reason: `Upload offset doesn't match the current offset of ${upload.offset}` });
+		}
+
+		if (upload.file !== null || upload.offset === upload.length) {
+			throw new InvalidPayloadError({ reason: `Upload is already complete` });
+		}
+
+		const storage = await getStorage();
+		const disk = storage.location(upload.storage);
+
+		let received = 0;
+		let exceeded = false;
+
+		const counter = new Transform({
+			transform(chunk: Buffer, _encoding, callback) {
+				// Drop the rest of the request, the storage driver might not be listening for errors yet
+				if (exceeded || offset + received + chunk.length > upload.length) {
+					exceeded = true;
+					return callback();
+				}
+
+				received += chunk.length;
+				callback(null, chunk);
+			},
+		});
+
+		// Keep the data that was received before the client disconnected, so the upload can be resumed from there
+		stream.on('error', () => counter.end());
+		stream.on('close', () => counter.end());
+		stream.pipe(counter);
+
+		const chunkPath = getChunkPath(id, offset);
+
+		// Concurrent requests at the same offset each write their own file, which only the request that manages to update
+		// the offset moves into place
+		const tempPath = `${chunkPath}.${randomUUID()}`;
+
+		try {
+			await disk.write(tempPath, counter, 'application/octet-stream');
+		} catch (error) {
+			await disk.delete(tempPath).catch(() => {});
+			throw error;
+		}
+
+		if (exceeded) {
+			await disk.delete(tempPath);
+			throw new ContentTooLargeError();
+		}
+
+		if (received === 0) {
+			await disk.delete(tempPath);
+			return upload;
+		}
+
+		upload.offset = offset + received;
+		upload.date_updated = new Date().toISOString();
+
+		const updated = await this.knex('directus_file_uploads')
+			.update({ offset: upload.offset, date_updated: new Date() })
+			.where({ id, offset });
+
+		// Another request appended to the upload in the meantime
+		if (updated !== 1) {
+			await disk.delete(tempPath);
+			throw new InvalidPayloadError({ reason: `Upload was modified by another request` });
+		}
+
+		try {
+			await disk.move(tempPath, chunkPath);
+		} catch (error) {
+			// Without the chunk, the upload has to be resumed from the previous offset
+			await this.knex('directus_file_uploads').update({ offset }).where({ id, offset: upload.offset });
+			await disk.delete(tempPath).catch(() => {});
+			throw error;
+		}
+
+		if (upload.offset === upload.length) {
+			try {
+				upload.file = await this.complete(upload);
+			} catch (error) {
+				// Clients consider an upload at its full length to be done, so the last chunk has to be sent again to retry
+				await this.knex('directus_file_uploads').update({ offset }).where({ id, offset: upload.offset, file: null });
+				await disk.delete(chunkPath).catch(() => {});
+				throw error;
+			}
+		}
+
+		return upload;
+	}
+
+	/**
+	 * Terminate an upload and remove all data that was uploaded so far
+	 */
+	async deleteOne(id: string): Promise<void> {
+		const upload = await this.readOne(id);
+
+		await this.removeChunks(upload);
+		await this.knex('directus_file_uploads').delete().where({ id });
+	}
+
+	/**
+	 * Remove all uploads that weren't updated within the configured expiration time, including completed ones
+	 */
+	async deleteExpired(): Promise<void> {
+		const expiration = getMilliseconds(env['FILES_RESUMABLE_UPLOAD_EXPIRATION'], 0);
+
+		const uploads: Pick<FileUpload, 'id' | 'storage' | 'offset' | 'file'>[] = await this.knex
+			.select('id', 'storage', 'offset', 'file')
+			.from('directus_file_uploads')
+			.where('date_updated', '<', new Date(Date.now() - expiration));
+
+		for (const upload of uploads) {
+			try {
+				await this.removeChunks({ ...upload, offset: Number(upload.offset) });
+				await this.knex('directus_file_uploads').delete().where({ id: upload.id });
+			} catch (error) {
+				logger.warn(error, `Couldn't remove expired upload "${upload.id}"`);
+			}
+		}
+	}
+
+	/**
+	 * Uploads belong to the user that started them. Anonymous uploads can't be told apart, so they're not allowed
+	 */
+	private checkAccess(): void {
+		if (this.accountability && !this.accountability.user) {
+			throw new ForbiddenError();
+		}
+	}
+
+	private async complete(upload: FileUpload): Promise<string> {
+		const storage = await getStorage();
+		const disk = storage.location(upload.storage);
+
+		const chunks: string[] = [];
+
+		for await (const filepath of disk.list(getChunkPath(upload.id))) {
+			// Skip the files of requests that are still being received
+			if (CHUNK_NAME_REGEX.test(path.basename(filepath))) chunks.push(filepath);
+		}
+
+		// Chunk names are zero padded offsets, so they can be sorted as strings
+		chunks.sort();
+
+		const stream = Readable.from(
+			(async function* () {
+				for (const chunk of chunks) {
+					yield* await disk.read(chunk);
+				}
+			})(),
+		);
+
+		const filesService = new FilesService({
+			knex: this.knex,
+			accountability: this.accountability,
+			schema: this.schema,
+		});
+
+		const file = await filesService.uploadOne(stream, upload.metadata as Partial<File> & { storage: string });
+
+		// Once the file is linked, the upload is no longer retried when removing the chunks fails
+		await this.knex('directus_file_uploads').update({ file }).where({ id: upload.id });
+		await this.removeChunks(upload);
+
+		return file as string;
+	}
+
+	private async removeChunks(upload: Pick<FileUpload, 'id' | 'storage' | 'offset' | 'file'>): Promise<void> {
+		// There are no chunks after the file was created. Before the first chunk is received, there might still be the
+		// file of a request that didn't finish
+		if (upload.file !== null) return;
+
+		const storage = await getStorage();
+		const disk = storage.location(upload.storage);
+
+		for await (const filepath of disk.list(getChunkPath(upload.id))) {
+			await disk.delete(filepath);
+		}
+	}
+}
+
+function getChunkPath(id: string, offset?: number): string {
+	const directory = `.tus/${id}/`;
+
+	if (offset === undefined) return directory;
+
+	return directory + String(offset).padStart(16, '0');
+}
@@ -1,4 +1,5 @@
-import { InvalidPayloadError } from '@directus/errors';
+import { useEnv } from '@directus/env';
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
 import type { Knex } from 'knex';
 import knex from 'knex';
 import { createTracker, MockClient, Tracker } from 'knex-mock-client';
@@ -13,7 +14,15 @@ import {
 	type MockedFunction,
 	type MockInstance,
 } from 'vitest';
-import { FilesService, ItemsService } from './index.js';
+import { Readable } from 'node:stream';
+import { getStorage } from '../storage/index.js';
+import { AssetsService, FilesService, ItemsService } from './index.js';
+
+vi.mock('../storage/index.js');
+
+vi.mock('./authorization.js', () => ({
+	AuthorizationService: vi.fn(),
+}));
 
 describe('Integration Tests', () => {
 	let db: MockedFunction<Knex>;
@@ -69,5 +78,288 @@ describe('Integration Tests', () => {
 				expect(superCreateOne).toHaveBeenCalled();
 			});
 		});
+
+		describe('moveToStorage', () => {
+			let service: FilesService;
+			let superUpdateOne: MockInstance;
+
+			beforeEach(() => {
+				service = new FilesService({
+					knex: db,
+					schema: { collections: {}, relations: [] },
+				});
+
+				superUpdateOne = vi.spyOn(ItemsService.prototype, 'updateOne').mockResolvedValue(1);
+			});
+
+			it('throws InvalidPayloadError for a storage location that is not configured', async () => {
+				await expect(service.moveToStorage([1], 'unknown')).rejects.toBeInstanceOf(InvalidPayloadError);
+
+				expect(superUpdateOne).not.toHaveBeenCalled();
+			});
+
+			it('skips files that are already stored in the storage location', async () => {
+				vi.mocked(getStorage).mockResolvedValue({ location: vi.fn() } as any);
+
+				tracker.on
+					.select('directus_files')
+					.response([{ id: 1, storage: 'local', filename_disk: 'file.jpg', type: 'image/jpeg' }]);
+
+				await expect(service.moveToStorage([1], 'local')).resolves.toEqual([1]);
+
+				expect(superUpdateOne).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('updateMany', () => {
+			let service: FilesService;
+			let purgeDerivatives: MockInstance;
+			let queueDerivatives: MockInstance;
+
+			beforeEach(() => {
+				service = new FilesService({
+					knex: db,
+					schema: { collections: {}, relations: [] },
+				});
+
+				vi.spyOn(ItemsService.prototype, 'updateMany').mockResolvedValue([1]);
+				purgeDerivatives = vi.spyOn(AssetsService.prototype, 'purgeDerivatives').mockResolvedValue(0);
+				queueDerivatives = vi.spyOn(AssetsService.prototype, 'queueDerivatives').mockReturnValue();
+			});
+
+			it('refreshes the derivatives when the focal point changes', async () => {
+				await service.updateMany([1], { focal_point_x: 10, focal_point_y: 20 });
+
+				expect(purgeDerivatives).toHaveBeenCalledWith([1]);
+				expect(queueDerivatives).toHaveBeenCalledWith([1]);
+			});
+
+			it('keeps the derivatives for other changes', async () => {
+				await service.updateMany([1], { title: 'Test File' });
+
+				expect(purgeDerivatives).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('verify', () => {
+			const disk = {
+				exists: vi.fn(),
+				read: vi.fn(),
+			};
+
+			beforeEach(() => {
+				vi.mocked(getStorage).mockResolvedValue({ location: () => disk } as any);
+			});
+
+			it('throws ForbiddenError for non-admin users', async () => {
+				const service = new FilesService({
+					knex: db,
+					accountability: { role: 'role', user: 'user', admin: false },
+					schema: { collections: {}, relations: [] },
+				});
+
+				await expect(service.verify([1])).rejects.toBeInstanceOf(ForbiddenError);
+			});
+
+			it('reports missing and mismatched files, and stores hashes that are missing', async () => {
+				const service = new FilesService({
+					knex: db,
+					schema: { collections: {}, relations: [] },
+				});
+
+				// SHA-256 of "content"
+				const hash = 'ed7002b439e9ac845f22357d822bac1444730fbdb6016d3ec9432297b9ec9f73';
+
+				tracker.on.select('directus_files').response([
+					{ id: 'valid', storage: 'local', filename_disk: 'valid.txt', hash },
+					{ id: 'missing', storage: 'local', filename_disk: 'missing.txt', hash },
+					{ id: 'mismatched', storage: 'local', filename_disk: 'mismatched.txt', hash: 'abc' },
+					{ id: 'unhashed', storage: 'local', filename_disk: 'unhashed.txt', hash: null },
+				]);
+
+				tracker.on.update('directus_files').response(1);
+
+				disk.exists.mockImplementation(async (filepath) => filepath !== 'missing.txt');
+				disk.read.mockImplementation(async () => Readable.from([Buffer.from('content')]));
+
+				await expect(service.verify(['valid', 'missing', 'mismatched', 'unhashed'])).resolves.toEqual({
+					checked: 4,
+					hashed: ['unhashed'],
+					missing: ['missing'],
+					mismatched: ['mismatched'],
+				});
+
+				expect(tracker.history.update[0]!.bindings).toEqual([hash, 'unhashed']);
+			});
+		});
+
+		describe('readOrphans', () => {
+			const env = useEnv();
+
+			const relations = [
+				{ collection: 'articles', field: 'image', related_collection: 'directus_files', schema: null, meta: null },
+				{ collection: 'articles', field: 'author', related_collection: 'directus_users', schema: null, meta: null },
+				{
+					collection: 'articles_blocks',
+					field: 'item',
+					related_collection: null,
+					schema: null,
+					meta: { one_collection_field: 'collection', one_allowed_collections: ['directus_files', 'quotes'] },
+				},
+			] as any;
+
+			const old = '2020-01-01T00:00:00.000Z';
+
+			afterEach(() => {
+				delete env['FILES_ORPHAN_CLEANUP_EXCLUDED_FOLDERS'];
+			});
+
+			it('throws ForbiddenError for non-admin users', async () => {
+				const service = new FilesService({
+					knex: db,
+					accountability: { role: 'role', user: 'user', admin: false },
+					schema: { collections: {}, relations },
+				});
+
+				await expect(service.readOrphans()).rejects.toBeInstanceOf(ForbiddenError);
+			});
+
+			beforeEach(() => {
+				tracker.on.select('directus_revisions').response([]);
+				tracker.on.select('directus_notifications').response([]);
+			});
+
+			it('returns the files that are not referenced through relations to directus_files', async () => {
+				const service = new FilesService({ knex: db, schema: { collections: {}, relations } });
+
+				tracker.on.select('articles_blocks').response([{ item: 'in-block' }]);
+				tracker.on.select('articles').response([{ image: 'in-article' }]);
+
+				tracker.on.select('directus_files').response([
+					{ id: 'in-article', filename_download: 'a.jpg', folder: null, filesize: '10', uploaded_on: old },
+					{ id: 'in-block', filename_download: 'b.jpg', folder: null, filesize: '10', uploaded_on: old },
+					{ id: 'orphan', filename_download: 'c.jpg', folder: null, filesize: '10', uploaded_on: old },
+					{ id: 'recent', filename_download: 'd.jpg', folder: null, filesize: '10', uploaded_on: new Date() },
+				]);
+
+				await expect(service.readOrphans()).resolves.toEqual([
+					{ id: 'orphan', filename_download: 'c.jpg', folder: null, filesize: 10, uploaded_on: old },
+				]);
+
+				expect(tracker.history.select[0]!.sql).toBe(
+					'select distinct "image" from "articles" where "image" is not null',
+				);
+
+				expect(tracker.history.select[1]!.sql).toBe(
+					'select distinct "item" from "articles_blocks" where "item" is not null and "collection" = ?',
+				);
+			});
+
+			it('counts files linked through custom many-to-one fields of directus_files as referenced', async () => {
+				const service = new FilesService({
+					knex: db,
+					schema: {
+						collections: {},
+						relations: [
+							{ collection: 'directus_files', field: 'product', related_collection: 'products', meta: null },
+							{
+								collection: 'directus_files',
+								field: 'folder',
+								related_collection: 'directus_folders',
+								meta: { system: true },
+							},
+						] as any,
+					},
+				});
+
+				tracker.on.select('select "id" from "directus_files"').response([{ id: 'of-product' }]);
+
+				tracker.on.select('directus_files').response([
+					{ id: 'of-product', filename_download: 'a.jpg', folder: null, filesize: 1, uploaded_on: old },
+					{ id: 'in-folder', filename_download: 'b.jpg', folder: 'folder', filesize: 1, uploaded_on: old },
+				]);
+
+				const orphans = await service.readOrphans();
+
+				expect(orphans.map((file) => file.id)).toEqual(['in-folder']);
+				expect(tracker.history.select[0]!.sql).toBe('select "id" from "directus_files" where "product" is not null');
+			});
+
+			it('counts files used by content versions and notifications as referenced', async () => {
+				const service = new FilesService({ knex: db, schema: { collections: {}, relations: [] } });
+
+				tracker.reset();
+
+				tracker.on.select('directus_revisions').response([
+					{
+						delta: JSON.stringify({
+							image: 'in-version',
+							gallery: { create: [{ directus_files_id: 'in-gallery' }] },
+						}),
+					},
+				]);
+
+				tracker.on.select('directus_notifications').response([{ item: 'in-notification' }]);
+
+				tracker.on.select('directus_files').response([
+					{ id: 'in-version', filename_download: 'a.jpg', folder: null, filesize: 1, uploaded_on: old },
+					{ id: 'in-gallery', filename_download: 'b.jpg', folder: null, filesize: 1, uploaded_on: old },
+					{ id: 'in-notification', filename_download: 'c.csv', folder: null, filesize: 1, uploaded_on: old },
+					{ id: 'orphan', filename_download: 'd.jpg', folder: null, filesize: 1, uploaded_on: old },
+				]);
+
+				const orphans = await service.readOrphans();
+
+				expect(orphans.map((file) => file.id)).toEqual(['orphan']);
+			});
+
+			it('leaves out the files generated by exports and imports', async () => {
+				const service = new FilesService({ knex: db, schema: { collections: {}, relations: [] } });
+
+				tracker.on.select('directus_files').response([
+					{
+						id: 'export',
+						filename_download: 'export-articles-20240601-93015.csv',
+						folder: null,
+						filesize: 1,
+						uploaded_on: old,
+					},
+					{
+						id: 'rejected',
+						filename_download: 'import-articles-rejected-20240601-93015.xlsx',
+						folder: null,
+						filesize: 1,
+						uploaded_on: old,
+					},
+					{ id: 'orphan', filename_download: 'export.csv', folder: null, filesize: 1, uploaded_on: old },
+				]);
+
+				const orphans = await service.readOrphans();
+
+				expect(orphans.map((file) => file.id)).toEqual(['orphan']);
+			});
+
+			it('leaves out the files in excluded folders and their subfolders', async () => {
+				env['FILES_ORPHAN_CLEANUP_EXCLUDED_FOLDERS'] = ['excluded'];
+
+				const service = new FilesService({ knex: db, schema: { collections: {}, relations: [] } });
+
+				tracker.on.select('directus_folders').response([
+					{ id: 'excluded', parent: null },
+					{ id: 'child', parent: 'excluded' },
+					{ id: 'other', parent: null },
+				]);
+
+				tracker.on.select('directus_files').response([
+					{ id: 'in-excluded', filename_download: 'a.jpg', folder: 'excluded', filesize: 1, uploaded_on: old },
+					{ id: 'in-child', filename_download: 'b.jpg', folder: 'child', filesize: 1, uploaded_on: old },
+					{ id: 'in-other', filename_download: 'c.jpg', folder: 'other', filesize: 1, uploaded_on: old },
+				]);
+
+				const orphans = await service.readOrphans();
+
+				expect(orphans.map((file) => file.id)).toEqual(['in-other']);
+			});
+		});
 	});
 });
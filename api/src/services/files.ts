@@ -1,8 +1,15 @@
 import { useEnv } from '@directus/env';
 import { ContentTooLargeError, ForbiddenError, InvalidPayloadError, ServiceUnavailableError } from '@directus/errors';
 import formatTitle from '@directus/format-title';
-import type { BusboyFileStream, File, PrimaryKey } from '@directus/types';
-import { toArray } from '@directus/utils';
+import type {
+	BusboyFileStream,
+	File,
+	FileVerificationReport,
+	OrphanedFile,
+	PrimaryKey,
+	StorageQuota,
+} from '@directus/types';
+import { parseJSON, toArray } from '@directus/utils';
 import type { AxiosResponse } from 'axios';
 import encodeURL from 'encodeurl';
 import exif, { type GPSInfoTags, type ImageTags, type IopTags, type PhotoTags } from 'exif-reader';
@@ -10,6 +17,7 @@ import type { IccProfile } from 'icc';
 import { parse as parseIcc } from 'icc';
 import { clone, pick } from 'lodash-es';
 import { extension } from 'mime-types';
+import { createHash } from 'node:crypto';
 import type { Readable } from 'node:stream';
 import { PassThrough as PassThroughStream, Transform as TransformStream } from 'node:stream';
 import { pipeline } from 'node:stream/promises';
@@ -17,19 +25,33 @@ import zlib from 'node:zlib';
 import path from 'path';
 import sharp from 'sharp';
 import url from 'url';
-import { SUPPORTED_IMAGE_METADATA_FORMATS } from '../constants.js';
+import {
+	SUPPORTED_IMAGE_METADATA_FORMATS,
+	SUPPORTED_IMAGE_TRANSFORM_FORMATS,
+	SUPPORTED_POSTER_FORMATS,
+} from '../constants.js';
 import emitter from '../emitter.js';
 import { useLogger } from '../logger.js';
 import { getAxios } from '../request/index.js';
 import { getStorage } from '../storage/index.js';
 import type { AbstractServiceOptions, MutationOptions } from '../types/index.js';
+import { getMilliseconds } from '../utils/get-milliseconds.js';
+import { getStorageQuotas } from '../utils/get-storage-quotas.js';
 import { parseIptc, parseXmp } from '../utils/parse-image-metadata.js';
+import { validateStorageQuota } from '../utils/validate-storage-quota.js';
+import { AssetsService } from './assets.js';
+import { AuthorizationService } from './authorization.js';
 import { ItemsService } from './items.js';
 
 const env = useEnv();
 const logger = useLogger();
 
-type Metadata = Partial<Pick<File, 'height' | 'width' | 'description' | 'title' | 'tags' | 'metadata'>>;
+type Metadata = Partial<Pick<File, 'height' | 'width' | 'duration' | 'description' | 'title' | 'tags' | 'metadata'>>;
+
+/**
+ * Download names of the files written by exports and of the rejected rows of imports
+ */
+const GENERATED_FILENAME_REGEX = /^(export-.+|import-.+-rejected)-\d{8}-\d+\.(csv|json|xml|yaml|xlsx)$/;
 
 export class FilesService extends ItemsService {
 	constructor(options: AbstractServiceOptions) {
@@ -77,6 +99,15 @@ export class FilesService extends ItemsService {
 		// Is this file a replacement? if the file data already exists and we have a primary key
 		const isReplacement = existingFile !== null && primaryKey !== undefined;
 
+		const quotaOwner = {
+			user: this.accountability?.user ?? null,
+			role: this.accountability?.role ?? null,
+			folder: payload.folder ?? null,
+		};
+
+		// Check the file count and whether there's any space left before receiving the file
+		await validateStorageQuota(quotaOwner, 0, { database: this.knex, exclude: primaryKey });
+
 		// If this is a new file upload, we need to generate a new primary key and DB record
 		if (isReplacement === false || primaryKey === undefined) {
 			primaryKey = await this.createOne(payload, { emitEvents: false });
@@ -120,13 +151,29 @@ export class FilesService extends ItemsService {
 			}
 		};
 
+		// The hash and size of the content are calculated while it's being written
+		const hash = createHash('sha256');
+		let bytesWritten = 0;
+
+		const content = stream.pipe(
+			new TransformStream({
+				transform(chunk, _encoding, callback) {
+					hash.update(chunk);
+					bytesWritten += chunk.length;
+					callback(null, chunk);
+				},
+			}),
+		);
+
+		stream.on('error', (error) => content.destroy(error));
+
 		try {
 			// If this is a replacement, we'll write the file to a temp location first to ensure we don't overwrite the existing file if something goes wrong
 			if (isReplacement === true) {
-				await disk.write(tempFilenameDisk, stream, payload.type);
+				await disk.write(tempFilenameDisk, content, payload.type);
 			} else {
 				// If this is a new file upload, we'll write the file to the final location
-				await disk.write(payload.filename_disk, stream, payload.type);
+				await disk.write(payload.filename_disk, content, payload.type);
 			}
 
 			// Check if the file was truncated (if the stream ended early) and throw limit error if it was
@@ -146,10 +193,24 @@ export class FilesService extends ItemsService {
 			}
 		}
 
+		try {
+			await validateStorageQuota(quotaOwner, bytesWritten, { database: this.knex, exclude: primaryKey });
+		} catch (err) {
+			await cleanUp();
+			throw err;
+		}
+
+		payload.hash = hash.digest('hex');
+
 		// If the file is a replacement, we need to update the DB record with the new payload, delete the old files, and upgrade the temp file
 		if (isReplacement === true) {
 			await this.updateOne(primaryKey, payload, { emitEvents: false });
 
+			// Other files that share the previous content keep their own copy of it
+			if (existingFile!['filename_disk'] && path.parse(existingFile!['filename_disk']).name === String(primaryKey)) {
+				await this.detachSharedContent(data.storage, existingFile!['filename_disk'], primaryKey);
+			}
+
 			// delete the previously saved file and thumbnails to ensure they're generated fresh
 			for await (const filepath of disk.list(String(primaryKey))) {
 				await disk.delete(filepath);
@@ -162,9 +223,37 @@ export class FilesService extends ItemsService {
 		const { size } = await storage.location(data.storage).stat(payload.filename_disk);
 		payload.filesize = size;
 
+		if (env['FILES_DEDUPLICATION'] === true && isReplacement === false) {
+			const duplicate = await this.knex
+				.select('filename_disk')
+				.from('directus_files')
+				.where({ storage: data.storage, hash: payload.hash, filesize: size })
+				.whereNot({ id: primaryKey })
+				.whereNotNull('filename_disk')
+				.first();
+
+			// Reuse the content of an identical file instead of storing it again
+			if (duplicate && duplicate.filename_disk !== payload.filename_disk) {
+				await disk.delete(payload.filename_disk);
+				payload.filename_disk = duplicate.filename_disk as string;
+			}
+		}
+
+		let extractedMetadata: Metadata | null = null;
+
 		if (SUPPORTED_IMAGE_METADATA_FORMATS.includes(payload.type)) {
 			const stream = await storage.location(data.storage).read(payload.filename_disk);
-			const { height, width, description, title, tags, metadata } = await this.getMetadata(stream);
+			extractedMetadata = await this.getMetadata(stream);
+		} else if (SUPPORTED_POSTER_FORMATS.includes(payload.type)) {
+			// The metadata of videos and PDFs is read in the background along with their poster, as that needs a local copy
+			// of the whole file. The dimensions of a replaced file are cleared, so they're read again
+			payload.width = data.width ?? null;
+			payload.height = data.height ?? null;
+			payload.duration = data.duration ?? null;
+		}
+
+		if (extractedMetadata) {
+			const { height, width, duration, description, title, tags, metadata } = extractedMetadata;
 
 			if (!payload.height && height) {
 				payload.height = height;
@@ -174,6 +263,10 @@ export class FilesService extends ItemsService {
 				payload.width = width;
 			}
 
+			if (!payload.duration && duration) {
+				payload.duration = duration;
+			}
+
 			if (!payload.metadata && metadata) {
 				payload.metadata = metadata;
 			}
@@ -203,6 +296,12 @@ export class FilesService extends ItemsService {
 
 		await sudoService.updateOne(primaryKey, payload, { emitEvents: false });
 
+		// Derivatives of eager presets and posters of videos and PDFs are generated in the background, so they're ready
+		// on the first request
+		if (SUPPORTED_IMAGE_TRANSFORM_FORMATS.includes(payload.type) || SUPPORTED_POSTER_FORMATS.includes(payload.type)) {
+			new AssetsService({ knex: this.knex, schema: this.schema }).queueDerivatives([primaryKey]);
+		}
+
 		if (opts?.emitEvents !== false) {
 			emitter.emitAction(
 				'files.upload',
@@ -397,6 +496,76 @@ export class FilesService extends ItemsService {
 		return await this.uploadOne(decompressResponse(fileResponse.data, fileResponse.headers), payload, payload.id);
 	}
 
+	/**
+	 * Move the content of the given files to another storage location. The content is copied and verified against the
+	 * original before the file is updated, and only then removed from the previous location
+	 */
+	async moveToStorage(keys: PrimaryKey[], location: string): Promise<PrimaryKey[]> {
+		if (!toArray(env['STORAGE_LOCATIONS'] as string).includes(location)) {
+			throw new InvalidPayloadError({ reason: `Storage location "${location}" doesn't exist` });
+		}
+
+		if (this.accountability) {
+			const authorizationService = new AuthorizationService({
+				knex: this.knex,
+				accountability: this.accountability,
+				schema: this.schema,
+			});
+
+			await authorizationService.checkAccess('update', 'directus_files', keys);
+			authorizationService.validatePayload('update', 'directus_files', { storage: location });
+		}
+
+		const storage = await getStorage();
+
+		const files: Pick<File, 'id' | 'storage' | 'filename_disk' | 'type'>[] = await this.knex
+			.select('id', 'storage', 'filename_disk', 'type')
+			.from('directus_files')
+			.whereIn('id', keys);
+
+		const target = storage.location(location);
+
+		for (const file of files) {
+			if (file.storage === location) continue;
+
+			// Files without content only have to point to the new location
+			if (!file.filename_disk) {
+				await this.updateOne(file.id, { storage: location });
+				continue;
+			}
+
+			const source = storage.location(file.storage);
+
+			await target.write(file.filename_disk, await source.read(file.filename_disk), file.type ?? undefined);
+
+			const [{ size: sourceSize }, { size: targetSize }] = await Promise.all([
+				source.stat(file.filename_disk),
+				target.stat(file.filename_disk),
+			]);
+
+			if (sourceSize !== targetSize) {
+				await target.delete(file.filename_disk);
+
+				throw new ServiceUnavailableError({
+					service: 'files',
+					reason: `Couldn't verify the content of file "${file.id}" in storage location "${location}"`,
+				});
+			}
+
+			await this.updateOne(file.id, { storage: location });
+
+			// The content is still used by other files in the previous location
+			if ((await this.getSharingFiles(file.storage, file.filename_disk, [file.id])).length > 0) continue;
+
+			// Delete file + thumbnails, the thumbnails are generated again in the new location when requested
+			for await (const filepath of source.list(path.parse(file.filename_disk).name)) {
+				await source.delete(filepath);
+			}
+		}
+
+		return keys;
+	}
+
 	/**
 	 * Create a file (only applicable when it is not a multipart/data POST request)
 	 * Useful for associating metadata with existing file in storage
@@ -410,6 +579,36 @@ export class FilesService extends ItemsService {
 		return key;
 	}
 
+	/**
+	 * Update multiple files by primary key
+	 */
+	override async updateMany(keys: PrimaryKey[], data: Partial<File>, opts?: MutationOptions): Promise<PrimaryKey[]> {
+		await super.updateMany(keys, data, opts);
+
+		if ('focal_point_x' in data || 'focal_point_y' in data) {
+			await this.refreshDerivatives(keys);
+		}
+
+		return keys;
+	}
+
+	/**
+	 * Update multiple files in a single transaction
+	 */
+	override async updateBatch(data: Partial<File>[], opts?: MutationOptions): Promise<PrimaryKey[]> {
+		const keys = await super.updateBatch(data, opts);
+
+		const changedKeys = keys.filter(
+			(_key, index) => 'focal_point_x' in data[index]! || 'focal_point_y' in data[index]!,
+		);
+
+		if (changedKeys.length > 0) {
+			await this.refreshDerivatives(changedKeys);
+		}
+
+		return keys;
+	}
+
 	/**
 	 * Delete a file
 	 */
@@ -432,6 +631,9 @@ export class FilesService extends ItemsService {
 		await super.deleteMany(keys);
 
 		for (const file of files) {
+			// Deduplicated content is only deleted with the last file that uses it
+			if ((await this.getSharingFiles(file['storage'], file['filename_disk'], keys)).length > 0) continue;
+
 			const disk = storage.location(file['storage']);
 			const filePrefix = path.parse(file['filename_disk']).name;
 
@@ -443,6 +645,216 @@ export class FilesService extends ItemsService {
 
 		return keys;
 	}
+
+	/**
+	 * Read the content of the given files from their storage location and compare it to their stored hash. Files that
+	 * don't have a hash yet get their current hash stored
+	 */
+	async verify(keys: PrimaryKey[]): Promise<FileVerificationReport> {
+		if (this.accountability && this.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const storage = await getStorage();
+
+		const files: Pick<File, 'id' | 'storage' | 'filename_disk' | 'hash'>[] = await this.knex
+			.select('id', 'storage', 'filename_disk', 'hash')
+			.from('directus_files')
+			.whereIn('id', keys)
+			.whereNotNull('filename_disk');
+
+		const report: FileVerificationReport = { checked: 0, hashed: [], missing: [], mismatched: [] };
+
+		for (const file of files) {
+			const disk = storage.location(file.storage);
+
+			report.checked++;
+
+			if ((await disk.exists(file.filename_disk)) === false) {
+				report.missing.push(file.id);
+				continue;
+			}
+
+			const hash = createHash('sha256');
+			await pipeline(await disk.read(file.filename_disk), hash);
+			const digest = hash.digest('hex');
+
+			if (file.hash === null) {
+				await this.knex('directus_files').update({ hash: digest }).where({ id: file.id });
+				report.hashed.push(file.id);
+			} else if (file.hash !== digest) {
+				report.mismatched.push(file.id);
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Get the files that aren't referenced through any relation to or from directus_files, nor by content versions or
+	 * notifications, leaving out the files generated by exports and imports, the files that were uploaded within the
+	 * grace period and those in the excluded folders or their subfolders
+	 */
+	async readOrphans(): Promise<OrphanedFile[]> {
+		if (this.accountability && this.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const referenced = new Set<string>();
+
+		for (const relation of this.schema.relations) {
+			// Many-to-one relations, including the junctions of many-to-many relations, and many-to-any junctions
+			const isManyToOne = relation.related_collection === 'directus_files';
+
+			const manyToAnyField = relation.meta?.one_allowed_collections?.includes('directus_files')
+				? relation.meta.one_collection_field
+				: null;
+
+			// Files that are linked to an item through a custom many-to-one field of directus_files itself
+			if (relation.collection === 'directus_files' && isManyToOne === false && relation.meta?.system !== true) {
+				const rows = await this.knex.select('id').from('directus_files').whereNotNull(relation.field);
+
+				for (const row of rows) {
+					referenced.add(String(row.id));
+				}
+
+				continue;
+			}
+
+			if (isManyToOne === false && !manyToAnyField) continue;
+
+			const query = this.knex.distinct(relation.field).from(relation.collection).whereNotNull(relation.field);
+
+			// Many-to-any junctions hold the collection of each item next to its key
+			if (manyToAnyField) {
+				query.where(manyToAnyField, 'directus_files');
+			}
+
+			for (const row of await query) {
+				referenced.add(String(row[relation.field]));
+			}
+		}
+
+		// Content versions that weren't promoted yet hold their changes, including new file references, in the deltas of
+		// their saves
+		const versionSaves = await this.knex.select('delta').from('directus_revisions').whereNotNull('version');
+
+		for (const { delta } of versionSaves) {
+			addStrings(typeof delta === 'string' ? parseJSON(delta) : delta, referenced);
+		}
+
+		const notifications = await this.knex
+			.distinct('item')
+			.from('directus_notifications')
+			.where('collection', 'directus_files')
+			.whereNotNull('item');
+
+		for (const { item } of notifications) {
+			referenced.add(String(item));
+		}
+
+		const excludedFolders = toArray(env['FILES_ORPHAN_CLEANUP_EXCLUDED_FOLDERS'] as string | string[]).filter(Boolean);
+
+		if (excludedFolders.length > 0) {
+			const folders: { id: string; parent: string | null }[] = await this.knex
+				.select('id', 'parent')
+				.from('directus_folders');
+
+			// Add the subfolders of the excluded folders, level by level
+			for (let index = 0; index < excludedFolders.length; index++) {
+				for (const folder of folders) {
+					if (folder.parent === excludedFolders[index] && excludedFolders.includes(folder.id) === false) {
+						excludedFolders.push(folder.id);
+					}
+				}
+			}
+		}
+
+		const gracePeriodEnd = Date.now() - getMilliseconds(env['FILES_ORPHAN_CLEANUP_GRACE_PERIOD'], 0);
+
+		const files: OrphanedFile[] = await this.knex
+			.select('id', 'filename_download', 'folder', 'filesize', 'uploaded_on')
+			.from('directus_files')
+			.orderBy('uploaded_on');
+
+		return files
+			.filter((file) => referenced.has(String(file.id)) === false)
+			.filter((file) => GENERATED_FILENAME_REGEX.test(file.filename_download) === false)
+			.filter((file) => file.folder === null || excludedFolders.includes(file.folder) === false)
+			.filter((file) => file.uploaded_on === null || getTimestamp(file.uploaded_on) < gracePeriodEnd)
+			.map((file) => ({ ...file, filesize: Number(file.filesize) }));
+	}
+
+	/**
+	 * Get the storage quotas and usage of the current user, their role and the given folder
+	 */
+	async readStorageUsage(folder: string | null): Promise<StorageQuota[]> {
+		if (!this.accountability?.user) {
+			throw new ForbiddenError();
+		}
+
+		if (folder && this.accountability.admin !== true) {
+			const authorizationService = new AuthorizationService({
+				knex: this.knex,
+				accountability: this.accountability,
+				schema: this.schema,
+			});
+
+			await authorizationService.checkAccess('read', 'directus_folders', folder);
+		}
+
+		return await getStorageQuotas(
+			{ user: this.accountability.user, role: this.accountability.role, folder },
+			{ database: this.knex },
+		);
+	}
+
+	/**
+	 * Remove the derivatives that were cropped around the previous focal point of the files, and generate those of the
+	 * eager presets again
+	 */
+	private async refreshDerivatives(keys: PrimaryKey[]): Promise<void> {
+		const assetsService = new AssetsService({ knex: this.knex, schema: this.schema });
+
+		await assetsService.purgeDerivatives(keys);
+		assetsService.queueDerivatives(keys);
+	}
+
+	/**
+	 * Get the other files that use the same content in the storage location
+	 */
+	private async getSharingFiles(
+		storage: string,
+		filenameDisk: string,
+		excludeKeys: PrimaryKey[],
+	): Promise<PrimaryKey[]> {
+		const files = await this.knex
+			.select('id')
+			.from('directus_files')
+			.where({ storage, filename_disk: filenameDisk })
+			.whereNotIn('id', excludeKeys);
+
+		return files.map(({ id }) => id);
+	}
+
+	/**
+	 * Copy content that is about to be replaced to the other files that share it
+	 */
+	private async detachSharedContent(storage: string, filenameDisk: string, primaryKey: PrimaryKey): Promise<void> {
+		const sharingFiles = await this.getSharingFiles(storage, filenameDisk, [primaryKey]);
+
+		if (sharingFiles.length === 0) return;
+
+		const disk = (await getStorage()).location(storage);
+		const copyFilenameDisk = sharingFiles[0] + path.extname(filenameDisk);
+
+		await disk.copy(filenameDisk, copyFilenameDisk);
+
+		await this.knex('directus_files')
+			.update({ filename_disk: copyFilenameDisk })
+			.where({ storage, filename_disk: filenameDisk })
+			.whereIn('id', sharingFiles);
+	}
 }
 
 function decompressResponse(stream: Readable, headers: AxiosResponse['headers']) {
@@ -515,3 +927,27 @@ function decompressResponse(stream: Readable, headers: AxiosResponse['headers'])
 		return data.length > 0 && (data[0] & DEFLATE_ALGORITHM_HEADER) === 0;
 	}
 }
+
+/**
+ * Add all strings within the given value to the set, to find the keys of items in arbitrary data
+ */
+function addStrings(value: unknown, strings: Set<string>): void {
+	if (typeof value === 'string' || typeof value === 'number') {
+		strings.add(String(value));
+	} else if (Array.isArray(value)) {
+		value.forEach((entry) => addStrings(entry, strings));
+	} else if (value !== null && typeof value === 'object') {
+		Object.values(value).forEach((entry) => addStrings(entry, strings));
+	}
+}
+
+/**
+ * SQLite stores the default timestamps of a column as UTC, but without a time zone
+ */
+function getTimestamp(date: string | Date): number {
+	if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(date)) {
+		return new Date(date.replace(' ', 'T') + 'Z').getTime();
+	}
+
+	return new Date(date).getTime();
+}
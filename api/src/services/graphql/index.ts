@@ -2508,6 +2508,28 @@ export class GraphQLService {
 					return true;
 				},
 			},
+			users_me_tfa_recovery_codes: {
+				type: new GraphQLList(GraphQLString),
+				args: {
+					otp: new GraphQLNonNull(GraphQLString),
+				},
+				resolve: async (_, args) => {
+					if (!this.accountability?.user) return null;
+
+					const service = new TFAService({
+						accountability: this.accountability,
+						schema: this.schema,
+					});
+
+					const otpValid = await service.verifyOTP(this.accountability.user, args['otp']);
+
+					if (otpValid === false) {
+						throw new InvalidPayloadError({ reason: `"otp" is invalid` });
+					}
+
+					return await service.generateRecoveryCodes(this.accountability.user);
+				},
+			},
 			users_me_tfa_disable: {
 				type: GraphQLBoolean,
 				args: {
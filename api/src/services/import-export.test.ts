@@ -0,0 +1,71 @@
+import ExcelJS from 'exceljs';
+import knex, { type Knex } from 'knex';
+import { MockClient } from 'knex-mock-client';
+import { beforeAll, describe, expect, test, vi } from 'vitest';
+import { ExportService } from './import-export.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({ EMAIL_TEMPLATES_PATH: './templates' }),
+}));
+
+let db: Knex;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+});
+
+const schema = {
+	collections: {
+		settings: {
+			fields: {
+				id: { field: 'id', type: 'integer' },
+				title: { field: 'title', type: 'string' },
+			},
+		},
+	},
+} as any;
+
+async function readRows(buffer: Buffer) {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.load(buffer);
+
+	const rows: unknown[] = [];
+	workbook.worksheets[0]!.eachRow((row) => rows.push((row.values as unknown[]).slice(1)));
+
+	return rows;
+}
+
+describe('transformXLSX', () => {
+	test('exports a single item, as responded by single item routes and singletons', async () => {
+		const service = new ExportService({ knex: db, schema });
+		const buffer = await service.transformXLSX({ id: 1, title: 'Settings' }, 'settings');
+
+		expect(await readRows(buffer)).toEqual([
+			['id', 'title'],
+			[1, 'Settings'],
+		]);
+	});
+
+	test('exports an array of items', async () => {
+		const service = new ExportService({ knex: db, schema });
+
+		const buffer = await service.transformXLSX(
+			[
+				{ id: 1, title: 'First' },
+				{ id: 2, title: 'Second' },
+			],
+			'settings',
+		);
+
+		expect(await readRows(buffer)).toEqual([
+			['id', 'title'],
+			[1, 'First'],
+			[2, 'Second'],
+		]);
+	});
+});
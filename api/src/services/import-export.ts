@@ -2,29 +2,44 @@ import { useEnv } from '@directus/env';
 import {
 	ForbiddenError,
 	InvalidPayloadError,
+	RecordNotUniqueError,
 	ServiceUnavailableError,
 	UnsupportedMediaTypeError,
 } from '@directus/errors';
 import { isSystemCollection } from '@directus/system-data';
-import type { Accountability, File, Query, SchemaOverview } from '@directus/types';
+import type { Accountability, ExportFormat, File, Filter, PrimaryKey, Query, SchemaOverview } from '@directus/types';
 import { parseJSON, toArray } from '@directus/utils';
 import { createTmpFile } from '@directus/utils/node';
 import { queue } from 'async';
 import destroyStream from 'destroy';
+import ExcelJS from 'exceljs';
+import { flatten } from 'flat';
 import { dump as toYAML } from 'js-yaml';
 import { parse as toXML } from 'js2xmlparser';
 import { Parser as CSVParser, transforms as CSVTransforms } from 'json2csv';
 import type { Knex } from 'knex';
+import { isEqual, mapValues } from 'lodash-es';
 import { createReadStream, createWriteStream } from 'node:fs';
 import { appendFile } from 'node:fs/promises';
-import type { Readable, Stream } from 'node:stream';
+import { Readable, type Stream } from 'node:stream';
 import Papa from 'papaparse';
 import StreamArray from 'stream-json/streamers/StreamArray.js';
+import { EXPORT_MIME_TYPES } from '../constants.js';
 import getDatabase from '../database/index.js';
 import emitter from '../emitter.js';
 import { useLogger } from '../logger.js';
-import type { AbstractServiceOptions, ActionEventParams } from '../types/index.js';
+import type {
+	AbstractServiceOptions,
+	ActionEventParams,
+	ImportOptions,
+	ImportReport,
+	MutationOptions,
+} from '../types/index.js';
 import { getDateFormatted } from '../utils/get-date-formatted.js';
+import { getExportColumns } from '../utils/get-export-columns.js';
+import { getImportRowErrors } from '../utils/get-import-row-errors.js';
+import { getXLSXCellValue, getXLSXNumberFormat } from '../utils/get-xlsx-cell-value.js';
+import { parseXLSXCellValue } from '../utils/parse-xlsx-cell-value.js';
 import { transaction } from '../utils/transaction.js';
 import { Url } from '../utils/url.js';
 import { userName } from '../utils/user-name.js';
@@ -36,7 +51,9 @@ import { UsersService } from './users.js';
 const env = useEnv();
 const logger = useLogger();
 
-type ExportFormat = 'csv' | 'json' | 'xml' | 'yaml';
+type ImportFormat = 'csv' | 'json' | 'xlsx';
+
+type SaveRow = (row: Record<string, unknown>, rowNumber: number) => Promise<void>;
 
 export class ImportService {
 	knex: Knex;
@@ -49,9 +66,23 @@ export class ImportService {
 		this.schema = options.schema;
 	}
 
-	async import(collection: string, mimetype: string, stream: Readable): Promise<void> {
+	async import(collection: string, mimetype: string, stream: Readable, options?: ImportOptions): Promise<ImportReport> {
 		if (this.accountability?.admin !== true && isSystemCollection(collection)) throw new ForbiddenError();
 
+		const mode = options?.mode ?? 'upsert';
+
+		if (!['insert', 'update', 'upsert'].includes(mode)) {
+			throw new InvalidPayloadError({ reason: `Import mode has to be one of "insert", "update" or "upsert"` });
+		}
+
+		for (const field of options?.matchFields ?? []) {
+			const fieldOverview = this.schema.collections[collection]!.fields[field];
+
+			if (!fieldOverview || fieldOverview.type === 'alias') {
+				throw new InvalidPayloadError({ reason: `Match field "${field}" doesn't exist in collection "${collection}"` });
+			}
+		}
+
 		const createPermissions = this.accountability?.permissions?.find(
 			(permission) => permission.collection === collection && permission.action === 'create',
 		);
@@ -60,41 +91,39 @@ export class ImportService {
 			(permission) => permission.collection === collection && permission.action === 'update',
 		);
 
-		if (this.accountability?.admin !== true && (!createPermissions || !updatePermissions)) {
+		if (
+			this.accountability?.admin !== true &&
+			((mode !== 'update' && !createPermissions) || (mode !== 'insert' && !updatePermissions))
+		) {
 			throw new ForbiddenError();
 		}
 
 		switch (mimetype) {
 			case 'application/json':
-				return await this.importJSON(collection, stream);
+				return await this.importJSON(collection, stream, options);
 			case 'text/csv':
 			case 'application/vnd.ms-excel':
-				return await this.importCSV(collection, stream);
+				return await this.importCSV(collection, stream, options);
+			case EXPORT_MIME_TYPES.xlsx:
+				return await this.importXLSX(collection, stream, options);
 			default:
 				throw new UnsupportedMediaTypeError({ mediaType: mimetype, where: 'file import' });
 		}
 	}
 
-	importJSON(collection: string, stream: Readable): Promise<void> {
+	importJSON(collection: string, stream: Readable, options?: ImportOptions): Promise<ImportReport> {
 		const extractJSON = StreamArray.withParser();
-		const nestedActionEvents: ActionEventParams[] = [];
-
-		return transaction(this.knex, (trx) => {
-			const service = new ItemsService(collection, {
-				knex: trx,
-				schema: this.schema,
-				accountability: this.accountability,
-			});
 
-			const saveQueue = queue(async (value: Record<string, unknown>) => {
-				return await service.upsertOne(value, { bypassEmitAction: (params) => nestedActionEvents.push(params) });
+		return this.runImport(collection, 'json', options, (saveRow) => {
+			const saveQueue = queue(async ({ value, rowNumber }: { value: Record<string, unknown>; rowNumber: number }) => {
+				return await saveRow(value, rowNumber);
 			});
 
 			return new Promise<void>((resolve, reject) => {
 				stream.pipe(extractJSON);
 
-				extractJSON.on('data', ({ value }: Record<string, any>) => {
-					saveQueue.push(value);
+				extractJSON.on('data', ({ key, value }: Record<string, any>) => {
+					saveQueue.push({ value, rowNumber: key + 1 });
 				});
 
 				extractJSON.on('error', (err: Error) => {
@@ -109,11 +138,10 @@ export class ImportService {
 				});
 
 				extractJSON.on('end', () => {
-					saveQueue.drain(() => {
-						for (const nestedActionEvent of nestedActionEvents) {
-							emitter.emitAction(nestedActionEvent.event, nestedActionEvent.meta, nestedActionEvent.context);
-						}
+					// In case of empty JSON file
+					if (!saveQueue.started) return resolve();
 
+					saveQueue.drain(() => {
 						return resolve();
 					});
 				});
@@ -121,21 +149,13 @@ export class ImportService {
 		});
 	}
 
-	async importCSV(collection: string, stream: Readable): Promise<void> {
+	async importCSV(collection: string, stream: Readable, options?: ImportOptions): Promise<ImportReport> {
 		const tmpFile = await createTmpFile().catch(() => null);
 		if (!tmpFile) throw new Error('Failed to create temporary file for import');
 
-		const nestedActionEvents: ActionEventParams[] = [];
-
-		return transaction(this.knex, (trx) => {
-			const service = new ItemsService(collection, {
-				knex: trx,
-				schema: this.schema,
-				accountability: this.accountability,
-			});
-
-			const saveQueue = queue(async (value: Record<string, unknown>) => {
-				return await service.upsertOne(value, { bypassEmitAction: (action) => nestedActionEvents.push(action) });
+		return this.runImport(collection, 'csv', options, (saveRow) => {
+			const saveQueue = queue(async ({ value, rowNumber }: { value: Record<string, unknown>; rowNumber: number }) => {
+				return await saveRow(value, rowNumber);
 			});
 
 			const transform = (value: string) => {
@@ -159,6 +179,9 @@ export class ImportService {
 				transform,
 			};
 
+			// The first row holds the header
+			let rowNumber = 1;
+
 			return new Promise<void>((resolve, reject) => {
 				const streams: Stream[] = [stream];
 
@@ -201,7 +224,7 @@ export class ImportService {
 									}
 								}
 
-								saveQueue.push(obj);
+								saveQueue.push({ value: obj, rowNumber: ++rowNumber });
 							})
 							.on('error', (error) => {
 								cleanup();
@@ -214,10 +237,6 @@ export class ImportService {
 								if (!saveQueue.started) return resolve();
 
 								saveQueue.drain(() => {
-									for (const nestedActionEvent of nestedActionEvents) {
-										emitter.emitAction(nestedActionEvent.event, nestedActionEvent.meta, nestedActionEvent.context);
-									}
-
 									return resolve();
 								});
 							});
@@ -234,6 +253,261 @@ export class ImportService {
 			});
 		});
 	}
+
+	async importXLSX(collection: string, stream: Readable, options?: ImportOptions): Promise<ImportReport> {
+		const workbook = new ExcelJS.Workbook();
+
+		try {
+			await workbook.xlsx.read(stream);
+		} catch (error: any) {
+			throw new InvalidPayloadError({ reason: `Couldn't read spreadsheet: ${error.message}` });
+		}
+
+		const worksheet = this.getWorksheet(workbook, options?.sheet);
+		const headerRowNumber = options?.headerRow ?? 1;
+
+		if (!Number.isInteger(headerRowNumber) || headerRowNumber < 1) {
+			throw new InvalidPayloadError({ reason: `Header row has to be a positive integer` });
+		}
+
+		const fields = this.schema.collections[collection]!.fields;
+
+		// Map the column numbers to the fields, based on the header row
+		const columns = new Map<number, string>();
+
+		worksheet.getRow(headerRowNumber).eachCell((cell, columnNumber) => {
+			const header = cell.text.trim();
+
+			if (header.length === 0) return;
+
+			const field =
+				header in fields
+					? header
+					: Object.keys(fields).find((field) => field.toLowerCase() === header.toLowerCase()) ?? header;
+
+			columns.set(columnNumber, field);
+		});
+
+		const rows: { item: Record<string, unknown>; rowNumber: number }[] = [];
+
+		worksheet.eachRow((row, rowNumber) => {
+			if (rowNumber <= headerRowNumber) return;
+
+			const item: Record<string, unknown> = {};
+
+			for (const [columnNumber, field] of columns) {
+				const value = parseXLSXCellValue(row.getCell(columnNumber).value, fields[field]?.type);
+
+				if (value !== undefined) {
+					item[field] = value;
+				}
+			}
+
+			if (Object.keys(item).length > 0) {
+				rows.push({ item, rowNumber });
+			}
+		});
+
+		return this.runImport(collection, 'xlsx', options, async (saveRow) => {
+			for (const { item, rowNumber } of rows) {
+				await saveRow(item, rowNumber);
+			}
+		});
+	}
+
+	private getWorksheet(workbook: ExcelJS.Workbook, sheet?: string | number): ExcelJS.Worksheet {
+		if (sheet === undefined || sheet === '') {
+			const worksheet = workbook.worksheets[0];
+			if (!worksheet) throw new InvalidPayloadError({ reason: `Spreadsheet doesn't contain any sheets` });
+			return worksheet;
+		}
+
+		const worksheet =
+			workbook.worksheets.find((worksheet) => worksheet.name === String(sheet)) ??
+			(Number.isInteger(Number(sheet)) ? workbook.worksheets[Number(sheet) - 1] : undefined);
+
+		if (!worksheet) throw new InvalidPayloadError({ reason: `Sheet "${sheet}" doesn't exist in the spreadsheet` });
+
+		return worksheet;
+	}
+
+	/**
+	 * Run the given import handler within a transaction. By default, the whole import is aborted on the first row that
+	 * fails to save. When doing a dry run or skipping invalid rows, every row is saved in its own savepoint instead, so
+	 * the errors of all rows can be collected in the report
+	 */
+	private async runImport(
+		collection: string,
+		format: ImportFormat,
+		options: ImportOptions | undefined,
+		handler: (saveRow: SaveRow) => Promise<void>,
+	): Promise<ImportReport> {
+		const dryRun = options?.dryRun === true;
+		const collectErrors = dryRun || options?.skipInvalid === true;
+
+		const report: ImportReport = { total: 0, valid: 0, invalid: 0, errors: [], rejected_file: null };
+		const rejectedRows: Record<string, unknown>[] = [];
+		const nestedActionEvents: ActionEventParams[] = [];
+
+		const mutationOptions = (actionEvents: ActionEventParams[]): MutationOptions => ({
+			bypassEmitAction: (params) => actionEvents.push(params),
+			...(dryRun && { autoPurgeCache: false }),
+		});
+
+		const run = async (trx: Knex) => {
+			const service = new ItemsService(collection, {
+				knex: trx,
+				schema: this.schema,
+				accountability: this.accountability,
+			});
+
+			await handler(async (row, rowNumber) => {
+				report.total++;
+
+				if (!collectErrors) {
+					await this.saveItem(service, row, options, mutationOptions(nestedActionEvents));
+					report.valid++;
+					return;
+				}
+
+				const rowActionEvents: ActionEventParams[] = [];
+
+				try {
+					await trx.transaction(async (savepoint) => {
+						const service = new ItemsService(collection, {
+							knex: savepoint,
+							schema: this.schema,
+							accountability: this.accountability,
+						});
+
+						await this.saveItem(service, row, options, mutationOptions(rowActionEvents));
+					});
+				} catch (error) {
+					report.errors.push(...getImportRowErrors(rowNumber, error));
+					report.invalid++;
+					rejectedRows.push(row);
+					return;
+				}
+
+				nestedActionEvents.push(...rowActionEvents);
+				report.valid++;
+			});
+		};
+
+		if (dryRun) {
+			// Always use a (nested) transaction of our own, as it's rolled back at the end
+			await this.knex.transaction(async (trx) => {
+				await run(trx);
+				await trx.rollback();
+			});
+
+			return report;
+		}
+
+		await transaction(this.knex, run);
+
+		for (const nestedActionEvent of nestedActionEvents) {
+			emitter.emitAction(nestedActionEvent.event, nestedActionEvent.meta, nestedActionEvent.context);
+		}
+
+		if (rejectedRows.length > 0) {
+			// The valid rows are saved already, so the report is returned even if the user isn't allowed to upload files
+			try {
+				report.rejected_file = await this.saveRejectedRows(collection, format, rejectedRows);
+			} catch (error) {
+				logger.warn(error, `Couldn't save the rejected rows of the import into "${collection}"`);
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Create or update the item for a single import row. The existing item is looked up by the match fields, which
+	 * default to the primary key. Permissions are checked by the lookup, create and update of the items service
+	 */
+	private async saveItem(
+		service: ItemsService,
+		row: Record<string, unknown>,
+		options: ImportOptions | undefined,
+		mutationOptions: MutationOptions,
+	): Promise<PrimaryKey> {
+		const { primary } = this.schema.collections[service.collection]!;
+		const matchFields = options?.matchFields?.length ? options.matchFields : [primary];
+		const mode = options?.mode ?? 'upsert';
+
+		if (mode === 'upsert' && isEqual(matchFields, [primary])) {
+			return await service.upsertOne(row, mutationOptions);
+		}
+
+		let primaryKey: PrimaryKey | undefined;
+
+		if (matchFields.every((field) => row[field] !== undefined && row[field] !== null)) {
+			// Only items the user is allowed to read can be matched
+			const matches = await service.readByQuery(
+				{
+					fields: [primary],
+					filter: { _and: matchFields.map((field) => ({ [field]: { _eq: row[field] } })) } as Filter,
+					limit: 2,
+				},
+				{ emitEvents: false },
+			);
+
+			if (matches.length > 1) {
+				throw new InvalidPayloadError({ reason: `Multiple items match the values of "${matchFields.join('", "')}"` });
+			}
+
+			primaryKey = matches[0]?.[primary];
+		}
+
+		if (primaryKey !== undefined) {
+			if (mode === 'insert') {
+				throw new RecordNotUniqueError({
+					collection: service.collection,
+					field: matchFields.length === 1 ? matchFields[0]! : null,
+				});
+			}
+
+			return await service.updateOne(primaryKey, row, mutationOptions);
+		}
+
+		if (mode === 'update') {
+			throw new InvalidPayloadError({ reason: `No item matches the values of "${matchFields.join('", "')}"` });
+		}
+
+		return await service.createOne(row, mutationOptions);
+	}
+
+	/**
+	 * Save the rows that were rejected during an import to a new file, so they can be corrected and imported again
+	 */
+	private async saveRejectedRows(
+		collection: string,
+		format: ImportFormat,
+		rows: Record<string, unknown>[],
+	): Promise<string> {
+		const exportService = new ExportService({
+			accountability: this.accountability,
+			schema: this.schema,
+		});
+
+		const filesService = new FilesService({
+			accountability: this.accountability,
+			schema: this.schema,
+		});
+
+		const data =
+			format === 'xlsx' ? await exportService.transformXLSX(rows, collection) : exportService.transform(rows, format);
+
+		const title = `import-${collection}-rejected-${getDateFormatted()}`;
+
+		return (await filesService.uploadOne(Readable.from([data]), {
+			title,
+			filename_download: `${title}.${format}`,
+			storage: toArray(env['STORAGE_LOCATIONS'] as string)[0]!,
+			type: EXPORT_MIME_TYPES[format],
+		})) as string;
+	}
 }
 
 export class ExportService {
@@ -266,73 +540,7 @@ export class ExportService {
 		try {
 			if (!tmpFile) throw new Error('Failed to create temporary file for export');
 
-			const mimeTypes = {
-				csv: 'text/csv',
-				json: 'application/json',
-				xml: 'text/xml',
-				yaml: 'text/yaml',
-			};
-
-			const database = getDatabase();
-
-			await transaction(database, async (trx) => {
-				const service = new ItemsService(collection, {
-					accountability: this.accountability,
-					schema: this.schema,
-					knex: trx,
-				});
-
-				const { primary } = this.schema.collections[collection]!;
-
-				const sort = query.sort ?? [];
-
-				if (sort.includes(primary) === false) {
-					sort.push(primary);
-				}
-
-				const totalCount = await service
-					.readByQuery({
-						...query,
-						aggregate: {
-							count: ['*'],
-						},
-					})
-					.then((result) => Number(result?.[0]?.['count'] ?? 0));
-
-				const count = query.limit && query.limit > -1 ? Math.min(totalCount, query.limit) : totalCount;
-
-				const requestedLimit = query.limit ?? -1;
-				const batchesRequired = Math.ceil(count / (env['EXPORT_BATCH_SIZE'] as number));
-
-				let readCount = 0;
-
-				for (let batch = 0; batch < batchesRequired; batch++) {
-					let limit = env['EXPORT_BATCH_SIZE'] as number;
-
-					if (requestedLimit > 0 && (env['EXPORT_BATCH_SIZE'] as number) > requestedLimit - readCount) {
-						limit = requestedLimit - readCount;
-					}
-
-					const result = await service.readByQuery({
-						...query,
-						sort,
-						limit,
-						offset: batch * (env['EXPORT_BATCH_SIZE'] as number),
-					});
-
-					readCount += result.length;
-
-					if (result.length) {
-						await appendFile(
-							tmpFile.path,
-							this.transform(result, format, {
-								includeHeader: batch === 0,
-								includeFooter: batch + 1 === batchesRequired,
-							}),
-						);
-					}
-				}
-			});
+			await this.writeExport(collection, query, format, tmpFile.path);
 
 			const filesService = new FilesService({
 				accountability: this.accountability,
@@ -349,7 +557,7 @@ export class ExportService {
 				title: options?.file?.title ?? title,
 				filename_download: options?.file?.filename_download ?? filename,
 				storage: options?.file?.storage ?? storage,
-				type: mimeTypes[format],
+				type: EXPORT_MIME_TYPES[format],
 			};
 
 			const savedFile = await filesService.uploadOne(createReadStream(tmpFile.path), fileWithDefaults);
@@ -406,6 +614,93 @@ Your export of ${collection} is ready. <a href="${href}">Click here to view.</a>
 		}
 	}
 
+	/**
+	 * Write the query results to the given file. Will query in batches, and keep appending the file
+	 * until all the data is retrieved
+	 */
+	async writeExport(collection: string, query: Partial<Query>, format: ExportFormat, path: string): Promise<void> {
+		const database = getDatabase();
+
+		await transaction(database, async (trx) => {
+			const service = new ItemsService(collection, {
+				accountability: this.accountability,
+				schema: this.schema,
+				knex: trx,
+			});
+
+			const { primary } = this.schema.collections[collection]!;
+
+			const sort = query.sort ?? [];
+
+			if (sort.includes(primary) === false) {
+				sort.push(primary);
+			}
+
+			const totalCount = await service
+				.readByQuery({
+					...query,
+					aggregate: {
+						count: ['*'],
+					},
+				})
+				.then((result) => Number(result?.[0]?.['count'] ?? 0));
+
+			const count = query.limit && query.limit > -1 ? Math.min(totalCount, query.limit) : totalCount;
+
+			const requestedLimit = query.limit ?? -1;
+			const batchesRequired = Math.ceil(count / (env['EXPORT_BATCH_SIZE'] as number));
+
+			let readCount = 0;
+
+			// Spreadsheets are binary, so they're streamed into the tmp file by a workbook writer instead
+			const workbook =
+				format === 'xlsx' ? new ExcelJS.stream.xlsx.WorkbookWriter({ filename: path, useStyles: true }) : null;
+
+			const worksheet = workbook?.addWorksheet(collection);
+
+			// The header row is written along with the first batch, so it has to contain the columns of all batches
+			const columns = getExportColumns(
+				this.schema,
+				collection,
+				query.fields ?? ['*'],
+				this.accountability?.admin ? null : this.accountability?.permissions ?? null,
+			);
+
+			for (let batch = 0; batch < batchesRequired; batch++) {
+				let limit = env['EXPORT_BATCH_SIZE'] as number;
+
+				if (requestedLimit > 0 && (env['EXPORT_BATCH_SIZE'] as number) > requestedLimit - readCount) {
+					limit = requestedLimit - readCount;
+				}
+
+				const result = await service.readByQuery({
+					...query,
+					sort,
+					limit,
+					offset: batch * (env['EXPORT_BATCH_SIZE'] as number),
+				});
+
+				readCount += result.length;
+
+				if (result.length) {
+					if (worksheet) {
+						this.addXLSXRows(worksheet, result, collection, columns);
+					} else {
+						await appendFile(
+							path,
+							this.transform(result, format, {
+								includeHeader: batch === 0,
+								includeFooter: batch + 1 === batchesRequired,
+							}),
+						);
+					}
+				}
+			}
+
+			await workbook?.commit();
+		});
+	}
+
 	/**
 	 * Transform a given input object / array to the given type
 	 */
@@ -468,4 +763,65 @@ Your export of ${collection} is ready. <a href="${href}">Click here to view.</a>
 
 		throw new ServiceUnavailableError({ service: 'export', reason: `Illegal export type used: "${format}"` });
 	}
+
+	/**
+	 * Transform a given item or array of items to a spreadsheet. Cells are typed based on the fields of the given
+	 * collection
+	 */
+	async transformXLSX(input: Record<string, any> | Record<string, any>[] | null, collection?: string): Promise<Buffer> {
+		const workbook = new ExcelJS.Workbook();
+		const worksheet = workbook.addWorksheet(collection || 'Export');
+
+		// Single item routes and singletons respond with an item instead of an array of items
+		this.addXLSXRows(worksheet, input ? toArray(input) : [], collection);
+
+		return Buffer.from(await workbook.xlsx.writeBuffer());
+	}
+
+	/**
+	 * Append the given items as rows to the worksheet. The columns are set when the first set of items is added, from
+	 * the given columns and the (flattened) fields of those items
+	 */
+	private addXLSXRows(
+		worksheet: ExcelJS.Worksheet,
+		input: Record<string, any>[],
+		collection?: string,
+		columns: string[] = [],
+	) {
+		const fields = collection ? this.schema.collections[collection]?.fields ?? {} : {};
+
+		const rows = input.map((item) => {
+			// JSON fields are kept in a single cell, instead of spreading them over multiple columns
+			const row = mapValues(item, (value, key) =>
+				fields[key]?.type === 'json' ? getXLSXCellValue(value, fields[key]?.type) : value,
+			);
+
+			return flatten<Record<string, any>, Record<string, unknown>>(row, { safe: true });
+		});
+
+		if (!worksheet.columns) {
+			const keys = new Set(columns);
+
+			for (const key of rows.flatMap((row) => Object.keys(row))) {
+				// Empty relations don't get a column of their own when their nested fields have one
+				if (columns.some((column) => column.startsWith(`${key}.`)) === false) keys.add(key);
+			}
+
+			worksheet.columns = [...keys].map((key) => {
+				const numFmt = getXLSXNumberFormat(fields[key]?.type);
+				return { header: key, key, ...(numFmt && { style: { numFmt } }) };
+			});
+		}
+
+		for (const row of rows) {
+			const values: Record<string, ExcelJS.CellValue> = {};
+
+			for (const [key, value] of Object.entries(row)) {
+				values[key] = getXLSXCellValue(value, fields[key]?.type);
+			}
+
+			// Committing is a no-op for regular worksheets, but frees up memory when streaming
+			worksheet.addRow(values).commit();
+		}
+	}
 }
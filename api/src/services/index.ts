@@ -1,11 +1,14 @@
+export * from './access-tokens.js';
 export * from './activity.js';
 export * from './assets.js';
 export * from './authentication.js';
 export * from './authorization.js';
 export * from './collections.js';
 export * from './dashboards.js';
+export * from './exports.js';
 export * from './extensions.js';
 export * from './fields.js';
+export * from './file-uploads.js';
 export * from './files.js';
 export * from './flows.js';
 export * from './folders.js';
@@ -25,6 +28,7 @@ export * from './revisions.js';
 export * from './roles.js';
 export * from './schema.js';
 export * from './server.js';
+export * from './sessions.js';
 export * from './settings.js';
 export * from './shares.js';
 export * from './specifications.js';
@@ -33,5 +37,6 @@ export * from './translations.js';
 export * from './users.js';
 export * from './utils.js';
 export * from './versions.js';
+export * from './webauthn.js';
 export * from './webhooks.js';
 export * from './websocket.js';
@@ -1,3 +1,4 @@
+import { InvalidPayloadError } from '@directus/errors';
 import { randomIdentifier, randomInteger, randomUUID } from '@directus/random';
 import type {
 	Accountability,
@@ -154,6 +155,32 @@ describe('Services / PermissionsService', () => {
 		});
 	});
 
+	describe('conditions', () => {
+		let service: PermissionsService;
+
+		beforeEach(() => {
+			service = new PermissionsService({
+				knex: db,
+				schema: { collections: { directus_permissions: directusPermissionsSchema }, relations: [] } as any,
+			});
+		});
+
+		test.each([
+			{ active_from: 'invalid' },
+			{ active_from: '2024-07-01T00:00:00Z', active_until: '2024-06-01T00:00:00Z' },
+			{ schedule: { days: [7] } },
+			{ schedule: { start: '9:00' } },
+			{ schedule: { timezone: 'Invalid/Timezone' } },
+			{ ip_access: ['192.168.*.*'] },
+		])('rejects invalid conditions %j', async (data) => {
+			await expect(service.createOne({ collection: 'articles', action: 'read', ...data })).rejects.toBeInstanceOf(
+				InvalidPayloadError,
+			);
+
+			await expect(service.updateMany([1], data)).rejects.toBeInstanceOf(InvalidPayloadError);
+		});
+	});
+
 	describe('#getItemPermissions', () => {
 		const collection = randomIdentifier();
 		const primaryKeyField = 'id';
@@ -1,8 +1,17 @@
-import { ForbiddenError } from '@directus/errors';
-import type { Item, ItemPermissions, Permission, PermissionsAction, PrimaryKey, Query } from '@directus/types';
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import type {
+	Item,
+	ItemPermissions,
+	Permission,
+	PermissionSchedule,
+	PermissionsAction,
+	PrimaryKey,
+	Query,
+} from '@directus/types';
 import type Keyv from 'keyv';
 import { clearSystemCache, getCache } from '../../cache.js';
 import type { AbstractServiceOptions, MutationOptions } from '../../types/index.js';
+import { isIpAccessValid } from '../../utils/is-ip-access-valid.js';
 import { AuthorizationService } from '../authorization.js';
 import type { QueryOptions } from '../items.js';
 import { ItemsService } from '../items.js';
@@ -51,6 +60,8 @@ export class PermissionsService extends ItemsService {
 	}
 
 	override async createOne(data: Partial<Item>, opts?: MutationOptions) {
+		this.validate(data);
+
 		const res = await super.createOne(data, opts);
 		await clearSystemCache({ autoPurgeCache: opts?.autoPurgeCache });
 
@@ -62,6 +73,8 @@ export class PermissionsService extends ItemsService {
 	}
 
 	override async createMany(data: Partial<Item>[], opts?: MutationOptions) {
+		data.forEach((item) => this.validate(item));
+
 		const res = await super.createMany(data, opts);
 		await clearSystemCache({ autoPurgeCache: opts?.autoPurgeCache });
 
@@ -73,6 +86,8 @@ export class PermissionsService extends ItemsService {
 	}
 
 	override async updateBatch(data: Partial<Item>[], opts?: MutationOptions) {
+		data.forEach((item) => this.validate(item));
+
 		const res = await super.updateBatch(data, opts);
 		await clearSystemCache({ autoPurgeCache: opts?.autoPurgeCache });
 
@@ -84,6 +99,8 @@ export class PermissionsService extends ItemsService {
 	}
 
 	override async updateMany(keys: PrimaryKey[], data: Partial<Item>, opts?: MutationOptions) {
+		this.validate(data);
+
 		const res = await super.updateMany(keys, data, opts);
 		await clearSystemCache({ autoPurgeCache: opts?.autoPurgeCache });
 
@@ -95,6 +112,8 @@ export class PermissionsService extends ItemsService {
 	}
 
 	override async upsertMany(payloads: Partial<Item>[], opts?: MutationOptions) {
+		payloads.forEach((item) => this.validate(item));
+
 		const res = await super.upsertMany(payloads, opts);
 		await clearSystemCache({ autoPurgeCache: opts?.autoPurgeCache });
 
@@ -201,4 +220,52 @@ export class PermissionsService extends ItemsService {
 
 		return itemPermissions;
 	}
+
+	private validate(data: Partial<Permission>): void {
+		for (const field of ['active_from', 'active_until'] as const) {
+			const value = data[field];
+
+			if (value !== undefined && value !== null && Number.isNaN(new Date(value).getTime())) {
+				throw new InvalidPayloadError({ reason: `"${field}" has to be a valid date` });
+			}
+		}
+
+		if (data.active_from && data.active_until && new Date(data.active_from) > new Date(data.active_until)) {
+			throw new InvalidPayloadError({ reason: `"active_until" has to be after "active_from"` });
+		}
+
+		if (data.schedule !== undefined && data.schedule !== null && !isScheduleValid(data.schedule)) {
+			throw new InvalidPayloadError({
+				reason: `"schedule" has to contain days from 0 to 6, times formatted as HH:mm and a valid timezone`,
+			});
+		}
+
+		if ('ip_access' in data && !isIpAccessValid(data.ip_access)) {
+			throw new InvalidPayloadError({
+				reason: 'IP Access contains an incorrect value. Valid values are: IP addresses, IP ranges and CIDR blocks',
+			});
+		}
+	}
+}
+
+function isScheduleValid(schedule: PermissionSchedule): boolean {
+	if (typeof schedule !== 'object' || Array.isArray(schedule)) return false;
+
+	const { days, start, end, timezone } = schedule;
+
+	if (days && (!Array.isArray(days) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6))) return false;
+
+	for (const time of [start, end]) {
+		if (time && (typeof time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(time))) return false;
+	}
+
+	if (timezone) {
+		try {
+			new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		} catch {
+			return false;
+		}
+	}
+
+	return true;
 }
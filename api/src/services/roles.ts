@@ -1,7 +1,7 @@
 import { ForbiddenError, InvalidPayloadError, UnprocessableContentError } from '@directus/errors';
 import type { Alterations, Item, PrimaryKey, Query, User } from '@directus/types';
-import { getMatch } from 'ip-matching';
 import type { AbstractServiceOptions, MutationOptions } from '../types/index.js';
+import { isIpAccessValid } from '../utils/is-ip-access-valid.js';
 import { transaction } from '../utils/transaction.js';
 import { ItemsService } from './items.js';
 import { PermissionsService } from './permissions/index.js';
@@ -151,27 +151,8 @@ export class RolesService extends ItemsService {
 		return;
 	}
 
-	private isIpAccessValid(value?: any[] | null): boolean {
-		if (value === undefined) return false;
-		if (value === null) return true;
-		if (Array.isArray(value) && value.length === 0) return true;
-
-		for (const ip of value) {
-			if (typeof ip !== 'string' || ip.includes('*')) return false;
-
-			try {
-				const match = getMatch(ip);
-				if (match.type == 'IPMask') return false;
-			} catch {
-				return false;
-			}
-		}
-
-		return true;
-	}
-
 	private assertValidIpAccess(partialItem: Partial<Item>): void {
-		if ('ip_access' in partialItem && !this.isIpAccessValid(partialItem['ip_access'])) {
+		if ('ip_access' in partialItem && !isIpAccessValid(partialItem['ip_access'])) {
 			throw new InvalidPayloadError({
 				reason: 'IP Access contains an incorrect value. Valid values are: IP addresses, IP ranges and CIDR blocks',
 			});
@@ -89,6 +89,23 @@ export class ServerService {
 				max: Number.isFinite(env['QUERY_LIMIT_MAX']) ? env['QUERY_LIMIT_MAX'] : -1,
 			};
 
+			info['storage'] = {
+				locations: toArray(env['STORAGE_LOCATIONS'] as string),
+			};
+
+			if (this.accountability.admin === true) {
+				const usage: { storage: string; size: number | string | null; files: number | string }[] = await this.knex
+					.select('storage')
+					.sum('filesize as size')
+					.count('* as files')
+					.from('directus_files')
+					.groupBy('storage');
+
+				info['storage'].usage = Object.fromEntries(
+					usage.map(({ storage, size, files }) => [storage, { size: Number(size ?? 0), files: Number(files) }]),
+				);
+			}
+
 			if (toBoolean(env['WEBSOCKETS_ENABLED'])) {
 				info['websocket'] = {};
 
@@ -0,0 +1,133 @@
+import { ForbiddenError } from '@directus/errors';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { SessionsService } from './sessions.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+const user = 'user-id';
+
+describe('readByUser', () => {
+	test('returns the sessions without their tokens, marking the current session', async () => {
+		tracker.on.select('directus_sessions').responseOnce([
+			{
+				id: 'session-1',
+				ip: '127.0.0.1',
+				user_agent: 'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+				origin: 'http://localhost:8055',
+				date_created: new Date('2024-06-01T00:00:00Z'),
+				last_refresh: new Date('2024-06-01T10:00:00Z'),
+				expires: new Date('2024-06-08T10:00:00Z'),
+			},
+			{
+				id: 'session-2',
+				ip: '10.0.0.1',
+				user_agent: null,
+				origin: null,
+				date_created: null,
+				last_refresh: new Date('2024-06-02T10:00:00Z'),
+				expires: new Date('2024-06-09T10:00:00Z'),
+			},
+		]);
+
+		tracker.on.select('directus_sessions').responseOnce({ id: 'session-1' });
+
+		const service = new SessionsService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+		const sessions = await service.readByUser(user, 'current-token');
+
+		expect(sessions).toEqual([
+			{
+				id: 'session-2',
+				device: null,
+				ip: '10.0.0.1',
+				user_agent: null,
+				origin: null,
+				date_created: null,
+				last_refresh: '2024-06-02T10:00:00.000Z',
+				expires: '2024-06-09T10:00:00.000Z',
+				current: false,
+			},
+			expect.objectContaining({ id: 'session-1', device: 'Firefox on Linux', current: true }),
+		]);
+
+		expect(tracker.history.select[0]!.sql).not.toContain('"token"');
+	});
+
+	test('only allows admins to read the sessions of other users', async () => {
+		const service = new SessionsService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.readByUser('other-user')).rejects.toBeInstanceOf(ForbiddenError);
+	});
+});
+
+describe('revoke', () => {
+	test('deletes the session of the user', async () => {
+		tracker.on.delete('directus_sessions').responseOnce(2);
+
+		const service = new SessionsService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+		await service.revoke(user, 'session-1');
+
+		expect(tracker.history.delete[0]!.bindings).toEqual([user, 'session-1']);
+	});
+
+	test('throws when the session does not exist', async () => {
+		tracker.on.delete('directus_sessions').responseOnce(0);
+
+		const service = new SessionsService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.revoke(user, 'session-1')).rejects.toBeInstanceOf(ForbiddenError);
+	});
+});
+
+describe('revokeAll', () => {
+	test('keeps the current session', async () => {
+		tracker.on.select('directus_sessions').responseOnce({ id: 'session-1' });
+		tracker.on.delete('directus_sessions').responseOnce(3);
+
+		const service = new SessionsService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+		await service.revokeAll(user, 'current-token');
+
+		expect(tracker.history.delete[0]!.bindings).toEqual([user, 'session-1']);
+	});
+
+	test('allows admins to revoke all sessions of other users', async () => {
+		tracker.on.delete('directus_sessions').responseOnce(3);
+
+		const service = new SessionsService({
+			knex: db,
+			schema: {} as any,
+			accountability: { user, role: null, admin: true },
+		});
+
+		await service.revokeAll('other-user');
+
+		expect(tracker.history.delete[0]!.bindings).toEqual(['other-user']);
+	});
+
+	test('does not allow tokens restricted to a scope to revoke sessions', async () => {
+		const service = new SessionsService({
+			knex: db,
+			schema: {} as any,
+			accountability: { user, role: null, access_token_scope: [{ collection: 'products', action: 'read' }] },
+		});
+
+		await expect(service.revokeAll(user)).rejects.toBeInstanceOf(ForbiddenError);
+		expect(tracker.history.delete).toHaveLength(0);
+	});
+});
@@ -0,0 +1,100 @@
+import { ForbiddenError } from '@directus/errors';
+import type { Accountability, UserSession } from '@directus/types';
+import type { Knex } from 'knex';
+import getDatabase from '../database/index.js';
+import type { AbstractServiceOptions } from '../types/index.js';
+import { getDeviceName } from '../utils/get-device-name.js';
+
+export class SessionsService {
+	knex: Knex;
+	accountability: Accountability | null;
+
+	constructor(options: AbstractServiceOptions) {
+		this.knex = options.knex || getDatabase();
+		this.accountability = options.accountability || null;
+	}
+
+	/**
+	 * Read the active sessions of a user, most recently refreshed first. The token of the session the request was made
+	 * with can be passed to mark it as the current session
+	 */
+	async readByUser(user: string, currentToken?: string | null): Promise<UserSession[]> {
+		this.checkAccess(user);
+
+		// Sessions that have been replaced by a refresh are kept for a short grace period, but aren't separate sessions
+		const sessions = await this.knex
+			.select('id', 'ip', 'user_agent', 'origin', 'date_created', 'last_refresh', 'expires')
+			.from('directus_sessions')
+			.where({ user })
+			.whereNull('next_token')
+			.andWhere('expires', '>=', new Date());
+
+		const current = currentToken ? await this.getSessionId(currentToken) : null;
+
+		return sessions
+			.map((session) => ({
+				id: session.id,
+				device: getDeviceName(session.user_agent),
+				ip: session.ip,
+				user_agent: session.user_agent,
+				origin: session.origin,
+				date_created: toISOString(session.date_created),
+				last_refresh: toISOString(session.last_refresh),
+				expires: toISOString(session.expires)!,
+				current: current !== null ? session.id === current : false,
+			}))
+			.sort((a, b) => (b.last_refresh ?? '').localeCompare(a.last_refresh ?? ''));
+	}
+
+	/**
+	 * Revoke a session of a user, so it can no longer be refreshed or used in session mode
+	 */
+	async revoke(user: string, id: string): Promise<void> {
+		this.checkAccess(user);
+
+		const deleted = await this.knex('directus_sessions').delete().where({ user, id });
+
+		if (deleted === 0) throw new ForbiddenError();
+	}
+
+	/**
+	 * Revoke all sessions of a user, optionally except the session with the given token
+	 */
+	async revokeAll(user: string, exceptToken?: string | null): Promise<void> {
+		this.checkAccess(user);
+
+		const query = this.knex('directus_sessions').delete().where({ user });
+
+		const except = exceptToken ? await this.getSessionId(exceptToken) : null;
+
+		if (except) query.andWhere((subQuery) => subQuery.whereNot({ id: except }).orWhereNull('id'));
+
+		await query;
+	}
+
+	private async getSessionId(token: string): Promise<string | null> {
+		const session = await this.knex.select('id').from('directus_sessions').where({ token }).first();
+
+		return session?.id ?? null;
+	}
+
+	/**
+	 * Tokens restricted to a scope can't manage sessions, as they could otherwise log their user out everywhere
+	 */
+	private checkAccess(user: string): void {
+		if (!this.accountability) return;
+
+		if (
+			this.accountability.access_token_scope ||
+			(this.accountability.admin !== true && this.accountability.user !== user)
+		) {
+			throw new ForbiddenError();
+		}
+	}
+}
+
+function toISOString(value: Date | string | number | null): string | null {
+	if (value === null || value === undefined) return null;
+
+	return new Date(value).toISOString();
+}
@@ -3,6 +3,7 @@ import { ForbiddenError, InvalidCredentialsError } from '@directus/errors';
 import type { Item, PrimaryKey } from '@directus/types';
 import argon2 from 'argon2';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'node:crypto';
 import { useLogger } from '../logger.js';
 import type {
 	AbstractServiceOptions,
@@ -114,7 +115,10 @@ export class SharesService extends ItemsService {
 
 		await this.knex('directus_sessions').insert({
 			token: refreshToken,
+			id: randomUUID(),
 			expires: refreshTokenExpiration,
+			date_created: new Date(),
+			last_refresh: new Date(),
 			ip: this.accountability?.ip,
 			user_agent: this.accountability?.userAgent,
 			origin: this.accountability?.origin,
@@ -0,0 +1,117 @@
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import argon2 from 'argon2';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { TFAService } from './tfa.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({}),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient, dialect: 'pg' });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+const user = 'user-id';
+
+describe('generateRecoveryCodes', () => {
+	test('stores the hashes of the new recovery codes', async () => {
+		tracker.on.select('directus_users').responseOnce({ tfa_secret: 'secret' });
+		tracker.on.update('directus_users').responseOnce(1);
+
+		const service = new TFAService({ knex: db, schema: {} as any });
+		const codes = await service.generateRecoveryCodes(user);
+
+		expect(codes).toHaveLength(10);
+
+		for (const code of codes) {
+			expect(code).toMatch(/^[a-z0-9]{5}-[a-z0-9]{5}$/);
+		}
+
+		const hashes = JSON.parse(tracker.history.update[0]!.bindings[0]);
+
+		expect(hashes).toHaveLength(10);
+		expect(hashes).not.toContain(codes[0]);
+		expect(await argon2.verify(hashes[0], codes[0]!.replace('-', ''))).toBe(true);
+	});
+
+	test('throws when TFA is not enabled', async () => {
+		tracker.on.select('directus_users').responseOnce({ tfa_secret: null });
+
+		const service = new TFAService({ knex: db, schema: {} as any });
+
+		await expect(service.generateRecoveryCodes(user)).rejects.toBeInstanceOf(InvalidPayloadError);
+	});
+});
+
+describe('useRecoveryCode', () => {
+	test('removes the recovery code that was used', async () => {
+		const hashes = [await argon2.hash('abcde23456'), await argon2.hash('fghjk78923')];
+
+		tracker.on.select('directus_users').responseOnce({ tfa_recovery_codes: JSON.stringify(hashes) });
+		tracker.on.update('directus_users').responseOnce(1);
+
+		const service = new TFAService({ knex: db, schema: {} as any });
+
+		expect(await service.useRecoveryCode(user, 'FGHJK-78923')).toBe(true);
+		expect(tracker.history.update[0]!.bindings[0]).toBe(JSON.stringify([hashes[0]]));
+	});
+
+	test('locks the user until the recovery code is removed', async () => {
+		const hashes = [await argon2.hash('abcde23456')];
+
+		tracker.on.select('directus_users').responseOnce({ tfa_recovery_codes: JSON.stringify(hashes) });
+		tracker.on.update('directus_users').responseOnce(1);
+
+		const service = new TFAService({ knex: db, schema: {} as any });
+
+		expect(await service.useRecoveryCode(user, 'ABCDE-23456')).toBe(true);
+		expect(tracker.history.select[0]!.sql).toContain('for update');
+		expect(tracker.history.transactions).toHaveLength(1);
+	});
+
+	test('rejects unknown recovery codes', async () => {
+		const hashes = [await argon2.hash('abcde23456')];
+
+		tracker.on.select('directus_users').responseOnce({ tfa_recovery_codes: JSON.stringify(hashes) });
+
+		const service = new TFAService({ knex: db, schema: {} as any });
+
+		expect(await service.useRecoveryCode(user, '123456')).toBe(false);
+		expect(tracker.history.update).toHaveLength(0);
+	});
+});
+
+describe('access token scope', () => {
+	const accountability = {
+		user,
+		role: null,
+		access_token_scope: [{ collection: 'products', action: 'read' as const }],
+	};
+
+	test.each([
+		['generateTFA', (service: TFAService) => service.generateTFA(user)],
+		['enableTFA', (service: TFAService) => service.enableTFA(user, '123456', 'secret')],
+		['disableTFA', (service: TFAService) => service.disableTFA(user)],
+		['generateRecoveryCodes', (service: TFAService) => service.generateRecoveryCodes(user)],
+	])('does not allow tokens restricted to a scope to use %s', async (_name, run) => {
+		const service = new TFAService({ knex: db, schema: {} as any, accountability });
+
+		await expect(run(service)).rejects.toBeInstanceOf(ForbiddenError);
+		expect(tracker.history.all).toHaveLength(0);
+	});
+});
@@ -1,17 +1,29 @@
-import { InvalidPayloadError } from '@directus/errors';
-import type { PrimaryKey } from '@directus/types';
+import { ForbiddenError, InvalidPayloadError } from '@directus/errors';
+import type { Accountability, PrimaryKey } from '@directus/types';
+import { parseJSON } from '@directus/utils';
+import argon2 from 'argon2';
 import type { Knex } from 'knex';
+import { customAlphabet } from 'nanoid';
 import { authenticator } from 'otplib';
 import getDatabase from '../database/index.js';
 import type { AbstractServiceOptions } from '../types/index.js';
+import { generateHash } from '../utils/generate-hash.js';
+import { transaction } from '../utils/transaction.js';
 import { ItemsService } from './items.js';
 
+const RECOVERY_CODE_COUNT = 10;
+
+// Leaves out characters that are easily confused with each other when written down, like 0 and o
+const generateRecoveryCode = customAlphabet('23456789abcdefghjkmnpqrstuvwxyz', 10);
+
 export class TFAService {
 	knex: Knex;
+	accountability: Accountability | null;
 	itemsService: ItemsService;
 
 	constructor(options: AbstractServiceOptions) {
 		this.knex = options.knex || getDatabase();
+		this.accountability = options.accountability || null;
 		this.itemsService = new ItemsService('directus_users', options);
 	}
 
@@ -30,6 +42,8 @@ export class TFAService {
 	}
 
 	async generateTFA(key: PrimaryKey): Promise<Record<string, string>> {
+		this.checkScope();
+
 		const user = await this.knex.select('email', 'tfa_secret').from('directus_users').where({ id: key }).first();
 
 		if (user?.tfa_secret !== null) {
@@ -49,7 +63,14 @@ export class TFAService {
 		};
 	}
 
-	async enableTFA(key: PrimaryKey, otp: string, secret: string): Promise<void> {
+	/**
+	 * Enable TFA for a user
+	 *
+	 * @returns The recovery codes of the user, which can't be retrieved again
+	 */
+	async enableTFA(key: PrimaryKey, otp: string, secret: string): Promise<string[]> {
+		this.checkScope();
+
 		const user = await this.knex.select('tfa_secret').from('directus_users').where({ id: key }).first();
 
 		if (user?.tfa_secret !== null) {
@@ -61,9 +82,89 @@ export class TFAService {
 		}
 
 		await this.itemsService.updateOne(key, { tfa_secret: secret });
+
+		return await this.generateRecoveryCodes(key);
 	}
 
 	async disableTFA(key: PrimaryKey): Promise<void> {
+		this.checkScope();
+
 		await this.itemsService.updateOne(key, { tfa_secret: null });
+		await this.knex('directus_users').update({ tfa_recovery_codes: null }).where({ id: key });
+	}
+
+	/**
+	 * Replace the recovery codes of a user with new ones. Only their hashes are stored
+	 *
+	 * @returns The new recovery codes
+	 */
+	async generateRecoveryCodes(key: PrimaryKey): Promise<string[]> {
+		this.checkScope();
+
+		const user = await this.knex.select('tfa_secret').from('directus_users').where({ id: key }).first();
+
+		if (!user?.tfa_secret) {
+			throw new InvalidPayloadError({ reason: `User "${key}" doesn't have TFA enabled` });
+		}
+
+		const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+			const code = generateRecoveryCode();
+			return `${code.slice(0, 5)}-${code.slice(5)}`;
+		});
+
+		const hashes = await Promise.all(codes.map((code) => generateHash(normalizeRecoveryCode(code))));
+
+		await this.knex('directus_users')
+			.update({ tfa_recovery_codes: JSON.stringify(hashes) })
+			.where({ id: key });
+
+		return codes;
+	}
+
+	/**
+	 * Check a recovery code of a user, and remove it so it can't be used again
+	 *
+	 * @returns Whether the recovery code was valid
+	 */
+	async useRecoveryCode(key: PrimaryKey, code: string): Promise<boolean> {
+		return transaction(this.knex, async (trx) => {
+			// Lock the user until the code is removed, so concurrent logins can't use the same code
+			const user = await trx.select('tfa_recovery_codes').from('directus_users').where({ id: key }).forUpdate().first();
+
+			if (!user?.tfa_recovery_codes) return false;
+
+			const hashes: string[] = parseJSON(user.tfa_recovery_codes);
+			const normalized = normalizeRecoveryCode(code);
+
+			for (const [index, hash] of hashes.entries()) {
+				if ((await argon2.verify(hash, normalized)) === false) continue;
+
+				const remaining = hashes.filter((_, i) => i !== index);
+
+				await trx('directus_users')
+					.update({ tfa_recovery_codes: remaining.length > 0 ? JSON.stringify(remaining) : null })
+					.where({ id: key });
+
+				return true;
+			}
+
+			return false;
+		});
+	}
+
+	/**
+	 * Tokens restricted to a scope can't manage TFA, as it protects the logins of their user
+	 */
+	private checkScope(): void {
+		if (this.accountability?.access_token_scope) {
+			throw new ForbiddenError();
+		}
 	}
 }
+
+/**
+ * Recovery codes are accepted regardless of case and dashes, as they are often typed over from paper
+ */
+function normalizeRecoveryCode(code: string): string {
+	return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
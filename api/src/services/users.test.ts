@@ -13,6 +13,8 @@ import {
 	type MockInstance,
 	type MockedFunction,
 } from 'vitest';
+import { getPermissions } from '../utils/get-permissions.js';
+import { getUserRoles } from '../utils/get-user-roles.js';
 import { ItemsService, MailService, UsersService } from './index.js';
 
 vi.mock('../../src/database/index', () => ({
@@ -20,6 +22,10 @@ vi.mock('../../src/database/index', () => ({
 	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
 }));
 
+vi.mock('../utils/get-permissions.js');
+
+vi.mock('../utils/get-user-roles.js');
+
 vi.mock('./mail', () => {
 	const MailService = vi.fn();
 	MailService.prototype.send = vi.fn().mockImplementation(() => Promise.resolve());
@@ -647,6 +653,49 @@ describe('Integration Tests', () => {
 			});
 		});
 
+		describe('readAccess', () => {
+			it('should merge the permissions of all roles of the user', async () => {
+				const service = new UsersService({
+					knex: db,
+					schema: testSchema,
+					accountability: { role: 'test', admin: true },
+				});
+
+				tracker.on.select('directus_users').responseOnce({ id: 'user-id', role: 'primary' });
+
+				vi.mocked(getUserRoles).mockResolvedValueOnce({
+					roles: ['primary', 'editor'],
+					admin_access: false,
+					app_access: true,
+				});
+
+				vi.mocked(getPermissions).mockResolvedValueOnce([]);
+
+				await expect(service.readAccess('user-id')).resolves.toEqual({
+					roles: ['primary', 'editor'],
+					admin_access: false,
+					app_access: true,
+					permissions: [],
+				});
+
+				expect(getPermissions).toHaveBeenCalledWith(
+					{ user: 'user-id', role: 'primary', roles: ['primary', 'editor'], admin: false, app: true },
+					testSchema,
+				);
+			});
+
+			it('should only be available to admins', async () => {
+				const service = new UsersService({
+					knex: db,
+					schema: testSchema,
+					accountability: { role: 'test', admin: false },
+				});
+
+				await expect(service.readAccess('user-id')).rejects.toBeInstanceOf(ForbiddenError);
+				expect(getUserRoles).not.toBeCalled();
+			});
+		});
+
 		describe('invite', () => {
 			it('should invite new users', async () => {
 				const service = new UsersService({
@@ -1,6 +1,6 @@
 import { useEnv } from '@directus/env';
 import { ForbiddenError, InvalidPayloadError, RecordNotUniqueError, UnprocessableContentError } from '@directus/errors';
-import type { Item, PrimaryKey, Query, RegisterUserInput, User } from '@directus/types';
+import type { Item, PrimaryKey, Query, RegisterUserInput, User, UserAccess } from '@directus/types';
 import { getSimpleHash, toArray, validatePayload } from '@directus/utils';
 import { FailedValidationError, joiValidationErrorItemToErrorExtensions } from '@directus/validation';
 import Joi from 'joi';
@@ -10,8 +10,11 @@ import { performance } from 'perf_hooks';
 import getDatabase from '../database/index.js';
 import { useLogger } from '../logger.js';
 import type { AbstractServiceOptions, MutationOptions } from '../types/index.js';
+import { getPermissions } from '../utils/get-permissions.js';
 import { getSecret } from '../utils/get-secret.js';
+import { getUserRoles } from '../utils/get-user-roles.js';
 import isUrlAllowed from '../utils/is-url-allowed.js';
+import { resetLoginAttempts } from '../utils/login-attempts.js';
 import { verifyJWT } from '../utils/jwt.js';
 import { stall } from '../utils/stall.js';
 import { transaction } from '../utils/transaction.js';
@@ -308,6 +311,10 @@ export class UsersService extends ItemsService {
 				throw new InvalidPayloadError({ reason: `You can't change the "tfa_secret" value manually` });
 			}
 
+			if (data['tfa_recovery_codes'] !== undefined) {
+				throw new InvalidPayloadError({ reason: `You can't change the "tfa_recovery_codes" value manually` });
+			}
+
 			if (data['provider'] !== undefined) {
 				if (this.accountability && this.accountability.admin !== true) {
 					throw new InvalidPayloadError({ reason: `You can't change the "provider" value manually` });
@@ -375,6 +382,30 @@ export class UsersService extends ItemsService {
 		return await this.deleteMany(keys, opts);
 	}
 
+	/**
+	 * Get the access a user gets from all of their roles combined, with the permission rules of the roles merged
+	 */
+	async readAccess(key: PrimaryKey): Promise<UserAccess> {
+		if (this.accountability && this.accountability.admin !== true) {
+			throw new ForbiddenError();
+		}
+
+		const user = await this.knex.select('id', 'role').from('directus_users').where({ id: key }).first();
+
+		if (!user) {
+			throw new ForbiddenError();
+		}
+
+		const { roles, admin_access, app_access } = await getUserRoles(user.id, this.knex);
+
+		const permissions = await getPermissions(
+			{ user: user.id, role: user.role, roles, admin: admin_access, app: app_access },
+			this.schema,
+		);
+
+		return { roles, admin_access, app_access, permissions };
+	}
+
 	async inviteUser(email: string | string[], role: string, url: string | null, subject?: string | null): Promise<void> {
 		const opts: MutationOptions = {};
 
@@ -655,5 +686,8 @@ export class UsersService extends ItemsService {
 		});
 
 		await service.updateOne(user.id, { password, status: 'active' }, opts);
+
+		// Resetting the password through the emailed link lifts a lockout after too many failed login attempts
+		await resetLoginAttempts(user.id);
 	}
 }
@@ -0,0 +1,89 @@
+import type { ContentVersion } from '@directus/types';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { getAccountabilityForUser } from '../utils/get-accountability-for-user.js';
+import { VersionsService } from './versions.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('../utils/get-accountability-for-user.js', () => ({
+	getAccountabilityForUser: vi.fn(),
+}));
+
+vi.mock('./notifications.js', () => ({
+	NotificationsService: vi.fn().mockImplementation(() => ({ createOne: vi.fn() })),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+	vi.clearAllMocks();
+});
+
+function createVersion(version: Partial<ContentVersion>): ContentVersion {
+	return {
+		id: 'version-1',
+		key: 'draft',
+		name: null,
+		collection: 'articles',
+		item: '1',
+		publish_hash: 'hash',
+		user_created: null,
+		publish_user: 'user-1',
+		...version,
+	} as ContentVersion;
+}
+
+describe('promoteScheduled', () => {
+	test('promotes with the permissions of the user that scheduled the promotion', async () => {
+		const accountability = { user: 'user-1', role: 'role-a', roles: ['role-a'], admin: false, app: true };
+
+		vi.mocked(getAccountabilityForUser).mockResolvedValue(accountability);
+		vi.spyOn(VersionsService.prototype, 'readByQuery').mockResolvedValue([createVersion({})]);
+
+		const promote = vi.spyOn(VersionsService.prototype, 'promote').mockImplementation(async function (
+			this: VersionsService,
+		) {
+			expect(this.accountability).toBe(accountability);
+			return '1';
+		});
+
+		tracker.on.update('directus_versions').responseOnce(1);
+
+		await new VersionsService({ knex: db, schema: {} as any }).promoteScheduled();
+
+		expect(getAccountabilityForUser).toHaveBeenCalledWith('user-1', expect.anything());
+		expect(promote).toHaveBeenCalledWith('version-1', 'hash');
+		expect(tracker.history.update[0]!.bindings).toEqual([null, null, null, null, 'version-1']);
+	});
+
+	test('fails the promotion when the user that scheduled it does not exist anymore', async () => {
+		vi.spyOn(VersionsService.prototype, 'readByQuery').mockResolvedValue([createVersion({ publish_user: null })]);
+		const promote = vi.spyOn(VersionsService.prototype, 'promote');
+
+		tracker.on.update('directus_versions').responseOnce(1);
+
+		await new VersionsService({ knex: db, schema: {} as any }).promoteScheduled();
+
+		expect(promote).not.toHaveBeenCalled();
+
+		expect(tracker.history.update[0]!.bindings).toEqual([
+			null,
+			null,
+			`The user who scheduled the promotion doesn't exist anymore.`,
+			null,
+			'version-1',
+		]);
+	});
+});
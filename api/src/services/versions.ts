@@ -1,6 +1,6 @@
 import { Action } from '@directus/constants';
 import { InvalidPayloadError, UnprocessableContentError } from '@directus/errors';
-import type { ContentVersion, Filter, Item, PrimaryKey, Query } from '@directus/types';
+import type { ContentVersion, ContentVersionDiff, Filter, Item, PrimaryKey, Query } from '@directus/types';
 import Joi from 'joi';
 import { assign, pick } from 'lodash-es';
 import objectHash from 'object-hash';
@@ -8,10 +8,14 @@ import { getCache } from '../cache.js';
 import getDatabase from '../database/index.js';
 import emitter from '../emitter.js';
 import type { AbstractServiceOptions, MutationOptions } from '../types/index.js';
+import { getAccountabilityForUser } from '../utils/get-accountability-for-user.js';
+import { getVersionDiff } from '../utils/get-version-diff.js';
+import { mergeVersionsRaw } from '../utils/merge-version-data.js';
 import { shouldClearCache } from '../utils/should-clear-cache.js';
 import { ActivityService } from './activity.js';
 import { AuthorizationService } from './authorization.js';
 import { ItemsService } from './items.js';
+import { NotificationsService } from './notifications.js';
 import { PayloadService } from './payload.js';
 import { RevisionsService } from './revisions.js';
 
@@ -128,6 +132,50 @@ export class VersionsService extends ItemsService {
 		return saves;
 	}
 
+	/**
+	 * Get the changes of a version compared to the main version of the item, or to another version of the same item
+	 */
+	async diff(key: PrimaryKey, base?: PrimaryKey): Promise<ContentVersionDiff> {
+		const version = (await this.readOne(key)) as ContentVersion;
+
+		const { outdated, mainHash } = await this.verifyHash(version.collection, version.item, version.hash);
+
+		// Only contains the fields the user is allowed to read
+		const mainItem = await this.getMainItem(version.collection, version.item);
+
+		const saves = await this.getVersionSavesById(version.id);
+
+		let baseSaves: Partial<Item>[] = [];
+
+		if (base !== undefined) {
+			const baseVersion = (await this.readOne(base)) as ContentVersion;
+
+			if (baseVersion.collection !== version.collection || String(baseVersion.item) !== String(version.item)) {
+				throw new UnprocessableContentError({
+					reason: `Version "${baseVersion.key}" doesn't belong to the same item as version "${version.key}"`,
+				});
+			}
+
+			baseSaves = await this.getVersionSavesById(baseVersion.id);
+		}
+
+		const primaryKeyField = this.schema.collections[version.collection]!.primary;
+
+		const fields = [...new Set([...saves, ...baseSaves].flatMap((save) => Object.keys(save ?? {})))].filter(
+			(field) => field !== primaryKeyField && field in mainItem,
+		);
+
+		const fieldsDiff = getVersionDiff(
+			this.schema,
+			version.collection,
+			fields,
+			mergeVersionsRaw(mainItem, baseSaves),
+			mergeVersionsRaw(mainItem, saves),
+		);
+
+		return { outdated, mainHash, base: base !== undefined ? String(base) : null, fields: fieldsDiff };
+	}
+
 	override async createOne(data: Partial<Item>, opts?: MutationOptions): Promise<PrimaryKey> {
 		await this.validateCreateData(data);
 
@@ -262,6 +310,110 @@ export class VersionsService extends ItemsService {
 		return data;
 	}
 
+	/**
+	 * Schedule the promotion of a version at the given date, or cancel it by passing null. The main hash is verified the
+	 * same way as for promoting the version right away
+	 */
+	async schedulePromote(key: PrimaryKey, publishAt: string | null, mainHash?: string): Promise<PrimaryKey> {
+		const { collection, item } = (await this.readOne(key)) as ContentVersion;
+
+		// will throw an error if the accountability does not have permission to update the item
+		await this.authorizationService.checkAccess('update', collection, item);
+
+		const versionsService = new ItemsService('directus_versions', {
+			accountability: this.accountability,
+			knex: this.knex,
+			schema: this.schema,
+		});
+
+		if (publishAt === null) {
+			return await versionsService.updateOne(key, {
+				publish_at: null,
+				publish_hash: null,
+				publish_error: null,
+				publish_user: null,
+			});
+		}
+
+		if (Number.isNaN(new Date(publishAt).getTime())) {
+			throw new InvalidPayloadError({ reason: `"publishAt" has to be a valid date` });
+		}
+
+		if (typeof mainHash !== 'string') {
+			throw new InvalidPayloadError({ reason: `"mainHash" field is required` });
+		}
+
+		const { outdated } = await this.verifyHash(collection, item, mainHash);
+
+		if (outdated) {
+			throw new UnprocessableContentError({
+				reason: `Main item has changed since this version was last updated`,
+			});
+		}
+
+		// The promotion is done with the permissions of the user scheduling it, who is therefore stored along with it
+		return await versionsService.updateOne(key, {
+			publish_at: publishAt,
+			publish_hash: mainHash,
+			publish_error: null,
+			publish_user: this.accountability?.user ?? null,
+		});
+	}
+
+	/**
+	 * Promote all versions that are scheduled to be published by now, with the permissions of the user that scheduled
+	 * them, and notify their authors of the outcome
+	 */
+	async promoteScheduled(): Promise<void> {
+		const versions = (await new VersionsService({ knex: this.knex, schema: this.schema }).readByQuery({
+			filter: { publish_at: { _lte: '$NOW' } },
+			limit: -1,
+		})) as ContentVersion[];
+
+		for (const version of versions) {
+			let error: string | null = null;
+
+			try {
+				if (!version.publish_user) {
+					throw new Error(`The user who scheduled the promotion doesn't exist anymore.`);
+				}
+
+				const accountability = await getAccountabilityForUser(version.publish_user, {
+					schema: this.schema,
+					database: this.knex,
+				});
+
+				const versionsService = new VersionsService({ accountability, knex: this.knex, schema: this.schema });
+
+				await versionsService.promote(version.id, version.publish_hash ?? '');
+			} catch (err: any) {
+				error = err?.message ?? String(err);
+			}
+
+			await this.knex('directus_versions')
+				.update({ publish_at: null, publish_hash: null, publish_error: error, publish_user: null })
+				.where({ id: version.id });
+
+			if (!version.user_created) continue;
+
+			const notificationsService = new NotificationsService({ schema: this.schema });
+
+			const name = version.name ?? version.key;
+
+			await notificationsService.createOne({
+				recipient: version.user_created,
+				subject:
+					error === null ? `Version "${name}" was published` : `Scheduled publishing of version "${name}" failed`,
+				message:
+					error === null
+						? `Version "${name}" of item ${version.item} in ${version.collection} was promoted to the main item.`
+						: `Version "${name}" of item ${version.item} in ${version.collection} couldn't be promoted to the main item:\n\n${error}`,
+				collection: version.collection,
+				item: String(version.item),
+			});
+		}
+	}
+
 	async promote(version: PrimaryKey, mainHash: string, fields?: string[]) {
 		const { id, collection, item } = (await this.readOne(version)) as ContentVersion;
 
@@ -0,0 +1,214 @@
+import { ForbiddenError, InvalidCredentialsError, InvalidPayloadError } from '@directus/errors';
+import { verifyAuthenticationResponse } from '@simplewebauthn/server';
+import jwt from 'jsonwebtoken';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, beforeEach, describe, expect, test, vi } from 'vitest';
+import { WebAuthnService } from './webauthn.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({
+		PUBLIC_URL: 'https://directus.example.com/',
+		SECRET: 'test-secret',
+	}),
+}));
+
+const lockCache = new Map<string, unknown>();
+
+vi.mock('../cache.js', () => ({
+	getCache: vi.fn(() => ({
+		lockCache: {
+			get: async (key: string) => lockCache.get(key),
+			set: async (key: string, value: unknown) => lockCache.set(key, value),
+		},
+	})),
+}));
+
+vi.mock('@simplewebauthn/server', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@simplewebauthn/server')>()),
+	verifyAuthenticationResponse: vi.fn(),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+beforeEach(() => {
+	lockCache.clear();
+});
+
+afterEach(() => {
+	tracker.reset();
+	vi.mocked(verifyAuthenticationResponse).mockReset();
+});
+
+const user = 'user-id';
+
+describe('readByUser', () => {
+	test('returns the credentials without their public keys', async () => {
+		tracker.on.select('directus_webauthn_credentials').responseOnce([
+			{
+				id: 1,
+				name: 'Laptop',
+				device_type: 'multiDevice',
+				backed_up: 1,
+				transports: 'internal,hybrid',
+				date_created: new Date('2024-06-01T00:00:00Z'),
+				last_used: null,
+			},
+		]);
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		expect(await service.readByUser(user)).toEqual([
+			{
+				id: 1,
+				name: 'Laptop',
+				device_type: 'multiDevice',
+				backed_up: true,
+				transports: ['internal', 'hybrid'],
+				date_created: '2024-06-01T00:00:00.000Z',
+				last_used: null,
+			},
+		]);
+
+		expect(tracker.history.select[0]!.sql).not.toContain('public_key');
+	});
+
+	test('only allows admins to read the credentials of other users', async () => {
+		const service = new WebAuthnService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.readByUser('other-user')).rejects.toBeInstanceOf(ForbiddenError);
+	});
+});
+
+describe('delete', () => {
+	test('throws when the credential does not belong to the user', async () => {
+		tracker.on.delete('directus_webauthn_credentials').responseOnce(0);
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.delete(user, 1)).rejects.toBeInstanceOf(ForbiddenError);
+		expect(tracker.history.delete[0]!.bindings).toEqual([user, 1]);
+	});
+
+	test('does not allow tokens restricted to a scope to delete credentials', async () => {
+		const service = new WebAuthnService({
+			knex: db,
+			schema: {} as any,
+			accountability: { user, role: null, access_token_scope: [{ collection: 'products', action: 'read' }] },
+		});
+
+		await expect(service.delete(user, 1)).rejects.toBeInstanceOf(ForbiddenError);
+		expect(tracker.history.delete).toHaveLength(0);
+	});
+});
+
+describe('generateAuthenticationOptions', () => {
+	test('signs the challenge for the relying party of the public URL', async () => {
+		const service = new WebAuthnService({ knex: db, schema: {} as any });
+
+		const { options, token } = await service.generateAuthenticationOptions();
+
+		expect(options.rpId).toBe('directus.example.com');
+
+		expect(jwt.verify(token, 'test-secret')).toMatchObject({
+			scope: 'webauthn-authentication',
+			challenge: options.challenge,
+		});
+	});
+});
+
+describe('register', () => {
+	test('rejects challenges that were issued to another user', async () => {
+		const token = jwt.sign({ scope: 'webauthn-registration', challenge: 'abc', user: 'other-user' }, 'test-secret', {
+			issuer: 'directus',
+		});
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any, accountability: { user, role: null } });
+
+		await expect(service.register(user, {} as any, token)).rejects.toBeInstanceOf(InvalidPayloadError);
+	});
+});
+
+describe('verifyAuthentication', () => {
+	const token = jwt.sign({ scope: 'webauthn-authentication', challenge: 'abc' }, 'test-secret', { issuer: 'directus' });
+
+	const assertion = { response: { id: 'credential-id' } as any, token };
+
+	beforeEach(() => {
+		tracker.on.select('directus_webauthn_credentials').response({
+			id: 1,
+			credential_id: 'credential-id',
+			public_key: 'cHVibGljLWtleQ',
+			counter: '4',
+			transports: 'usb',
+		});
+
+		tracker.on.update('directus_webauthn_credentials').response(1);
+	});
+
+	test('updates the counter of the credential', async () => {
+		vi.mocked(verifyAuthenticationResponse).mockResolvedValue({
+			verified: true,
+			authenticationInfo: { newCounter: 5 } as any,
+		});
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any });
+		await service.verifyAuthentication(user, assertion, { requireUserVerification: true });
+
+		expect(vi.mocked(verifyAuthenticationResponse).mock.calls[0]![0]).toMatchObject({
+			expectedChallenge: 'abc',
+			expectedOrigin: ['https://directus.example.com'],
+			expectedRPID: 'directus.example.com',
+			authenticator: { credentialID: 'credential-id', counter: 4, transports: ['usb'] },
+			requireUserVerification: true,
+		});
+
+		expect(tracker.history.update[0]!.bindings).toContain(5);
+	});
+
+	test('does not accept the same challenge twice', async () => {
+		vi.mocked(verifyAuthenticationResponse).mockResolvedValue({
+			verified: true,
+			authenticationInfo: { newCounter: 5 } as any,
+		});
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any });
+		await service.verifyAuthentication(user, assertion);
+
+		await expect(service.verifyAuthentication(user, assertion)).rejects.toBeInstanceOf(InvalidCredentialsError);
+	});
+
+	test('throws when the response cannot be verified', async () => {
+		vi.mocked(verifyAuthenticationResponse).mockRejectedValue(new Error('Unexpected authentication response origin'));
+
+		const service = new WebAuthnService({ knex: db, schema: {} as any });
+
+		await expect(service.verifyAuthentication(user, assertion)).rejects.toBeInstanceOf(InvalidCredentialsError);
+		expect(tracker.history.update).toHaveLength(0);
+	});
+
+	test('throws for challenges of another scope', async () => {
+		const service = new WebAuthnService({ knex: db, schema: {} as any });
+
+		const registrationToken = jwt.sign({ scope: 'webauthn-registration', challenge: 'abc', user }, 'test-secret', {
+			issuer: 'directus',
+		});
+
+		await expect(service.verifyAuthentication(user, { ...assertion, token: registrationToken })).rejects.toBeInstanceOf(
+			InvalidCredentialsError,
+		);
+
+		expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+	});
+});
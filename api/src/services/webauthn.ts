@@ -0,0 +1,393 @@
+import { useEnv } from '@directus/env';
+import {
+	ForbiddenError,
+	InvalidCredentialsError,
+	InvalidPayloadError,
+	ServiceUnavailableError,
+} from '@directus/errors';
+import type { Accountability, WebAuthnCredential } from '@directus/types';
+import {
+	generateAuthenticationOptions,
+	generateRegistrationOptions,
+	verifyAuthenticationResponse,
+	verifyRegistrationResponse,
+	type VerifyAuthenticationResponseOpts,
+	type VerifyRegistrationResponseOpts,
+} from '@simplewebauthn/server';
+import jwt from 'jsonwebtoken';
+import type { Knex } from 'knex';
+import { getCache } from '../cache.js';
+import getDatabase from '../database/index.js';
+import type { AbstractServiceOptions } from '../types/index.js';
+import { getMilliseconds } from '../utils/get-milliseconds.js';
+import { getSecret } from '../utils/get-secret.js';
+
+const env = useEnv();
+
+const CHALLENGE_TTL = '5m';
+
+export type WebAuthnRegistrationOptions = Awaited<ReturnType<typeof generateRegistrationOptions>>;
+export type WebAuthnRegistrationResponse = VerifyRegistrationResponseOpts['response'];
+export type WebAuthnAuthenticationOptions = Awaited<ReturnType<typeof generateAuthenticationOptions>>;
+export type WebAuthnAuthenticationResponse = VerifyAuthenticationResponseOpts['response'];
+
+/**
+ * Options to pass to the browser, and the signed challenge to send back with its response
+ */
+export type WebAuthnOptions<Options> = {
+	options: Options;
+	token: string;
+};
+
+/**
+ * The response of the authenticator to an authentication challenge, as used in the login payload
+ */
+export type WebAuthnAssertion = {
+	response: WebAuthnAuthenticationResponse;
+	token: string;
+};
+
+type ChallengeScope = 'webauthn-registration' | 'webauthn-authentication';
+
+export class WebAuthnService {
+	knex: Knex;
+	accountability: Accountability | null;
+
+	constructor(options: AbstractServiceOptions) {
+		this.knex = options.knex || getDatabase();
+		this.accountability = options.accountability || null;
+	}
+
+	/**
+	 * Read the credentials of a user, without their public keys
+	 */
+	async readByUser(user: string): Promise<WebAuthnCredential[]> {
+		this.checkAccess(user);
+
+		const credentials = await this.knex
+			.select('id', 'name', 'device_type', 'backed_up', 'transports', 'date_created', 'last_used')
+			.from('directus_webauthn_credentials')
+			.where({ user })
+			.orderBy('id');
+
+		return credentials.map((credential) => ({
+			id: credential.id,
+			name: credential.name,
+			device_type: credential.device_type,
+			backed_up: Boolean(credential.backed_up),
+			transports: credential.transports ? credential.transports.split(',') : null,
+			date_created: toISOString(credential.date_created),
+			last_used: toISOString(credential.last_used),
+		}));
+	}
+
+	/**
+	 * Remove a credential of a user, so it can no longer be used to log in
+	 */
+	async delete(user: string, id: number): Promise<void> {
+		this.checkAccess(user);
+
+		if (!Number.isInteger(id)) throw new ForbiddenError();
+
+		const deleted = await this.knex('directus_webauthn_credentials').delete().where({ user, id });
+
+		if (deleted === 0) throw new ForbiddenError();
+	}
+
+	/**
+	 * Generate the options to create a new credential for a user in the browser
+	 */
+	async generateRegistrationOptions(user: string): Promise<WebAuthnOptions<WebAuthnRegistrationOptions>> {
+		this.checkSelf(user);
+
+		const record = await this.knex
+			.select('email', 'first_name', 'last_name')
+			.from('directus_users')
+			.where({ id: user })
+			.first();
+
+		if (!record?.email) {
+			throw new InvalidPayloadError({ reason: 'User must have a valid email to register a passkey' });
+		}
+
+		const { id: rpID } = this.getRelyingParty();
+		const rpName = await this.getRelyingPartyName();
+
+		const existing = await this.knex
+			.select('credential_id', 'transports')
+			.from('directus_webauthn_credentials')
+			.where({ user });
+
+		const options = await generateRegistrationOptions({
+			rpName,
+			rpID,
+			userID: new TextEncoder().encode(user),
+			userName: record.email,
+			userDisplayName: [record.first_name, record.last_name].filter(Boolean).join(' ') || record.email,
+			attestationType: 'none',
+			excludeCredentials: existing.map((credential) => ({
+				id: credential.credential_id,
+				...(credential.transports && { transports: credential.transports.split(',') }),
+			})),
+			// Discoverable credentials can be used without entering an email, both to log in and as second factor
+			authenticatorSelection: {
+				residentKey: 'required',
+				userVerification: 'preferred',
+			},
+		});
+
+		return { options, token: this.signChallenge('webauthn-registration', options.challenge, user) };
+	}
+
+	/**
+	 * Verify and store a credential created in the browser
+	 *
+	 * @returns Primary key of the new credential
+	 */
+	async register(
+		user: string,
+		response: WebAuthnRegistrationResponse,
+		token: string,
+		name?: string | null,
+	): Promise<number> {
+		this.checkSelf(user);
+
+		const challenge = this.verifyChallenge(token, 'webauthn-registration', user);
+
+		if (challenge === null || (await this.consumeChallenge(challenge)) === false) {
+			throw new InvalidPayloadError({ reason: 'WebAuthn challenge is invalid or expired' });
+		}
+
+		const { id: rpID, origins } = this.getRelyingParty();
+
+		let verification;
+
+		try {
+			verification = await verifyRegistrationResponse({
+				response,
+				expectedChallenge: challenge,
+				expectedOrigin: origins,
+				expectedRPID: rpID,
+				requireUserVerification: false,
+			});
+		} catch {
+			verification = null;
+		}
+
+		if (!verification?.verified || !verification.registrationInfo) {
+			throw new InvalidPayloadError({ reason: `WebAuthn registration couldn't be verified` });
+		}
+
+		const { credentialID, credentialPublicKey, counter, credentialDeviceType, credentialBackedUp } =
+			verification.registrationInfo;
+
+		const transports = response.response.transports;
+
+		await this.knex('directus_webauthn_credentials').insert({
+			user,
+			name: name || null,
+			credential_id: credentialID,
+			public_key: Buffer.from(credentialPublicKey).toString('base64url'),
+			counter,
+			transports: transports && transports.length > 0 ? transports.join(',') : null,
+			device_type: credentialDeviceType,
+			backed_up: credentialBackedUp,
+			date_created: new Date(),
+		});
+
+		const credential = await this.knex
+			.select('id')
+			.from('directus_webauthn_credentials')
+			.where({ credential_id: credentialID })
+			.first();
+
+		return credential.id;
+	}
+
+	/**
+	 * Generate the options to authenticate with any credential stored on the device
+	 */
+	async generateAuthenticationOptions(): Promise<WebAuthnOptions<WebAuthnAuthenticationOptions>> {
+		const { id: rpID } = this.getRelyingParty();
+
+		const options = await generateAuthenticationOptions({
+			rpID,
+			userVerification: 'preferred',
+		});
+
+		return { options, token: this.signChallenge('webauthn-authentication', options.challenge) };
+	}
+
+	/**
+	 * Get the user a credential belongs to, for logging in without email
+	 *
+	 * @throws InvalidCredentialsError
+	 */
+	async getUserID(assertion: WebAuthnAssertion): Promise<string> {
+		const credentialId = assertion?.response?.id;
+
+		if (typeof credentialId !== 'string') throw new InvalidCredentialsError();
+
+		const credential = await this.knex
+			.select('user')
+			.from('directus_webauthn_credentials')
+			.where({ credential_id: credentialId })
+			.first();
+
+		if (!credential) throw new InvalidCredentialsError();
+
+		return credential.user;
+	}
+
+	/**
+	 * Verify the response of one of the credentials of a user to an authentication challenge
+	 *
+	 * @param options.requireUserVerification Whether the authenticator has to have verified the user, for example with a
+	 * PIN or biometrics, which is required when the credential replaces the password
+	 * @throws InvalidCredentialsError
+	 */
+	async verifyAuthentication(
+		user: string,
+		assertion: WebAuthnAssertion,
+		options?: { requireUserVerification?: boolean },
+	): Promise<void> {
+		const challenge =
+			typeof assertion?.token === 'string' ? this.verifyChallenge(assertion.token, 'webauthn-authentication') : null;
+
+		if (challenge === null || typeof assertion.response?.id !== 'string') throw new InvalidCredentialsError();
+
+		const credential = await this.knex
+			.select('id', 'credential_id', 'public_key', 'counter', 'transports')
+			.from('directus_webauthn_credentials')
+			.where({ user, credential_id: assertion.response.id })
+			.first();
+
+		if (!credential || (await this.consumeChallenge(challenge)) === false) throw new InvalidCredentialsError();
+
+		const { id: rpID, origins } = this.getRelyingParty();
+
+		let verification;
+
+		try {
+			verification = await verifyAuthenticationResponse({
+				response: assertion.response,
+				expectedChallenge: challenge,
+				expectedOrigin: origins,
+				expectedRPID: rpID,
+				authenticator: {
+					credentialID: credential.credential_id,
+					credentialPublicKey: Buffer.from(credential.public_key, 'base64url'),
+					counter: Number(credential.counter),
+					...(credential.transports && { transports: credential.transports.split(',') }),
+				},
+				requireUserVerification: options?.requireUserVerification ?? false,
+			});
+		} catch {
+			verification = null;
+		}
+
+		if (!verification?.verified) throw new InvalidCredentialsError();
+
+		await this.knex('directus_webauthn_credentials')
+			.update({ counter: verification.authenticationInfo.newCounter, last_used: new Date() })
+			.where({ id: credential.id });
+	}
+
+	private signChallenge(scope: ChallengeScope, challenge: string, user?: string): string {
+		return jwt.sign({ scope, challenge, ...(user && { user }) }, getSecret(), {
+			expiresIn: CHALLENGE_TTL,
+			issuer: 'directus',
+		});
+	}
+
+	private verifyChallenge(token: string, scope: ChallengeScope, user?: string): string | null {
+		try {
+			const payload = jwt.verify(token, getSecret(), { issuer: 'directus' }) as Record<string, unknown>;
+
+			if (payload['scope'] !== scope || typeof payload['challenge'] !== 'string') return null;
+			if (user && payload['user'] !== user) return null;
+
+			return payload['challenge'];
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Mark a challenge as used, so a response to it can't be replayed
+	 *
+	 * @returns Whether the challenge wasn't used before
+	 */
+	private async consumeChallenge(challenge: string): Promise<boolean> {
+		const { lockCache } = getCache();
+		const key = `webauthn-challenge-${challenge}`;
+
+		if (await lockCache.get(key)) return false;
+
+		await lockCache.set(key, true, getMilliseconds(CHALLENGE_TTL));
+
+		return true;
+	}
+
+	private getRelyingParty(): { id: string; origins: string[] } {
+		let publicUrl: URL | null;
+
+		try {
+			publicUrl = new URL(env['PUBLIC_URL'] as string);
+		} catch {
+			publicUrl = null;
+		}
+
+		const id = (env['WEBAUTHN_RP_ID'] as string | undefined) ?? publicUrl?.hostname;
+		const origins = (env['WEBAUTHN_ORIGINS'] as string[] | undefined) ?? (publicUrl ? [publicUrl.origin] : []);
+
+		if (!id || origins.length === 0) {
+			throw new ServiceUnavailableError({
+				service: 'webauthn',
+				reason: 'PUBLIC_URL has to be an absolute URL, or WEBAUTHN_RP_ID and WEBAUTHN_ORIGINS have to be configured',
+			});
+		}
+
+		return { id, origins };
+	}
+
+	/**
+	 * Name of the project shown by the browser when creating a credential
+	 */
+	private async getRelyingPartyName(): Promise<string> {
+		if (env['WEBAUTHN_RP_NAME']) return env['WEBAUTHN_RP_NAME'] as string;
+
+		const settings = await this.knex.select('project_name').from('directus_settings').first();
+
+		return settings?.project_name || 'Directus';
+	}
+
+	/**
+	 * Tokens restricted to a scope can't manage credentials, as those grant full access to the account
+	 */
+	private checkAccess(user: string): void {
+		if (!this.accountability) return;
+
+		if (
+			this.accountability.access_token_scope ||
+			(this.accountability.admin !== true && this.accountability.user !== user)
+		) {
+			throw new ForbiddenError();
+		}
+	}
+
+	/**
+	 * Credentials are created in the browser of the user, so they can't be registered on behalf of others
+	 */
+	private checkSelf(user: string): void {
+		if (this.accountability && (this.accountability.access_token_scope || this.accountability.user !== user)) {
+			throw new ForbiddenError();
+		}
+	}
+}
+
+function toISOString(value: Date | string | number | null): string | null {
+	if (value === null || value === undefined) return null;
+
+	return new Date(value).toISOString();
+}
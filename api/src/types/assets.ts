@@ -71,6 +71,7 @@ export type TransformationFormat = 'jpg' | 'jpeg' | 'png' | 'webp' | 'tiff' | 'a
 
 export type TransformationParams = {
 	key?: string;
+	eager?: boolean;
 	transforms?: Transformation[];
 	format?: TransformationFormat | 'auto';
 	quality?: number;
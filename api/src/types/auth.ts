@@ -32,6 +32,10 @@ export interface Session {
 export type DirectusTokenPayload = {
 	id?: string;
 	role: string | null;
+	/**
+	 * The primary role of the user, followed by their additional roles
+	 */
+	roles?: string[];
 	session?: string;
 	app_access: boolean | number;
 	admin_access: boolean | number;
@@ -40,6 +44,10 @@ export type DirectusTokenPayload = {
 		collection: string;
 		item: string;
 	};
+	/**
+	 * Set when a role of the user enforces TFA and the user hasn't set up a second factor yet
+	 */
+	tfa_setup_required?: boolean;
 };
 
 export type ShareData = {
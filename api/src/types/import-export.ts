@@ -0,0 +1,56 @@
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export type ImportOptions = {
+	/**
+	 * Name or 1-based position of the worksheet to import from. Defaults to the first worksheet
+	 */
+	sheet?: string | number;
+
+	/**
+	 * 1-based row number of the row that holds the field names. Defaults to the first row
+	 */
+	headerRow?: number;
+
+	/**
+	 * Validate all rows and report the errors, without saving anything
+	 */
+	dryRun?: boolean;
+
+	/**
+	 * Save all valid rows and report the invalid ones, instead of aborting the import on the first invalid row
+	 */
+	skipInvalid?: boolean;
+
+	/**
+	 * Fields that are used to find the existing item for a row. Defaults to the primary key
+	 */
+	matchFields?: string[];
+
+	/**
+	 * Whether rows may only create new items, only update existing items, or both. Defaults to `upsert`
+	 */
+	mode?: ImportMode;
+};
+
+export type ImportRowError = {
+	/**
+	 * Row number of the invalid row, as it appears in the imported file
+	 */
+	row: number;
+	field: string | null;
+	code: string;
+	message: string;
+};
+
+export type ImportReport = {
+	total: number;
+	valid: number;
+	invalid: number;
+	errors: ImportRowError[];
+
+	/**
+	 * ID of the file that holds the rejected rows, in the format of the imported file. `null` when all rows are valid,
+	 * or when the file couldn't be saved, for example because the user isn't allowed to upload files
+	 */
+	rejected_file: string | null;
+};
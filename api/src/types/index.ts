@@ -5,6 +5,7 @@ export * from './collection.js';
 export * from './database.js';
 export * from './events.js';
 export * from './graphql.js';
+export * from './import-export.js';
 export * from './items.js';
 export * from './meta.js';
 export * from './migration.js';
@@ -0,0 +1,67 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, expect, test } from 'vitest';
+import { applyAccessTokenScope } from './apply-access-token-scope.js';
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+const permissions = [
+	{ role: 'role-id', collection: 'articles', action: 'read', fields: ['title'] },
+	{ role: 'role-id', collection: 'articles', action: 'update', fields: ['title'] },
+	{ role: 'role-id', collection: 'authors', action: 'read', fields: ['*'] },
+];
+
+test('keeps the rules for the collections and actions of the scope', async () => {
+	tracker.on.select('directus_roles').responseOnce(undefined);
+
+	const result = await applyAccessTokenScope(
+		permissions,
+		{
+			role: 'role-id',
+			roles: ['role-id'],
+			access_token_scope: [
+				{ collection: 'articles', action: 'read' },
+				{ collection: 'authors', action: 'delete' },
+			],
+		},
+		db,
+	);
+
+	expect(result).toEqual([permissions[0]]);
+});
+
+test('grants admins full access to the scope', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'admin-role-id' });
+
+	const result = await applyAccessTokenScope(
+		[],
+		{
+			role: 'admin-role-id',
+			roles: ['admin-role-id'],
+			access_token_scope: [{ collection: 'articles', action: 'read' }],
+		},
+		db,
+	);
+
+	expect(result).toEqual([
+		{
+			role: 'admin-role-id',
+			collection: 'articles',
+			action: 'read',
+			permissions: {},
+			validation: {},
+			presets: {},
+			fields: ['*'],
+		},
+	]);
+});
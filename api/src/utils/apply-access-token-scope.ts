@@ -0,0 +1,36 @@
+import type { Accountability } from '@directus/types';
+import type { Knex } from 'knex';
+
+/**
+ * Restrict the permission rules of the roles of a user to the collections and actions their access token is scoped
+ * to. Admin roles don't have rules, so tokens of admins get full access to the collections and actions instead
+ */
+export async function applyAccessTokenScope(
+	permissions: any[],
+	accountability: Accountability,
+	database: Knex,
+): Promise<any[]> {
+	const scope = accountability.access_token_scope ?? [];
+	const roles = accountability.roles ?? (accountability.role ? [accountability.role] : []);
+
+	const adminRole =
+		roles.length > 0
+			? await database.select('id').from('directus_roles').whereIn('id', roles).andWhere({ admin_access: true }).first()
+			: null;
+
+	if (adminRole) {
+		return scope.map(({ collection, action }) => ({
+			role: accountability.role,
+			collection,
+			action,
+			permissions: {},
+			validation: {},
+			presets: {},
+			fields: ['*'],
+		}));
+	}
+
+	return permissions.filter((permission) =>
+		scope.some(({ collection, action }) => permission.collection === collection && permission.action === action),
+	);
+}
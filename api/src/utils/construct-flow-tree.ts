@@ -6,15 +6,36 @@ export function constructFlowTree(flow: FlowRaw): Flow {
 
 	const operationTree = constructOperationTree(rootOperation, flow.operations);
 
+	const chains: Record<string, Operation> = {};
+
+	for (const operation of getDetachedOperations(flow)) {
+		chains[operation.key] = constructOperationTree(operation, flow.operations)!;
+	}
+
 	const flowTree: Flow = {
 		...omit(flow, 'operations'),
 		operation: operationTree,
+		chains,
 		options: flow.options ?? {},
 	};
 
 	return flowTree;
 }
 
+/**
+ * Get the first operation of every chain that isn't connected to the trigger of the flow
+ */
+function getDetachedOperations(flow: FlowRaw): OperationRaw[] {
+	const connected = new Set<string>();
+
+	for (const operation of flow.operations) {
+		if (operation.resolve !== null) connected.add(operation.resolve);
+		if (operation.reject !== null) connected.add(operation.reject);
+	}
+
+	return flow.operations.filter((operation) => operation.id !== flow.operation && !connected.has(operation.id));
+}
+
 function constructOperationTree(root: OperationRaw | null, operations: OperationRaw[]): Operation | null {
 	if (root === null) {
 		return null;
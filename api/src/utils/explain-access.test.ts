@@ -0,0 +1,170 @@
+import { ForbiddenError } from '@directus/errors';
+import type { DeepPartial, Permission, SchemaOverview } from '@directus/types';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, expect, test, vi } from 'vitest';
+import { explainAccess } from './explain-access.js';
+import { getPermissions } from './get-permissions.js';
+import { getUserRoles } from './get-user-roles.js';
+
+vi.mock('../database/index.js', () => ({
+	default: vi.fn(),
+	getDatabaseClient: vi.fn().mockReturnValue('postgres'),
+}));
+
+vi.mock('./get-permissions.js');
+
+vi.mock('./get-user-roles.js');
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+	vi.clearAllMocks();
+});
+
+const collection = 'articles';
+
+const schema = {
+	collections: {
+		[collection]: {
+			collection,
+			primary: 'id',
+			fields: {
+				id: { field: 'id', type: 'integer', special: [] },
+				title: { field: 'title', type: 'string', special: [] },
+			},
+		},
+	},
+	relations: [],
+} as DeepPartial<SchemaOverview> as SchemaOverview;
+
+function getRule(id: number, role: string, fields: string[], title: string): Permission {
+	return {
+		id,
+		role,
+		collection,
+		action: 'read',
+		permissions: { title: { _eq: title } },
+		validation: {},
+		presets: {},
+		fields,
+	};
+}
+
+test('lists the rules of every role of the user and why they do not allow access', async () => {
+	const fieldRule = getRule(1, 'editor', ['id'], 'a');
+	const itemRule = getRule(2, 'reviewer', ['*'], 'b');
+
+	tracker.on.select('directus_users').responseOnce({ id: 'user-id', role: 'editor' });
+
+	vi.mocked(getUserRoles).mockResolvedValueOnce({
+		roles: ['editor', 'reviewer'],
+		admin_access: false,
+		app_access: false,
+	});
+
+	vi.mocked(getPermissions).mockResolvedValueOnce([fieldRule]).mockResolvedValueOnce([itemRule]);
+
+	// The item exists, and only matches the filter of the first rule
+	tracker.on.select(collection).responseOnce([{ id: 1 }]);
+	tracker.on.select(collection).responseOnce([{ id: 1 }]);
+	tracker.on.select(collection).responseOnce([]);
+
+	const result = await explainAccess({ collection, user: 'user-id', item: 1, field: 'title' }, { knex: db, schema });
+
+	expect(getPermissions).toHaveBeenCalledWith(expect.objectContaining({ role: 'editor', roles: ['reviewer'] }), schema);
+
+	expect(result.roles).toEqual(['editor', 'reviewer']);
+
+	expect(result.actions.find(({ action }) => action === 'create')).toEqual({
+		action: 'create',
+		allowed: false,
+		reason: 'no_rule',
+		rules: [],
+	});
+
+	expect(result.actions.find(({ action }) => action === 'read')).toEqual({
+		action: 'read',
+		allowed: false,
+		reason: 'field',
+		rules: [
+			expect.objectContaining({ id: 1, role: 'editor', source: 'role', item: true, field: false, allowed: false }),
+			expect.objectContaining({ id: 2, role: 'reviewer', source: 'role', item: false, field: true, allowed: false }),
+		],
+	});
+});
+
+test('checks the rules against the given IP address', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'role-id', admin_access: 0, app_access: 0 });
+
+	vi.mocked(getPermissions).mockResolvedValueOnce([]);
+
+	const result = await explainAccess({ collection, role: 'role-id', ip: '203.0.113.7' }, { knex: db, schema });
+
+	expect(getPermissions).toHaveBeenCalledWith(expect.objectContaining({ ip: '203.0.113.7' }), schema);
+	expect(result.ip).toBe('203.0.113.7');
+});
+
+test('lists the rules of a share as a whole', async () => {
+	tracker.on.select('directus_shares').responseOnce({ id: 'share-id', role: 'editor', collection, item: '1' });
+
+	vi.mocked(getPermissions).mockResolvedValueOnce([getRule(1, 'editor', ['*'], 'a')]);
+
+	const result = await explainAccess({ collection, share: 'share-id' }, { knex: db, schema });
+
+	expect(getPermissions).toHaveBeenCalledOnce();
+
+	expect(getPermissions).toHaveBeenCalledWith(
+		expect.objectContaining({ role: 'editor', share: 'share-id', share_scope: { collection, item: '1' } }),
+		schema,
+	);
+
+	expect(result.share).toBe('share-id');
+
+	expect(result.actions.find(({ action }) => action === 'read')).toEqual({
+		action: 'read',
+		allowed: true,
+		reason: 'allowed',
+		rules: [expect.objectContaining({ id: 1, role: 'editor', source: 'share', allowed: true })],
+	});
+});
+
+test('includes the minimal permissions of app access', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'role-id', admin_access: 0, app_access: 1 });
+
+	vi.mocked(getPermissions).mockResolvedValueOnce([]);
+
+	const result = await explainAccess(
+		{ collection: 'directus_collections', role: 'role-id' },
+		{ knex: db, schema: { ...schema, collections: { directus_collections: schema.collections[collection]! } } },
+	);
+
+	expect(result.actions.find(({ action }) => action === 'read')).toEqual({
+		action: 'read',
+		allowed: true,
+		reason: 'allowed',
+		rules: [expect.objectContaining({ id: null, role: 'role-id', source: 'app_access', allowed: true })],
+	});
+});
+
+test('allows every action for admins', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'admin', admin_access: 1, app_access: 1 });
+
+	const result = await explainAccess({ collection, role: 'admin' }, { knex: db, schema });
+
+	expect(getPermissions).not.toBeCalled();
+	expect(result.actions.every(({ allowed, reason }) => allowed && reason === 'admin')).toBe(true);
+});
+
+test('rejects unknown fields', async () => {
+	await expect(explainAccess({ collection, field: 'unknown' }, { knex: db, schema })).rejects.toBeInstanceOf(
+		ForbiddenError,
+	);
+});
@@ -0,0 +1,224 @@
+import { ForbiddenError } from '@directus/errors';
+import { appAccessMinimalPermissions } from '@directus/system-data';
+import type {
+	AccessExplanation,
+	Accountability,
+	Permission,
+	PermissionExplanation,
+	PermissionExplanationRule,
+	PermissionsAction,
+	PrimaryKey,
+	SchemaOverview,
+} from '@directus/types';
+import { parseFilter, parsePreset, toBoolean } from '@directus/utils';
+import type { Knex } from 'knex';
+import { isEmpty } from 'lodash-es';
+import { ItemsService } from '../services/items.js';
+import { getPermissions } from './get-permissions.js';
+import { getUserRoles } from './get-user-roles.js';
+
+export type ExplainAccessOptions = {
+	collection: string;
+	user?: string | null;
+	role?: string | null;
+	share?: string | null;
+	item?: PrimaryKey | null;
+	field?: string | null;
+	/**
+	 * IP address to check the rules that are limited to certain networks against
+	 */
+	ip?: string | null;
+};
+
+/**
+ * Explain for each action whether a user, role or share is allowed to access a collection, and optionally a specific
+ * item and field, listing the permission rules that led to the decision. Without a user, role or share, the public
+ * access is explained
+ */
+export async function explainAccess(
+	options: ExplainAccessOptions,
+	context: { knex: Knex; schema: SchemaOverview },
+): Promise<AccessExplanation> {
+	const { collection, item = null, field = null, ip = null } = options;
+	const schema = context.schema.collections[collection];
+
+	if (!schema || (field !== null && !schema.fields[field])) {
+		throw new ForbiddenError();
+	}
+
+	const itemsService = new ItemsService(collection, { knex: context.knex, schema: context.schema });
+
+	if (item !== null) {
+		// Throws a forbidden error for items that don't exist
+		await itemsService.readOne(item, { fields: [schema.primary] });
+	}
+
+	const subject = await getSubject(options, context.knex);
+
+	const actions: PermissionsAction[] = ['create', 'read', 'update', 'delete', 'share'];
+	const explanations: PermissionExplanation[] = [];
+
+	const rolePermissions: Permission[] = [];
+	const sharePermissions: Permission[] = [];
+	const appPermissions: Permission[] = [];
+
+	if (subject.share_scope) {
+		// The rules of a share are merged with those of its role, so they can only be explained as a whole
+		const permissions = await getPermissions({ ...subject, ip }, context.schema);
+
+		sharePermissions.push(...permissions.filter((permission) => permission.collection === collection));
+	} else if (subject.admin !== true) {
+		// Permissions are read per role, so every rule can be traced back to the role it belongs to
+		for (const role of subject.roles.length > 0 ? subject.roles : [null]) {
+			const permissions = await getPermissions(
+				{ ...subject, roles: role ? [role] : [], app: false, ip },
+				context.schema,
+			);
+
+			rolePermissions.push(...permissions.filter((permission) => permission.collection === collection));
+		}
+	}
+
+	if (subject.admin !== true && subject.app === true) {
+		for (const permission of appAccessMinimalPermissions) {
+			if (permission.collection !== collection) continue;
+
+			appPermissions.push({
+				...permission,
+				role: subject.role,
+				permissions: parseFilter(permission.permissions, subject),
+				validation: parseFilter(permission.validation, subject),
+				presets: parsePreset(permission.presets, subject, {}),
+			});
+		}
+	}
+
+	for (const action of actions) {
+		if (subject.admin === true) {
+			explanations.push({ action, allowed: true, reason: 'admin', rules: [] });
+			continue;
+		}
+
+		const candidates = [
+			...rolePermissions.map((permission) => ({ source: 'role' as const, permission })),
+			...sharePermissions.map((permission) => ({ source: 'share' as const, permission })),
+			...appPermissions.map((permission) => ({ source: 'app_access' as const, permission })),
+		].filter(({ permission }) => permission.action === action);
+
+		const rules: PermissionExplanationRule[] = [];
+
+		for (const { source, permission } of candidates) {
+			let matchesItem: boolean | null = null;
+
+			// New items don't exist yet, so only the validation of a create rule applies to them
+			if (item !== null && action !== 'create') {
+				matchesItem =
+					isEmpty(permission.permissions) ||
+					(
+						await itemsService.readByQuery({
+							filter: { _and: [{ [schema.primary]: { _eq: item } }, permission.permissions!] },
+							fields: [schema.primary],
+							limit: 1,
+						})
+					).length > 0;
+			}
+
+			const includesField =
+				field !== null ? !!permission.fields?.includes('*') || !!permission.fields?.includes(field) : null;
+
+			rules.push({
+				id: permission.id ?? null,
+				role: permission.role,
+				source,
+				permissions: permission.permissions,
+				validation: permission.validation,
+				fields: permission.fields,
+				item: matchesItem,
+				field: includesField,
+				allowed: matchesItem !== false && includesField !== false,
+			});
+		}
+
+		explanations.push({ action, ...getDecision(rules), rules });
+	}
+
+	return {
+		user: subject.user ?? null,
+		role: subject.role,
+		share: subject.share ?? null,
+		ip,
+		roles: subject.roles,
+		admin_access: subject.admin === true,
+		app_access: subject.app === true,
+		collection,
+		item,
+		field,
+		actions: explanations,
+	};
+}
+
+async function getSubject(
+	{ user, role, share }: ExplainAccessOptions,
+	knex: Knex,
+): Promise<Accountability & { roles: string[] }> {
+	if (share) {
+		const record = await knex
+			.select('id', 'role', 'collection', 'item')
+			.from('directus_shares')
+			.where({ id: share })
+			.first();
+
+		if (!record) throw new ForbiddenError();
+
+		// Same as the accountability of a share session, which never has admin or app access
+		return {
+			user: null,
+			role: record.role,
+			roles: record.role ? [record.role] : [],
+			admin: false,
+			app: false,
+			share: record.id,
+			share_scope: { collection: record.collection, item: record.item },
+		};
+	}
+
+	if (user) {
+		const record = await knex.select('id', 'role').from('directus_users').where({ id: user }).first();
+
+		if (!record) throw new ForbiddenError();
+
+		const { roles, admin_access, app_access } = await getUserRoles(record.id, knex);
+
+		return { user: record.id, role: record.role, roles, admin: admin_access, app: app_access };
+	}
+
+	if (role) {
+		const record = await knex
+			.select('id', 'admin_access', 'app_access')
+			.from('directus_roles')
+			.where({ id: role })
+			.first();
+
+		if (!record) throw new ForbiddenError();
+
+		return {
+			user: null,
+			role: record.id,
+			roles: [record.id],
+			admin: toBoolean(record.admin_access),
+			app: toBoolean(record.app_access),
+		};
+	}
+
+	return { user: null, role: null, roles: [], admin: false, app: false };
+}
+
+function getDecision(rules: PermissionExplanationRule[]): Pick<PermissionExplanation, 'allowed' | 'reason'> {
+	if (rules.some((rule) => rule.allowed)) return { allowed: true, reason: 'allowed' };
+	if (rules.length === 0) return { allowed: false, reason: 'no_rule' };
+
+	// The item is accessible through at least one rule, but none of those include the field
+	if (rules.some((rule) => rule.item !== false)) return { allowed: false, reason: 'field' };
+
+	return { allowed: false, reason: 'item' };
+}
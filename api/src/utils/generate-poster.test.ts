@@ -0,0 +1,83 @@
+import { execa } from 'execa';
+import { afterEach, expect, test, vi } from 'vitest';
+import { generatePoster } from './generate-poster.js';
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({
+		FFMPEG_PATH: 'ffmpeg',
+		PDFTOPPM_PATH: 'pdftoppm',
+		ASSETS_TRANSFORM_TIMEOUT: '7500ms',
+	}),
+}));
+
+vi.mock('execa');
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+test('renders the first page of a PDF at the stored dimensions', async () => {
+	const file = { type: 'application/pdf', width: 1545, height: 2000, duration: null };
+
+	await expect(generatePoster('/tmp/media/source.pdf', file, '/tmp/media')).resolves.toBe('/tmp/media/poster.jpg');
+
+	expect(execa).toHaveBeenCalledWith(
+		'pdftoppm',
+		[
+			'-jpeg',
+			'-f',
+			'1',
+			'-l',
+			'1',
+			'-singlefile',
+			'-scale-to-x',
+			'1545',
+			'-scale-to-y',
+			'2000',
+			'/tmp/media/source.pdf',
+			'/tmp/media/poster',
+		],
+		{ timeout: 7500 },
+	);
+});
+
+test('renders the first page of a PDF without stored dimensions at the default size', async () => {
+	const file = { type: 'application/pdf', width: null, height: null, duration: null };
+
+	await generatePoster('/tmp/media/source.pdf', file, '/tmp/media');
+
+	expect(vi.mocked(execa).mock.calls[0]![1]).toEqual(expect.arrayContaining(['-scale-to', '2000']));
+});
+
+test('extracts a frame a tenth into a video', async () => {
+	const file = { type: 'video/mp4', width: 1920, height: 1080, duration: 30000 };
+
+	await expect(generatePoster('/tmp/media/source.mp4', file, '/tmp/media')).resolves.toBe('/tmp/media/poster.jpg');
+
+	expect(execa).toHaveBeenCalledWith(
+		'ffmpeg',
+		[
+			'-v',
+			'error',
+			'-ss',
+			'3',
+			'-i',
+			'/tmp/media/source.mp4',
+			'-frames:v',
+			'1',
+			'-q:v',
+			'2',
+			'-y',
+			'/tmp/media/poster.jpg',
+		],
+		{ timeout: 7500 },
+	);
+});
+
+test('extracts a frame no further than 10 seconds into a video', async () => {
+	const file = { type: 'video/mp4', width: 1920, height: 1080, duration: 3600000 };
+
+	await generatePoster('/tmp/media/source.mp4', file, '/tmp/media');
+
+	expect(vi.mocked(execa).mock.calls[0]![1]).toEqual(expect.arrayContaining(['-ss', '10']));
+});
@@ -0,0 +1,44 @@
+import { useEnv } from '@directus/env';
+import type { File } from '@directus/types';
+import { execa } from 'execa';
+import { join } from 'path';
+import { DOCUMENT_POSTER_SIZE } from '../constants.js';
+import { getMilliseconds } from './get-milliseconds.js';
+
+/**
+ * Render the first page of a PDF through pdftoppm, or extract a frame of a video through ffmpeg, as a JPEG image in
+ * the given directory. Returns the path of the image
+ */
+export async function generatePoster(
+	filepath: string,
+	file: Pick<File, 'type' | 'width' | 'height' | 'duration'>,
+	directory: string,
+): Promise<string> {
+	const env = useEnv();
+
+	const options = { timeout: getMilliseconds(env['ASSETS_TRANSFORM_TIMEOUT'], 0) };
+
+	if (file.type === 'application/pdf') {
+		// Render the page at the dimensions that were stored on upload, so transformations line up with the poster
+		const size =
+			file.width && file.height
+				? ['-scale-to-x', String(file.width), '-scale-to-y', String(file.height)]
+				: ['-scale-to', String(DOCUMENT_POSTER_SIZE)];
+
+		await execa(
+			env['PDFTOPPM_PATH'] as string,
+			['-jpeg', '-f', '1', '-l', '1', '-singlefile', ...size, filepath, join(directory, 'poster')],
+			options,
+		);
+	} else {
+		// The first frames of a video are often blank, so the frame is taken a little further in
+		const position = file.duration ? Math.min(file.duration / 10, 10000) / 1000 : 0;
+
+		const input = ['-ss', String(position), '-i', filepath];
+		const output = ['-frames:v', '1', '-q:v', '2', '-y', join(directory, 'poster.jpg')];
+
+		await execa(env['FFMPEG_PATH'] as string, ['-v', 'error', ...input, ...output], options);
+	}
+
+	return join(directory, 'poster.jpg');
+}
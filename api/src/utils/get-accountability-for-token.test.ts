@@ -3,9 +3,15 @@ import jwt from 'jsonwebtoken';
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import getDatabase from '../database/index.js';
 import { getAccountabilityForToken } from './get-accountability-for-token.js';
+import { getUserRoles } from './get-user-roles.js';
+import { verifyAccessToken } from './verify-access-token.js';
 
 vi.mock('@directus/env');
 
+vi.mock('./get-user-roles.js');
+
+vi.mock('./verify-access-token.js');
+
 vi.mock('../database/index', () => {
 	const self: Record<string, any> = {
 		select: vi.fn(() => self),
@@ -78,9 +84,13 @@ describe('getAccountabilityForToken', async () => {
 		vi.spyOn(db, 'first').mockReturnValue({
 			id: 'user-id',
 			role: 'role-id',
+		} as any);
+
+		vi.mocked(getUserRoles).mockResolvedValue({
+			roles: ['role-id', 'other-role-id'],
 			admin_access: false,
 			app_access: true,
-		} as any);
+		});
 
 		const token = jwt.sign({ role: '123-456-789' }, 'bad-secret');
 		const result = await getAccountabilityForToken(token);
@@ -88,11 +98,54 @@ describe('getAccountabilityForToken', async () => {
 		expect(result).toStrictEqual({
 			user: 'user-id',
 			role: 'role-id',
+			roles: ['role-id', 'other-role-id'],
 			admin: false,
 			app: true,
 		});
 	});
 
+	test('all roles of the user from the token payload', async () => {
+		const token = jwt.sign(
+			{ id: 'user-id', role: 'role-id', roles: ['role-id', 'other-role-id'], app_access: 1, admin_access: 0 },
+			'super-secure-secret',
+			{ issuer: 'directus' },
+		);
+
+		const result = await getAccountabilityForToken(token);
+		expect(result.roles).toEqual(['role-id', 'other-role-id']);
+	});
+
+	test('find personal access token restricted to a scope', async () => {
+		const db = getDatabase();
+		vi.spyOn(db, 'first').mockReturnValue(undefined as any);
+
+		vi.mocked(verifyAccessToken).mockResolvedValueOnce({
+			user: 'user-id',
+			role: 'role-id',
+			scope: [{ collection: 'articles', action: 'read' }],
+		});
+
+		vi.mocked(getUserRoles).mockResolvedValue({
+			roles: ['role-id'],
+			admin_access: true,
+			app_access: true,
+		});
+
+		const result = await getAccountabilityForToken('personal-access-token', { role: null, ip: '10.0.0.1' });
+
+		expect(verifyAccessToken).toHaveBeenCalledWith('personal-access-token', '10.0.0.1');
+
+		expect(result).toStrictEqual({
+			user: 'user-id',
+			role: 'role-id',
+			roles: ['role-id'],
+			admin: false,
+			app: false,
+			access_token_scope: [{ collection: 'articles', action: 'read' }],
+			ip: '10.0.0.1',
+		});
+	});
+
 	test('no user found', async () => {
 		const db = getDatabase();
 		vi.spyOn(db, 'first').mockReturnValue(false as any);
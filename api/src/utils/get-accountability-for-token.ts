@@ -1,8 +1,10 @@
 import { InvalidCredentialsError } from '@directus/errors';
-import type { Accountability } from '@directus/types';
+import type { AccessTokenScope, Accountability } from '@directus/types';
 import getDatabase from '../database/index.js';
 import { getSecret } from './get-secret.js';
+import { getUserRoles } from './get-user-roles.js';
 import isDirectusJWT from './is-directus-jwt.js';
+import { verifyAccessToken } from './verify-access-token.js';
 import { verifySessionJWT } from './verify-session-jwt.js';
 import { verifyAccessJWT } from './jwt.js';
 
@@ -28,6 +30,7 @@ export async function getAccountabilityForToken(
 			}
 
 			accountability.role = payload.role;
+			if (payload.roles) accountability.roles = payload.roles;
 			accountability.admin = payload.admin_access === true || payload.admin_access == 1;
 			accountability.app = payload.app_access === true || payload.app_access == 1;
 
@@ -38,24 +41,46 @@ export async function getAccountabilityForToken(
 			// Try finding the user with the provided token
 			const database = getDatabase();
 
-			const user = await database
-				.select('directus_users.id', 'directus_users.role', 'directus_roles.admin_access', 'directus_roles.app_access')
+			let user: { id: string; role: string | null } | undefined = await database
+				.select('id', 'role')
 				.from('directus_users')
-				.leftJoin('directus_roles', 'directus_users.role', 'directus_roles.id')
 				.where({
-					'directus_users.token': token,
+					token,
 					status: 'active',
 				})
 				.first();
 
+			let scope: AccessTokenScope[] | null = null;
+
+			if (!user) {
+				// Otherwise try finding one of the personal access tokens of a user
+				const accessToken = await verifyAccessToken(token, accountability.ip);
+
+				if (accessToken) {
+					user = { id: accessToken.user, role: accessToken.role };
+					scope = accessToken.scope;
+				}
+			}
+
 			if (!user) {
 				throw new InvalidCredentialsError();
 			}
 
+			const { roles, admin_access, app_access } = await getUserRoles(user.id, database);
+
 			accountability.user = user.id;
 			accountability.role = user.role;
-			accountability.admin = user.admin_access === true || user.admin_access == 1;
-			accountability.app = user.app_access === true || user.app_access == 1;
+			accountability.roles = roles;
+			accountability.admin = admin_access;
+			accountability.app = app_access;
+
+			// A token restricted to a scope only gets the permissions of the scope, even for admins, and isn't meant for
+			// the app
+			if (scope) {
+				accountability.admin = false;
+				accountability.app = false;
+				accountability.access_token_scope = scope;
+			}
 		}
 	}
 
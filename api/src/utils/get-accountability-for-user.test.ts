@@ -0,0 +1,57 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, expect, test, vi } from 'vitest';
+import { getAccountabilityForUser } from './get-accountability-for-user.js';
+import { getPermissions } from './get-permissions.js';
+
+vi.mock('./get-permissions.js', () => ({
+	getPermissions: vi.fn().mockResolvedValue([{ collection: 'articles', action: 'read' }]),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+	vi.clearAllMocks();
+});
+
+test('returns the roles and permissions of the user', async () => {
+	tracker.on.select('directus_users').responseOnce({ role: 'role-a' });
+	tracker.on.select('directus_users').responseOnce({ role: 'role-a' });
+	tracker.on.select('directus_user_roles').responseOnce([{ role: 'role-b' }]);
+	tracker.on.select('directus_roles').responseOnce([{ admin_access: false, app_access: true }]);
+
+	const result = await getAccountabilityForUser('user-1', { schema: {} as any, database: db });
+
+	expect(result).toEqual({
+		user: 'user-1',
+		role: 'role-a',
+		roles: ['role-a', 'role-b'],
+		admin: false,
+		app: true,
+		permissions: [{ collection: 'articles', action: 'read' }],
+	});
+
+	expect(tracker.history.select[0]!.bindings).toEqual(['user-1', 'active', 1]);
+
+	expect(getPermissions).toHaveBeenCalledWith(
+		expect.objectContaining({ user: 'user-1', roles: ['role-a', 'role-b'] }),
+		{},
+	);
+});
+
+test('throws when the user is not active anymore', async () => {
+	tracker.on.select('directus_users').responseOnce(undefined);
+
+	await expect(getAccountabilityForUser('user-1', { schema: {} as any, database: db })).rejects.toThrow(
+		`User "user-1" doesn't exist or isn't active anymore.`,
+	);
+
+	expect(getPermissions).not.toHaveBeenCalled();
+});
@@ -0,0 +1,40 @@
+import type { Accountability, SchemaOverview } from '@directus/types';
+import type { Knex } from 'knex';
+import { getPermissions } from './get-permissions.js';
+import { getUserRoles } from './get-user-roles.js';
+
+/**
+ * Get the accountability of a user, including their permissions, to act on their behalf outside of a request, for
+ * example when running work they scheduled
+ */
+export async function getAccountabilityForUser(
+	user: string,
+	context: {
+		schema: SchemaOverview;
+		database: Knex;
+	},
+): Promise<Accountability> {
+	const record = await context.database
+		.select('role')
+		.from('directus_users')
+		.where({ id: user, status: 'active' })
+		.first();
+
+	if (!record) {
+		throw new Error(`User "${user}" doesn't exist or isn't active anymore.`);
+	}
+
+	const { roles, admin_access, app_access } = await getUserRoles(user, context.database);
+
+	const accountability: Accountability = {
+		user,
+		role: record.role,
+		roles,
+		admin: admin_access,
+		app: app_access,
+	};
+
+	accountability.permissions = await getPermissions(accountability, context.schema);
+
+	return accountability;
+}
@@ -0,0 +1,29 @@
+import { expect, test } from 'vitest';
+import { getDeviceName } from './get-device-name.js';
+
+test.each([
+	[
+		'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36 Edg/125.0.0.0',
+		'Edge on Windows',
+	],
+	[
+		'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+		'Safari on macOS',
+	],
+	['Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0', 'Firefox on Linux'],
+	[
+		'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+		'Safari on iPadOS',
+	],
+	[
+		'Mozilla/5.0 (Linux; Android 14; SM-T870) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/25.0 Chrome/121.0.0.0 Safari/537.36',
+		'Samsung Internet on Android',
+	],
+])('returns the browser and operating system of %s', (userAgent, device) => {
+	expect(getDeviceName(userAgent)).toBe(device);
+});
+
+test('returns null for unknown user agents', () => {
+	expect(getDeviceName('curl/8.5.0')).toBe(null);
+	expect(getDeviceName(null)).toBe(null);
+});
@@ -0,0 +1,32 @@
+const browsers: [name: string, pattern: RegExp][] = [
+	['Edge', /Edg(e|A|iOS)?\//],
+	['Opera', /OPR\/|Opera/],
+	['Samsung Internet', /SamsungBrowser\//],
+	['Firefox', /Firefox\/|FxiOS\//],
+	['Chrome', /Chrome\/|CriOS\//],
+	['Safari', /Safari\//],
+];
+
+const systems: [name: string, pattern: RegExp][] = [
+	['iPadOS', /iPad/],
+	['iOS', /iPhone|iPod/],
+	['Android', /Android/],
+	['ChromeOS', /CrOS/],
+	['Windows', /Windows/],
+	['macOS', /Macintosh|Mac OS X/],
+	['Linux', /Linux/],
+];
+
+/**
+ * Get a readable name for the browser and operating system in a user agent, like "Firefox on Windows"
+ */
+export function getDeviceName(userAgent: string | null | undefined): string | null {
+	if (!userAgent) return null;
+
+	const browser = browsers.find(([, pattern]) => pattern.test(userAgent))?.[0];
+	const system = systems.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+	if (browser && system) return `${browser} on ${system}`;
+
+	return browser ?? system ?? null;
+}
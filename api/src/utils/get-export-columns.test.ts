@@ -0,0 +1,59 @@
+import type { Permission, SchemaOverview } from '@directus/types';
+import { expect, test } from 'vitest';
+import { getExportColumns } from './get-export-columns.js';
+
+const field = (name: string, type = 'string') =>
+	({ field: name, type }) as SchemaOverview['collections'][string]['fields'][string];
+
+const schema = {
+	collections: {
+		articles: {
+			fields: {
+				id: field('id', 'integer'),
+				title: field('title'),
+				data: field('data', 'json'),
+				author: field('author', 'uuid'),
+				comments: field('comments', 'alias'),
+				divider: field('divider', 'alias'),
+			},
+		},
+		authors: {
+			fields: {
+				id: field('id', 'uuid'),
+				name: field('name'),
+			},
+		},
+		comments: {
+			fields: {
+				id: field('id', 'integer'),
+				article: field('article', 'integer'),
+			},
+		},
+	},
+	relations: [
+		{ collection: 'articles', field: 'author', related_collection: 'authors', meta: null },
+		{ collection: 'comments', field: 'article', related_collection: 'articles', meta: { one_field: 'comments' } },
+	],
+} as unknown as SchemaOverview;
+
+test('Expands wildcards to the fields of the collection, without presentation fields', () => {
+	expect(getExportColumns(schema, 'articles', ['*'])).toEqual(['id', 'title', 'data', 'author', 'comments']);
+});
+
+test('Spreads many-to-one fields over a column per nested field', () => {
+	expect(getExportColumns(schema, 'articles', ['title', 'author.name', 'author.*'])).toEqual([
+		'title',
+		'author.name',
+		'author.id',
+	]);
+});
+
+test('Keeps one-to-many fields in a single column', () => {
+	expect(getExportColumns(schema, 'articles', ['comments.*'])).toEqual(['comments']);
+});
+
+test('Only expands wildcards to the fields the user is allowed to read', () => {
+	const permissions = [{ collection: 'articles', action: 'read', fields: ['id', 'title'] }] as Permission[];
+
+	expect(getExportColumns(schema, 'articles', ['*'], permissions)).toEqual(['id', 'title']);
+});
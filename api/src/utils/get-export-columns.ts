@@ -0,0 +1,66 @@
+import type { Permission, SchemaOverview } from '@directus/types';
+
+/**
+ * Get the (flattened) columns of a spreadsheet export from the requested fields, so the header row can be written
+ * before any item is read. Wildcards are expanded to the fields the user is allowed to read. Many-to-one fields are
+ * spread over a column per nested field, while other relational and JSON fields are kept in a single column
+ */
+export function getExportColumns(
+	schema: SchemaOverview,
+	collection: string,
+	fields: string[],
+	permissions: Permission[] | null = null,
+): string[] {
+	const columns = new Set<string>();
+
+	for (const field of fields) {
+		for (const column of expandField(schema, collection, field, permissions)) {
+			columns.add(column);
+		}
+	}
+
+	return [...columns];
+}
+
+function expandField(
+	schema: SchemaOverview,
+	collection: string,
+	field: string,
+	permissions: Permission[] | null,
+): string[] {
+	const [head, ...rest] = field.split('.');
+	const nested = rest.join('.');
+
+	const names = head === '*' ? getReadableFields(schema, collection, permissions) : [head!.split(':')[0]!];
+
+	return names.flatMap((name) => {
+		const relatedCollection = schema.relations.find(
+			(relation) => relation.collection === collection && relation.field === name,
+		)?.related_collection;
+
+		if (!nested || !relatedCollection) return [name];
+
+		return expandField(schema, relatedCollection, nested, permissions).map((column) => `${name}.${column}`);
+	});
+}
+
+function getReadableFields(schema: SchemaOverview, collection: string, permissions: Permission[] | null): string[] {
+	const fields = schema.collections[collection]?.fields ?? {};
+
+	const permittedFields = permissions?.find(
+		(permission) => permission.collection === collection && permission.action === 'read',
+	)?.fields;
+
+	return Object.values(fields)
+		.filter((field) => !permittedFields || permittedFields.includes('*') || permittedFields.includes(field.field))
+		.filter((field) => field.type !== 'alias' || isRelational(schema, collection, field.field))
+		.map((field) => field.field);
+}
+
+function isRelational(schema: SchemaOverview, collection: string, field: string): boolean {
+	return schema.relations.some(
+		(relation) =>
+			(relation.collection === collection && relation.field === field) ||
+			(relation.related_collection === collection && relation.meta?.one_field === field),
+	);
+}
@@ -0,0 +1,42 @@
+import { ForbiddenError, RecordNotUniqueError } from '@directus/errors';
+import { FailedValidationError } from '@directus/validation';
+import { expect, test, vi } from 'vitest';
+import { getImportRowErrors } from './get-import-row-errors.js';
+
+vi.mock('../logger.js', () => ({
+	useLogger: () => ({ warn: vi.fn() }),
+}));
+
+test('Returns the field and code of a single error', () => {
+	const error = new RecordNotUniqueError({ collection: 'articles', field: 'slug' });
+
+	expect(getImportRowErrors(3, error)).toEqual([
+		{ row: 3, field: 'slug', code: 'RECORD_NOT_UNIQUE', message: error.message },
+	]);
+});
+
+test('Returns null as field for errors without a field', () => {
+	const error = new ForbiddenError();
+
+	expect(getImportRowErrors(1, error)).toEqual([{ row: 1, field: null, code: 'FORBIDDEN', message: error.message }]);
+});
+
+test('Returns an entry for every error of a list of validation errors', () => {
+	const errors = [
+		new FailedValidationError({ field: 'title', type: 'required' }),
+		new FailedValidationError({ field: 'year', type: 'gt', valid: 2000 }),
+	];
+
+	expect(getImportRowErrors(5, errors)).toEqual([
+		{ row: 5, field: 'title', code: 'FAILED_VALIDATION', message: errors[0]!.message },
+		{ row: 5, field: 'year', code: 'FAILED_VALIDATION', message: errors[1]!.message },
+	]);
+});
+
+test('Reports errors that are not Directus errors without their details', () => {
+	const error = new Error('insert into "articles" - invalid input syntax for type integer: "abc"');
+
+	expect(getImportRowErrors(1, error)).toEqual([
+		{ row: 1, field: null, code: 'INTERNAL_SERVER_ERROR', message: 'An unexpected error occurred.' },
+	]);
+});
@@ -0,0 +1,25 @@
+import { isDirectusError } from '@directus/errors';
+import { useLogger } from '../logger.js';
+import type { ImportRowError } from '../types/index.js';
+
+/**
+ * Convert the error(s) thrown while saving a single import row into entries for the import report.
+ * Anything that isn't a Directus error, like an untranslated database error, is logged and reported without its
+ * details, as those aren't meant for the user
+ */
+export function getImportRowErrors(row: number, error: unknown): ImportRowError[] {
+	const errors = Array.isArray(error) ? error : [error];
+
+	return errors.map((error) => {
+		if (!isDirectusError(error)) {
+			useLogger().warn(error, `Unexpected error while importing row ${row}`);
+
+			return { row, field: null, code: 'INTERNAL_SERVER_ERROR', message: 'An unexpected error occurred.' };
+		}
+
+		const extensions = error.extensions as Record<string, unknown> | undefined;
+		const field = typeof extensions?.['field'] === 'string' ? extensions['field'] : null;
+
+		return { row, field, code: error.code, message: error.message };
+	});
+}
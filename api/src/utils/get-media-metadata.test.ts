@@ -0,0 +1,100 @@
+import { execa } from 'execa';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { getMediaMetadata } from './get-media-metadata.js';
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({
+		FFPROBE_PATH: 'ffprobe',
+		PDFINFO_PATH: 'pdfinfo',
+		ASSETS_TRANSFORM_TIMEOUT: '7500ms',
+	}),
+}));
+
+vi.mock('execa');
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+describe('videos', () => {
+	test('extracts the dimensions, duration and codecs', async () => {
+		vi.mocked(execa).mockResolvedValue({
+			stdout: JSON.stringify({
+				streams: [
+					{ codec_type: 'video', codec_name: 'h264', width: 1920, height: 1080, avg_frame_rate: '30000/1001' },
+					{ codec_type: 'audio', codec_name: 'aac' },
+				],
+				format: { duration: '12.3456', tags: { title: ' Site visit ' } },
+			}),
+		} as any);
+
+		await expect(getMediaMetadata('/tmp/source.mp4', 'video/mp4')).resolves.toEqual({
+			width: 1920,
+			height: 1080,
+			duration: 12346,
+			title: 'Site visit',
+			metadata: {
+				video: { codec: 'h264', frame_rate: 29.97 },
+				audio: { codec: 'aac' },
+			},
+		});
+
+		expect(execa).toHaveBeenCalledWith('ffprobe', expect.arrayContaining(['/tmp/source.mp4']), { timeout: 7500 });
+	});
+
+	test('swaps the dimensions of rotated videos', async () => {
+		vi.mocked(execa).mockResolvedValue({
+			stdout: JSON.stringify({
+				streams: [
+					{ codec_type: 'video', codec_name: 'hevc', width: 1920, height: 1080, side_data_list: [{ rotation: -90 }] },
+				],
+				format: {},
+			}),
+		} as any);
+
+		const metadata = await getMediaMetadata('/tmp/source.mov', 'video/quicktime');
+
+		expect(metadata.width).toBe(1080);
+		expect(metadata.height).toBe(1920);
+		expect(metadata.duration).toBeUndefined();
+	});
+});
+
+describe('PDFs', () => {
+	test('extracts the page count, title and poster dimensions', async () => {
+		vi.mocked(execa).mockResolvedValue({
+			stdout: [
+				'Title:           Field Report: Bridge 12',
+				'Producer:        LibreOffice',
+				'Pages:           14',
+				'Page size:       612 x 792 pts (letter)',
+				'Page rot:        0',
+			].join('\n'),
+		} as any);
+
+		await expect(getMediaMetadata('/tmp/source.pdf', 'application/pdf')).resolves.toEqual({
+			width: 1545,
+			height: 2000,
+			title: 'Field Report: Bridge 12',
+			metadata: {
+				pdf: { pages: 14, title: 'Field Report: Bridge 12' },
+			},
+		});
+
+		expect(execa).toHaveBeenCalledWith('pdfinfo', ['-enc', 'UTF-8', '/tmp/source.pdf'], { timeout: 7500 });
+	});
+
+	test('swaps the dimensions of rotated pages', async () => {
+		vi.mocked(execa).mockResolvedValue({
+			stdout: ['Pages:           1', 'Page size:       612 x 792 pts (letter)', 'Page rot:        90'].join('\n'),
+		} as any);
+
+		await expect(getMediaMetadata('/tmp/source.pdf', 'application/pdf')).resolves.toEqual({
+			width: 2000,
+			height: 1545,
+			metadata: {
+				pdf: { pages: 1, title: null },
+			},
+		});
+	});
+});
@@ -0,0 +1,145 @@
+import { useEnv } from '@directus/env';
+import type { File } from '@directus/types';
+import { execa } from 'execa';
+import { DOCUMENT_POSTER_SIZE } from '../constants.js';
+import { getMilliseconds } from './get-milliseconds.js';
+
+export type MediaMetadata = Partial<Pick<File, 'height' | 'width' | 'duration' | 'title' | 'metadata'>>;
+
+type ProbeStream = {
+	codec_type?: string;
+	codec_name?: string;
+	width?: number;
+	height?: number;
+	duration?: string;
+	avg_frame_rate?: string;
+	tags?: Record<string, string>;
+	side_data_list?: { rotation?: number }[];
+};
+
+type ProbeOutput = {
+	streams?: ProbeStream[];
+	format?: { duration?: string; tags?: Record<string, string> };
+};
+
+/**
+ * Extract the dimensions, duration and codecs of a video through ffprobe, or the page count and title of a PDF
+ * through pdfinfo. The dimensions of a PDF are those of the poster image of its first page
+ */
+export async function getMediaMetadata(filepath: string, type: string): Promise<MediaMetadata> {
+	if (type === 'application/pdf') {
+		return await getDocumentMetadata(filepath);
+	}
+
+	return await getVideoMetadata(filepath);
+}
+
+async function getVideoMetadata(filepath: string): Promise<MediaMetadata> {
+	const env = useEnv();
+
+	const { stdout } = await execa(
+		env['FFPROBE_PATH'] as string,
+		['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filepath],
+		{ timeout: getMilliseconds(env['ASSETS_TRANSFORM_TIMEOUT'], 0) },
+	);
+
+	const { streams = [], format = {} }: ProbeOutput = JSON.parse(stdout);
+
+	const video = streams.find((stream) => stream.codec_type === 'video');
+	const audio = streams.find((stream) => stream.codec_type === 'audio');
+
+	const metadata: MediaMetadata = {};
+	const details: Record<string, unknown> = {};
+
+	if (video?.width && video.height) {
+		const rotation = Number(
+			video.tags?.['rotate'] ?? video.side_data_list?.find((data) => data.rotation)?.rotation ?? 0,
+		);
+
+		// Videos that are rotated by a quarter turn are played, and their posters extracted, with swapped dimensions
+		const isRotated = Math.abs(rotation) % 180 === 90;
+
+		metadata.width = isRotated ? video.height : video.width;
+		metadata.height = isRotated ? video.width : video.height;
+	}
+
+	const duration = Number(format.duration ?? video?.duration);
+
+	if (Number.isFinite(duration)) {
+		metadata.duration = Math.round(duration * 1000);
+	}
+
+	if (format.tags?.['title']?.trim()) {
+		metadata.title = format.tags['title'].trim();
+	}
+
+	if (video) {
+		details['video'] = { codec: video.codec_name ?? null, frame_rate: parseFrameRate(video.avg_frame_rate) };
+	}
+
+	if (audio) {
+		details['audio'] = { codec: audio.codec_name ?? null };
+	}
+
+	metadata.metadata = details;
+
+	return metadata;
+}
+
+async function getDocumentMetadata(filepath: string): Promise<MediaMetadata> {
+	const env = useEnv();
+
+	const { stdout } = await execa(env['PDFINFO_PATH'] as string, ['-enc', 'UTF-8', filepath], {
+		timeout: getMilliseconds(env['ASSETS_TRANSFORM_TIMEOUT'], 0),
+	});
+
+	const info: Record<string, string> = {};
+
+	for (const line of stdout.split('\n')) {
+		const separator = line.indexOf(':');
+
+		if (separator > 0) {
+			info[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+		}
+	}
+
+	const metadata: MediaMetadata = {};
+
+	const pageSize = info['Page size']?.match(/^([\d.]+) x ([\d.]+)/);
+
+	if (pageSize) {
+		const isRotated = Math.abs(Number(info['Page rot'] ?? 0)) % 180 === 90;
+		const width = Number(isRotated ? pageSize[2] : pageSize[1]);
+		const height = Number(isRotated ? pageSize[1] : pageSize[2]);
+		const scale = DOCUMENT_POSTER_SIZE / Math.max(width, height);
+
+		metadata.width = Math.round(width * scale);
+		metadata.height = Math.round(height * scale);
+	}
+
+	if (info['Title']) {
+		metadata.title = info['Title'];
+	}
+
+	metadata.metadata = {
+		pdf: {
+			pages: info['Pages'] ? Number(info['Pages']) : null,
+			title: info['Title'] || null,
+		},
+	};
+
+	return metadata;
+}
+
+/**
+ * Frame rates are reported as fractions, like "30000/1001"
+ */
+function parseFrameRate(frameRate: string | undefined): number | null {
+	if (!frameRate) return null;
+
+	const [numerator, denominator] = frameRate.split('/').map(Number);
+
+	if (!numerator || !denominator) return null;
+
+	return Math.round((numerator / denominator) * 100) / 100;
+}
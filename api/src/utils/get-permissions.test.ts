@@ -0,0 +1,92 @@
+import type { SchemaOverview } from '@directus/types';
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, beforeEach, expect, test, vi } from 'vitest';
+import getDatabase from '../database/index.js';
+import { getPermissions } from './get-permissions.js';
+
+vi.mock('../database/index.js');
+
+vi.mock('../cache.js', () => ({
+	getCache: vi.fn().mockReturnValue({ cache: null }),
+}));
+
+vi.mock('../services/users.js', () => ({ UsersService: vi.fn() }));
+
+vi.mock('../services/roles.js', () => ({ RolesService: vi.fn() }));
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({}),
+}));
+
+let db: Knex;
+let tracker: Tracker;
+
+const schema = { collections: {}, relations: [] } as unknown as SchemaOverview;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+beforeEach(() => {
+	vi.mocked(getDatabase).mockReturnValue(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+test('reads the rules of the additional role of a user without a primary role', async () => {
+	tracker.on
+		.select('directus_permissions')
+		.responseOnce([{ role: 'role-b', collection: 'articles', action: 'read', permissions: null, fields: '*' }]);
+
+	const permissions = await getPermissions(
+		{ user: 'user-id', role: null, roles: ['role-b'], app: false, admin: false },
+		schema,
+	);
+
+	expect(tracker.history.select[0]!.sql).toContain('in');
+	expect(tracker.history.select[0]!.bindings).toEqual(['role-b']);
+	expect(permissions).toEqual([expect.objectContaining({ role: 'role-b', collection: 'articles', action: 'read' })]);
+});
+
+test('reads the public rules for users without roles', async () => {
+	tracker.on.select('directus_permissions').responseOnce([]);
+
+	await getPermissions({ user: null, role: null, roles: [], app: false, admin: false }, schema);
+
+	expect(tracker.history.select[0]!.sql).toContain('is null');
+});
+
+test('merges the rules of multiple roles, where a rule without validation supersedes the validations of the others', async () => {
+	tracker.on.select('directus_permissions').responseOnce([
+		{
+			role: 'role-a',
+			collection: 'articles',
+			action: 'create',
+			permissions: null,
+			validation: { status: { _eq: 'draft' } },
+			fields: '*',
+		},
+		{
+			role: 'role-b',
+			collection: 'articles',
+			action: 'create',
+			permissions: null,
+			validation: { status: { _eq: 'review' } },
+			fields: '*',
+		},
+		{ role: 'role-c', collection: 'articles', action: 'create', permissions: null, validation: null, fields: '*' },
+	]);
+
+	const permissions = await getPermissions(
+		{ user: 'user-id', role: 'role-a', roles: ['role-a', 'role-b', 'role-c'], app: false, admin: false },
+		schema,
+	);
+
+	expect(permissions).toEqual([
+		expect.objectContaining({ role: 'role-a', collection: 'articles', action: 'create', validation: {} }),
+	]);
+});
@@ -9,6 +9,8 @@ import { appAccessMinimalPermissions } from '@directus/system-data';
 import { useLogger } from '../logger.js';
 import { RolesService } from '../services/roles.js';
 import { UsersService } from '../services/users.js';
+import { applyAccessTokenScope } from './apply-access-token-scope.js';
+import { isPermissionActive } from './is-permission-active.js';
 import { mergePermissionsForShare } from './merge-permissions-for-share.js';
 import { mergePermissions } from './merge-permissions.js';
 
@@ -20,8 +22,8 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 
 	let permissions: Permission[] = [];
 
-	const { user, role, app, admin, share_scope } = accountability;
-	const cacheKey = `permissions-${hash({ user, role, app, admin, share_scope })}`;
+	const { user, role, roles, app, admin, share_scope, access_token_scope } = accountability;
+	const cacheKey = `permissions-${hash({ user, role, roles, app, admin, share_scope, access_token_scope })}`;
 
 	if (cache && env['CACHE_PERMISSIONS'] !== false) {
 		let cachedPermissions;
@@ -34,7 +36,11 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 
 		if (cachedPermissions) {
 			if (!cachedPermissions['containDynamicData']) {
-				return processPermissions(accountability, cachedPermissions['permissions'], {});
+				return processPermissions(
+					accountability,
+					mergeActivePermissions(accountability, cachedPermissions['permissions'], schema),
+					{},
+				);
 			}
 
 			const cachedFilterContext = await getCacheValue(
@@ -43,7 +49,11 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 			);
 
 			if (cachedFilterContext) {
-				return processPermissions(accountability, cachedPermissions['permissions'], cachedFilterContext);
+				return processPermissions(
+					accountability,
+					mergeActivePermissions(accountability, cachedPermissions['permissions'], schema),
+					cachedFilterContext,
+				);
 			} else {
 				const {
 					permissions: parsedPermissions,
@@ -61,7 +71,11 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 					await setCacheValue(cache, `filterContext-${hash({ user, role, permissions })}`, filterContext);
 				}
 
-				return processPermissions(accountability, permissions, filterContext);
+				return processPermissions(
+					accountability,
+					mergeActivePermissions(accountability, permissions, schema),
+					filterContext,
+				);
 			}
 		}
 	}
@@ -69,13 +83,20 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 	if (accountability.admin !== true) {
 		const query = database.select('*').from('directus_permissions');
 
-		if (accountability.role) {
+		// Also covers users without a primary role, whose only role is an additional one
+		if (roles && roles.length > 0) {
+			query.whereIn('role', roles);
+		} else if (accountability.role) {
 			query.where({ role: accountability.role });
 		} else {
 			query.whereNull('role');
 		}
 
-		const permissionsForRole = await query;
+		let permissionsForRole = await query;
+
+		if (accountability.access_token_scope) {
+			permissionsForRole = await applyAccessTokenScope(permissionsForRole, accountability, database);
+		}
 
 		const {
 			permissions: parsedPermissions,
@@ -85,18 +106,6 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 
 		permissions = parsedPermissions;
 
-		if (accountability.app === true) {
-			permissions = mergePermissions(
-				'or',
-				permissions,
-				appAccessMinimalPermissions.map((perm) => ({ ...perm, role: accountability.role })),
-			);
-		}
-
-		if (accountability.share_scope) {
-			permissions = mergePermissionsForShare(permissions, accountability, schema);
-		}
-
 		const filterContext = containDynamicData
 			? await getFilterContext(schema, accountability, requiredPermissionData)
 			: {};
@@ -109,7 +118,50 @@ export async function getPermissions(accountability: Accountability, schema: Sch
 			}
 		}
 
-		return processPermissions(accountability, permissions, filterContext);
+		return processPermissions(
+			accountability,
+			mergeActivePermissions(accountability, permissions, schema),
+			filterContext,
+		);
+	}
+
+	return permissions;
+}
+
+/**
+ * Drop the rules that aren't active for the current request and merge the remaining rules of all roles, app access and
+ * share into the final permissions. This happens after reading the rules from cache, as whether a rule is active
+ * depends on the time and IP address of the request
+ */
+function mergeActivePermissions(accountability: Accountability, permissions: Permission[], schema: SchemaOverview) {
+	const { role, roles, ip } = accountability;
+
+	permissions = permissions.filter((permission) => isPermissionActive(permission, { ip: ip ?? null }));
+
+	if (roles && roles.length > 1) {
+		// Rules of the additional roles are merged as if they belonged to the primary role. A rule without a filter or
+		// validation grants access to all items, so it needs to supersede the filters and validations of the other roles
+		permissions = mergePermissions(
+			'or',
+			permissions.map((permission) => ({
+				...permission,
+				role,
+				permissions: permission.permissions ?? {},
+				validation: permission.validation ?? {},
+			})),
+		);
+	}
+
+	if (accountability.app === true) {
+		permissions = mergePermissions(
+			'or',
+			permissions,
+			appAccessMinimalPermissions.map((perm) => ({ ...perm, role })),
+		);
+	}
+
+	if (accountability.share_scope) {
+		permissions = mergePermissionsForShare(permissions, accountability, schema);
 	}
 
 	return permissions;
@@ -148,6 +200,14 @@ function parsePermissions(permissions: any[]) {
 			permission.fields = [];
 		}
 
+		if (permission.schedule && typeof permission.schedule === 'string') {
+			permission.schedule = parseJSON(permission.schedule);
+		}
+
+		if (permission.ip_access && typeof permission.ip_access === 'string') {
+			permission.ip_access = permission.ip_access.split(',').filter((ip: string) => ip);
+		}
+
 		const extractPermissionData = (val: any) => {
 			if (typeof val === 'string' && val.startsWith('$CURRENT_USER.')) {
 				requiredPermissionData.$CURRENT_USER.push(val.replace('$CURRENT_USER.', ''));
@@ -1,6 +1,7 @@
 import {
 	ActivityService,
 	DashboardsService,
+	ExportsService,
 	FilesService,
 	FlowsService,
 	FoldersService,
@@ -34,6 +35,8 @@ export function getService(collection: string, opts: AbstractServiceOptions): It
 			return new DashboardsService(opts);
 		// case 'directus_fields':
 		// 	return new FieldsService(opts);
+		case 'directus_exports':
+			return new ExportsService(opts);
 		case 'directus_files':
 			return new FilesService(opts);
 		case 'directus_flows':
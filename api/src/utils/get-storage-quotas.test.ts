@@ -0,0 +1,66 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, describe, expect, test } from 'vitest';
+import { getStorageQuotas } from './get-storage-quotas.js';
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+describe('getStorageQuotas', () => {
+	test('returns the quotas and usage of the user and role', async () => {
+		tracker.on.select('directus_users').responseOnce({ storage_quota: '1000', storage_quota_files: null });
+		tracker.on.select('directus_roles').responseOnce({ storage_quota: null, storage_quota_files: 10 });
+		tracker.on.select('directus_files').response({ size: '500', files: 2 });
+
+		const quotas = await getStorageQuotas({ user: 'user-1', role: 'role-1', folder: null }, { database: db });
+
+		expect(quotas).toEqual([
+			{ scope: 'user', key: 'user-1', size: { used: 500, limit: 1000 }, files: { used: 2, limit: null } },
+			{ scope: 'role', key: 'role-1', size: { used: 500, limit: null }, files: { used: 2, limit: 10 } },
+		]);
+	});
+
+	test('includes the subfolders in the usage and only returns parent folders with a quota', async () => {
+		tracker.on.select('directus_folders').response([
+			{ id: 'root', parent: null, storage_quota: 1000, storage_quota_files: null },
+			{ id: 'other', parent: null, storage_quota: 1000, storage_quota_files: null },
+			{ id: 'parent', parent: 'root', storage_quota: null, storage_quota_files: null },
+			{ id: 'folder', parent: 'parent', storage_quota: null, storage_quota_files: null },
+			{ id: 'child', parent: 'folder', storage_quota: null, storage_quota_files: null },
+		]);
+
+		tracker.on.select('directus_files').response({ size: null, files: 0 });
+
+		const quotas = await getStorageQuotas({ user: null, role: null, folder: 'folder' }, { database: db });
+
+		expect(quotas.map(({ key }) => key)).toEqual(['folder', 'root']);
+
+		const [folderQuery, rootQuery] = tracker.history.select.filter(({ sql }) => sql.includes('directus_files'));
+
+		expect(folderQuery!.bindings).toEqual(['folder', 'child', 1]);
+		expect(rootQuery!.bindings).toEqual(['root', 'parent', 'folder', 'child', 1]);
+	});
+
+	test('leaves out the excluded file and quotas without a limit', async () => {
+		tracker.on.select('directus_users').responseOnce({ storage_quota: null, storage_quota_files: null });
+		tracker.on.select('directus_roles').responseOnce({ storage_quota: 100, storage_quota_files: null });
+		tracker.on.select('directus_files').response({ size: 10, files: 1 });
+
+		const quotas = await getStorageQuotas(
+			{ user: 'user-1', role: 'role-1', folder: null },
+			{ database: db, exclude: 'file-1', limitedOnly: true },
+		);
+
+		expect(quotas.map(({ scope }) => scope)).toEqual(['role']);
+		expect(tracker.history.select.at(-1)!.bindings).toContain('file-1');
+	});
+});
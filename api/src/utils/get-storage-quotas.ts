@@ -0,0 +1,148 @@
+import type { PrimaryKey, StorageQuota } from '@directus/types';
+import type { Knex } from 'knex';
+
+export type StorageQuotaOwner = {
+	user: string | null;
+	role: string | null;
+	folder: string | null;
+};
+
+type QuotaTarget = Omit<StorageQuota, 'size' | 'files'> & {
+	limits: { size: number | null; files: number | null };
+	query: (query: Knex.QueryBuilder) => Knex.QueryBuilder;
+};
+
+/**
+ * Get the quotas and current usage of the user, the role and the folder that own a file. Besides the folder itself,
+ * the quotas of its parent folders apply to the file as well.
+ */
+export async function getStorageQuotas(
+	owner: StorageQuotaOwner,
+	context: {
+		database: Knex;
+		/**
+		 * File that's left out of the usage, like the file that's being replaced
+		 */
+		exclude?: PrimaryKey | undefined;
+		/**
+		 * Only return the quotas that have a limit
+		 */
+		limitedOnly?: boolean;
+	},
+): Promise<StorageQuota[]> {
+	const { database } = context;
+
+	const targets: QuotaTarget[] = [];
+
+	if (owner.user) {
+		const user = await database
+			.select('storage_quota', 'storage_quota_files')
+			.from('directus_users')
+			.where({ id: owner.user })
+			.first();
+
+		if (user) {
+			targets.push({
+				scope: 'user',
+				key: owner.user,
+				limits: getLimits(user),
+				query: (query) => query.where('uploaded_by', owner.user),
+			});
+		}
+	}
+
+	if (owner.role) {
+		const role = await database
+			.select('storage_quota', 'storage_quota_files')
+			.from('directus_roles')
+			.where({ id: owner.role })
+			.first();
+
+		if (role) {
+			targets.push({
+				scope: 'role',
+				key: owner.role,
+				limits: getLimits(role),
+				query: (query) =>
+					query.whereIn('uploaded_by', database.select('id').from('directus_users').where('role', owner.role)),
+			});
+		}
+	}
+
+	if (owner.folder) {
+		const folders: { id: string; parent: string | null; storage_quota: unknown; storage_quota_files: unknown }[] =
+			await database.select('id', 'parent', 'storage_quota', 'storage_quota_files').from('directus_folders');
+
+		const children = new Map<string | null, string[]>();
+
+		for (const folder of folders) {
+			children.set(folder.parent, [...(children.get(folder.parent) ?? []), folder.id]);
+		}
+
+		const getDescendants = (key: string, visited = new Set<string>()): string[] => {
+			if (visited.has(key)) return [];
+
+			visited.add(key);
+
+			return [key, ...(children.get(key) ?? []).flatMap((child) => getDescendants(child, visited))];
+		};
+
+		const visited = new Set<string>();
+		let folder = folders.find(({ id }) => id === owner.folder);
+
+		// Walk up from the folder of the file, guarding against circular parents
+		while (folder && !visited.has(folder.id)) {
+			visited.add(folder.id);
+
+			const keys = getDescendants(folder.id);
+
+			targets.push({
+				scope: 'folder',
+				key: folder.id,
+				limits: getLimits(folder),
+				query: (query) => query.whereIn('folder', keys),
+			});
+
+			const parent = folder.parent;
+			folder = folders.find(({ id }) => id === parent);
+		}
+	}
+
+	const quotas: StorageQuota[] = [];
+
+	for (const { limits, query, ...target } of targets) {
+		const hasLimit = limits.size !== null || limits.files !== null;
+
+		// Parent folders only matter when they limit the files in them
+		if ((context.limitedOnly || (target.scope === 'folder' && target.key !== owner.folder)) && !hasLimit) continue;
+
+		const dbQuery = query(database.from('directus_files').sum('filesize as size').count('* as files'));
+
+		if (context.exclude !== undefined) {
+			dbQuery.whereNot('id', context.exclude);
+		}
+
+		const usage = await dbQuery.first();
+
+		quotas.push({
+			...target,
+			size: { used: Number(usage?.size ?? 0), limit: limits.size },
+			files: { used: Number(usage?.files ?? 0), limit: limits.files },
+		});
+	}
+
+	return quotas;
+}
+
+function getLimits(item: { storage_quota: unknown; storage_quota_files: unknown }): {
+	size: number | null;
+	files: number | null;
+} {
+	return {
+		size: item.storage_quota === null || item.storage_quota === undefined ? null : Number(item.storage_quota),
+		files:
+			item.storage_quota_files === null || item.storage_quota_files === undefined
+				? null
+				: Number(item.storage_quota_files),
+	};
+}
@@ -0,0 +1,54 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, expect, test } from 'vitest';
+import { getUserRoles } from './get-user-roles.js';
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+test('returns the primary role first and grants access when any role grants it', async () => {
+	tracker.on.select('directus_users').responseOnce({ role: 'primary' });
+	tracker.on.select('directus_user_roles').responseOnce([{ role: 'editor' }, { role: 'primary' }, { role: 'admin' }]);
+
+	tracker.on.select('directus_roles').responseOnce([
+		{ admin_access: 0, app_access: 1 },
+		{ admin_access: 0, app_access: 0 },
+		{ admin_access: 1, app_access: 1 },
+	]);
+
+	await expect(getUserRoles('user-1', db)).resolves.toEqual({
+		roles: ['primary', 'editor', 'admin'],
+		admin_access: true,
+		app_access: true,
+	});
+});
+
+test('returns the additional roles of a user without a primary role', async () => {
+	tracker.on.select('directus_users').responseOnce({ role: null });
+	tracker.on.select('directus_user_roles').responseOnce([{ role: 'editor' }]);
+	tracker.on.select('directus_roles').responseOnce([{ admin_access: false, app_access: true }]);
+
+	await expect(getUserRoles('user-1', db)).resolves.toEqual({
+		roles: ['editor'],
+		admin_access: false,
+		app_access: true,
+	});
+});
+
+test('grants no access to a user without roles', async () => {
+	tracker.on.select('directus_users').responseOnce({ role: null });
+	tracker.on.select('directus_user_roles').responseOnce([]);
+
+	await expect(getUserRoles('user-1', db)).resolves.toEqual({ roles: [], admin_access: false, app_access: false });
+
+	expect(tracker.history.select.some(({ sql }) => sql.includes('directus_roles'))).toBe(false);
+});
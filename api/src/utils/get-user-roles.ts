@@ -0,0 +1,41 @@
+import { toBoolean } from '@directus/utils';
+import type { Knex } from 'knex';
+
+export type UserRoles = {
+	/**
+	 * The primary role of the user, followed by their additional roles
+	 */
+	roles: string[];
+	admin_access: boolean;
+	app_access: boolean;
+};
+
+/**
+ * Get the primary and additional roles of a user. Admin and app access are granted when any of the roles grants them
+ */
+export async function getUserRoles(user: string, database: Knex): Promise<UserRoles> {
+	const primary = await database.select('role').from('directus_users').where({ id: user }).first();
+
+	const additional: { role: string }[] = await database
+		.select('role')
+		.from('directus_user_roles')
+		.where({ user })
+		.orderBy('id');
+
+	const roles = [primary?.role, ...additional.map(({ role }) => role)].filter(
+		(role, index, roles): role is string => !!role && roles.indexOf(role) === index,
+	);
+
+	if (roles.length === 0) return { roles, admin_access: false, app_access: false };
+
+	const access: { admin_access: boolean | number; app_access: boolean | number }[] = await database
+		.select('admin_access', 'app_access')
+		.from('directus_roles')
+		.whereIn('id', roles);
+
+	return {
+		roles,
+		admin_access: access.some((role) => toBoolean(role.admin_access)),
+		app_access: access.some((role) => toBoolean(role.app_access)),
+	};
+}
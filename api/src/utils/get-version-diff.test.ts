@@ -0,0 +1,83 @@
+import type { SchemaOverview } from '@directus/types';
+import { describe, expect, test } from 'vitest';
+import { getVersionDiff } from './get-version-diff.js';
+
+const schema = {
+	collections: {
+		articles: { collection: 'articles', primary: 'id' },
+		comments: { collection: 'comments', primary: 'id' },
+		users: { collection: 'users', primary: 'id' },
+	},
+	relations: [
+		{
+			collection: 'articles',
+			field: 'author',
+			related_collection: 'users',
+			schema: null,
+			meta: null,
+		},
+		{
+			collection: 'comments',
+			field: 'article',
+			related_collection: 'articles',
+			schema: null,
+			meta: { one_field: 'comments' },
+		},
+	],
+} as unknown as SchemaOverview;
+
+describe('getVersionDiff', () => {
+	test('Returns the old and new values of changed fields', () => {
+		const result = getVersionDiff(
+			schema,
+			'articles',
+			['title', 'status'],
+			{ id: 1, title: 'Old', status: 'draft' },
+			{ id: 1, title: 'New', status: 'draft' },
+		);
+
+		expect(result).toEqual([{ field: 'title', relation: null, old: 'Old', new: 'New' }]);
+	});
+
+	test('Marks m2o fields', () => {
+		const result = getVersionDiff(schema, 'articles', ['author'], { author: 1 }, { author: { name: 'New author' } });
+
+		expect(result).toEqual([{ field: 'author', relation: 'm2o', old: 1, new: { name: 'New author' } }]);
+	});
+
+	test('Uses the changes of the detailed format of o2m fields', () => {
+		const changes = { create: [{ text: 'New' }], update: [{ id: 2, text: 'Updated' }], delete: [3] };
+
+		const result = getVersionDiff(schema, 'articles', ['comments'], { comments: [1, 2, 3] }, { comments: changes });
+
+		expect(result).toEqual([{ field: 'comments', relation: 'o2m', old: [1, 2, 3], new: changes, changes }]);
+	});
+
+	test('Derives the changes of o2m fields from the list of related items', () => {
+		const result = getVersionDiff(
+			schema,
+			'articles',
+			['comments'],
+			{ comments: [1, 2, 3] },
+			{ comments: [1, { id: 2, text: 'Updated' }, 4, { text: 'New' }] },
+		);
+
+		expect(result[0]!.changes).toEqual({
+			create: [{ text: 'New' }],
+			update: [{ id: 2, text: 'Updated' }, { id: 4 }],
+			delete: [3],
+		});
+	});
+
+	test('Ignores o2m fields without changes', () => {
+		const result = getVersionDiff(
+			schema,
+			'articles',
+			['comments'],
+			{ comments: [1, 2] },
+			{ comments: { create: [], update: [], delete: [] } },
+		);
+
+		expect(result).toEqual([]);
+	});
+});
@@ -0,0 +1,95 @@
+import type { ContentVersionFieldDiff, Item, PrimaryKey, SchemaOverview } from '@directus/types';
+import { isEqual, isPlainObject } from 'lodash-es';
+import { getRelationInfo } from './get-relation-info.js';
+
+type Changes = NonNullable<ContentVersionFieldDiff['changes']>;
+
+/**
+ * Get the old and new values of all given fields that differ between the two states of an item
+ */
+export function getVersionDiff(
+	schema: SchemaOverview,
+	collection: string,
+	fields: string[],
+	base: Item,
+	current: Item,
+): ContentVersionFieldDiff[] {
+	const diff: ContentVersionFieldDiff[] = [];
+
+	for (const field of fields) {
+		const oldValue = base[field] ?? null;
+		const newValue = current[field] ?? null;
+
+		if (isEqual(oldValue, newValue)) continue;
+
+		const { relation, relationType } = getRelationInfo(schema.relations, collection, field);
+
+		if (relation && relationType === 'o2m') {
+			const primaryKeyField = schema.collections[relation.collection]?.primary ?? 'id';
+			const changes = getRelatedChanges(primaryKeyField, oldValue, newValue);
+
+			if (changes.create.length === 0 && changes.update.length === 0 && changes.delete.length === 0) continue;
+
+			diff.push({ field, relation: 'o2m', old: oldValue, new: newValue, changes });
+			continue;
+		}
+
+		diff.push({
+			field,
+			relation: relationType === 'm2o' || relationType === 'a2o' ? relationType : null,
+			old: oldValue,
+			new: newValue,
+		});
+	}
+
+	return diff;
+}
+
+/**
+ * Get the related items that are created, updated and deleted by the new value of an o2m field. The new value is either
+ * the detailed format (`{ create, update, delete }`) or the list of all related items
+ */
+function getRelatedChanges(primaryKeyField: string, oldValue: unknown, newValue: unknown): Changes {
+	if (isPlainObject(newValue)) {
+		const { create, update, delete: remove } = newValue as Partial<Changes>;
+
+		return { create: create ?? [], update: update ?? [], delete: remove ?? [] };
+	}
+
+	const changes: Changes = { create: [], update: [], delete: [] };
+
+	if (!Array.isArray(newValue)) return changes;
+
+	const oldKeys: PrimaryKey[] = Array.isArray(oldValue)
+		? oldValue.map((item) => (isPlainObject(item) ? item[primaryKeyField] : item))
+		: [];
+
+	const newKeys: PrimaryKey[] = [];
+
+	for (const item of newValue) {
+		if (!isPlainObject(item)) {
+			newKeys.push(item);
+
+			// Existing items that are newly related to the item
+			if (!oldKeys.includes(item)) changes.update.push({ [primaryKeyField]: item });
+
+			continue;
+		}
+
+		if (item[primaryKeyField] === undefined || item[primaryKeyField] === null) {
+			changes.create.push(item);
+			continue;
+		}
+
+		newKeys.push(item[primaryKeyField]);
+
+		// Related items that are only referenced by their primary key aren't changed
+		if (Object.keys(item).length > 1 || !oldKeys.includes(item[primaryKeyField])) {
+			changes.update.push(item);
+		}
+	}
+
+	changes.delete = oldKeys.filter((key) => !newKeys.includes(key));
+
+	return changes;
+}
@@ -0,0 +1,58 @@
+import { expect, test } from 'vitest';
+import { getXLSXCellValue, getXLSXNumberFormat } from './get-xlsx-cell-value.js';
+
+test('Returns null for empty values', () => {
+	expect(getXLSXCellValue(null, 'string')).toBe(null);
+	expect(getXLSXCellValue(undefined)).toBe(null);
+});
+
+test.each([
+	{ value: '2023-06-01', type: 'date', expected: '2023-06-01T00:00:00.000Z' },
+	{ value: '2023-06-01T12:34:56', type: 'dateTime', expected: '2023-06-01T12:34:56.000Z' },
+	{ value: '2023-06-01T12:34:56.000Z', type: 'timestamp', expected: '2023-06-01T12:34:56.000Z' },
+] as const)('Converts $type value "$value" to a date', ({ value, type, expected }) => {
+	const result = getXLSXCellValue(value, type);
+
+	expect(result).toBeInstanceOf(Date);
+	expect((result as Date).toISOString()).toBe(expected);
+});
+
+test('Keeps invalid date values as string', () => {
+	expect(getXLSXCellValue('not-a-date', 'date')).toBe('not-a-date');
+});
+
+test.each([
+	{ value: '12.50', type: 'decimal', expected: 12.5 },
+	{ value: 42, type: 'integer', expected: 42 },
+	{ value: '9007199254740', type: 'bigInteger', expected: 9007199254740 },
+	{ value: 1.5, type: 'float', expected: 1.5 },
+] as const)('Converts $type value "$value" to a number', ({ value, type, expected }) => {
+	expect(getXLSXCellValue(value, type)).toBe(expected);
+});
+
+test('Converts boolean fields to booleans', () => {
+	expect(getXLSXCellValue(1, 'boolean')).toBe(true);
+	expect(getXLSXCellValue(false, 'boolean')).toBe(false);
+});
+
+test('Joins csv fields', () => {
+	expect(getXLSXCellValue(['a', 'b'], 'csv')).toBe('a,b');
+});
+
+test('Stringifies objects and arrays', () => {
+	expect(getXLSXCellValue({ a: 1 }, 'json')).toBe('{"a":1}');
+	expect(getXLSXCellValue([1, 2])).toBe('[1,2]');
+});
+
+test('Passes primitives through for untyped values', () => {
+	expect(getXLSXCellValue('test')).toBe('test');
+	expect(getXLSXCellValue(5)).toBe(5);
+	expect(getXLSXCellValue(true)).toBe(true);
+});
+
+test('Returns number formats for date types', () => {
+	expect(getXLSXNumberFormat('date')).toBe('yyyy-mm-dd');
+	expect(getXLSXNumberFormat('dateTime')).toBe('yyyy-mm-dd hh:mm:ss');
+	expect(getXLSXNumberFormat('timestamp')).toBe('yyyy-mm-dd hh:mm:ss');
+	expect(getXLSXNumberFormat('string')).toBeUndefined();
+});
@@ -0,0 +1,52 @@
+import type { Type } from '@directus/types';
+import type { CellValue } from 'exceljs';
+
+const DATE_TYPES: Type[] = ['date', 'dateTime', 'timestamp'];
+const NUMERIC_TYPES: Type[] = ['bigInteger', 'decimal', 'float', 'integer'];
+
+/**
+ * Convert an item value into a typed spreadsheet cell value, based on the type of the field it was read from
+ */
+export function getXLSXCellValue(value: unknown, type?: Type): CellValue {
+	if (value === null || value === undefined) return null;
+
+	if (type && DATE_TYPES.includes(type) && typeof value === 'string') {
+		// dateTime values don't have a timezone, treat them as UTC so they're written to the sheet as-is
+		const date = new Date(type === 'dateTime' && !value.endsWith('Z') ? `${value}Z` : value);
+
+		if (!isNaN(date.getTime())) return date;
+
+		return value;
+	}
+
+	if (type && NUMERIC_TYPES.includes(type) && (typeof value === 'string' || typeof value === 'number')) {
+		const number = Number(value);
+
+		if (Number.isFinite(number)) return number;
+
+		return String(value);
+	}
+
+	if (type === 'boolean') return Boolean(value);
+
+	if (type === 'csv' && Array.isArray(value)) return value.join(',');
+
+	if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+
+	if (value instanceof Date) return value;
+
+	if (typeof value === 'bigint') return String(value);
+
+	return JSON.stringify(value);
+}
+
+/**
+ * Get the number format to apply to cells of a given field type, if any
+ */
+export function getXLSXNumberFormat(type?: Type): string | undefined {
+	if (type === 'date') return 'yyyy-mm-dd';
+
+	if (type === 'dateTime' || type === 'timestamp') return 'yyyy-mm-dd hh:mm:ss';
+
+	return undefined;
+}
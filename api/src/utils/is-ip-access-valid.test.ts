@@ -0,0 +1,19 @@
+import { expect, test } from 'vitest';
+import { isIpAccessValid } from './is-ip-access-valid.js';
+
+test('accepts IP addresses, IP ranges and CIDR blocks', () => {
+	expect(isIpAccessValid(['192.168.0.1', '192.168.0.0-192.168.2.0', '10.0.0.0/8', '::1'])).toBe(true);
+});
+
+test('accepts an empty value', () => {
+	expect(isIpAccessValid(null)).toBe(true);
+	expect(isIpAccessValid([])).toBe(true);
+});
+
+test('rejects wildcards, masks and invalid values', () => {
+	expect(isIpAccessValid(undefined)).toBe(false);
+	expect(isIpAccessValid(['192.168.*.*'])).toBe(false);
+	expect(isIpAccessValid(['192.168.0.0/255.255.255.0'])).toBe(false);
+	expect(isIpAccessValid(['invalid'])).toBe(false);
+	expect(isIpAccessValid([1])).toBe(false);
+});
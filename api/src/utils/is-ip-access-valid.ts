@@ -0,0 +1,23 @@
+import { getMatch } from 'ip-matching';
+
+/**
+ * Check whether a list of IP addresses, IP ranges and CIDR blocks can be used to restrict access
+ */
+export function isIpAccessValid(value?: any[] | null): boolean {
+	if (value === undefined) return false;
+	if (value === null) return true;
+	if (Array.isArray(value) && value.length === 0) return true;
+
+	for (const ip of value) {
+		if (typeof ip !== 'string' || ip.includes('*')) return false;
+
+		try {
+			const match = getMatch(ip);
+			if (match.type == 'IPMask') return false;
+		} catch {
+			return false;
+		}
+	}
+
+	return true;
+}
@@ -0,0 +1,87 @@
+import type { Permission } from '@directus/types';
+import { describe, expect, test } from 'vitest';
+import { isPermissionActive } from './is-permission-active.js';
+
+const permission: Permission = {
+	role: 'role-id',
+	collection: 'articles',
+	action: 'read',
+	permissions: {},
+	validation: {},
+	presets: {},
+	fields: ['*'],
+};
+
+// Monday
+const date = new Date('2024-06-17T10:30:00Z');
+
+test('is active without conditions', () => {
+	expect(isPermissionActive(permission, { date })).toBe(true);
+});
+
+describe('dates', () => {
+	test('is active between the dates', () => {
+		expect(
+			isPermissionActive(
+				{ ...permission, active_from: '2024-06-01T00:00:00Z', active_until: '2024-07-01T00:00:00Z' },
+				{ date },
+			),
+		).toBe(true);
+	});
+
+	test('is inactive before the start date', () => {
+		expect(isPermissionActive({ ...permission, active_from: '2024-06-18T00:00:00Z' }, { date })).toBe(false);
+	});
+
+	test('is inactive after the end date', () => {
+		expect(isPermissionActive({ ...permission, active_until: '2024-06-17T10:00:00Z' }, { date })).toBe(false);
+	});
+});
+
+describe('schedule', () => {
+	test('is active on the days and within the times', () => {
+		expect(
+			isPermissionActive(
+				{ ...permission, schedule: { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' } },
+				{ date },
+			),
+		).toBe(true);
+	});
+
+	test('is inactive on other days', () => {
+		expect(isPermissionActive({ ...permission, schedule: { days: [0, 6] } }, { date })).toBe(false);
+	});
+
+	test('is inactive outside of the times', () => {
+		expect(isPermissionActive({ ...permission, schedule: { start: '11:00', end: '17:00' } }, { date })).toBe(false);
+	});
+
+	test('supports windows that run overnight', () => {
+		const schedule = { start: '22:00', end: '11:00' };
+
+		expect(isPermissionActive({ ...permission, schedule }, { date })).toBe(true);
+		expect(isPermissionActive({ ...permission, schedule }, { date: new Date('2024-06-17T12:00:00Z') })).toBe(false);
+	});
+
+	test('evaluates the days and times in the timezone of the schedule', () => {
+		const schedule = { days: [1], start: '05:00', end: '07:00', timezone: 'America/New_York' };
+
+		expect(isPermissionActive({ ...permission, schedule }, { date })).toBe(true);
+	});
+});
+
+describe('networks', () => {
+	const ip_access = ['192.168.0.0/24'];
+
+	test('is active from an allowed network', () => {
+		expect(isPermissionActive({ ...permission, ip_access }, { date, ip: '192.168.0.10' })).toBe(true);
+	});
+
+	test('is inactive from other networks', () => {
+		expect(isPermissionActive({ ...permission, ip_access }, { date, ip: '10.0.0.1' })).toBe(false);
+	});
+
+	test('is inactive when the IP address is unknown', () => {
+		expect(isPermissionActive({ ...permission, ip_access }, { date, ip: null })).toBe(false);
+	});
+});
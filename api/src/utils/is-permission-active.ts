@@ -0,0 +1,59 @@
+import type { Permission, PermissionSchedule } from '@directus/types';
+import { ipInNetworks } from './ip-in-networks.js';
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check whether a permission rule is active at the given date and for the given IP address. Rules that are limited to
+ * certain networks are never active when the IP address is unknown
+ */
+export function isPermissionActive(permission: Permission, context: { ip?: string | null; date?: Date } = {}): boolean {
+	const date = context.date ?? new Date();
+
+	if (permission.active_from && date < new Date(permission.active_from)) return false;
+	if (permission.active_until && date > new Date(permission.active_until)) return false;
+
+	if (permission.schedule && !isWithinSchedule(permission.schedule, date)) return false;
+
+	if (permission.ip_access && permission.ip_access.length > 0) {
+		if (!context.ip) return false;
+
+		try {
+			return ipInNetworks(context.ip, permission.ip_access);
+		} catch {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+function isWithinSchedule(schedule: PermissionSchedule, date: Date): boolean {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: schedule.timezone ?? 'UTC',
+		weekday: 'short',
+		hour: 'numeric',
+		minute: 'numeric',
+		hourCycle: 'h23',
+	}).formatToParts(date);
+
+	const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value;
+
+	if (schedule.days && schedule.days.length > 0 && !schedule.days.includes(weekdays.indexOf(part('weekday')!))) {
+		return false;
+	}
+
+	const time = Number(part('hour')) * 60 + Number(part('minute'));
+	const start = schedule.start ? toMinutes(schedule.start) : 0;
+	const end = schedule.end ? toMinutes(schedule.end) : 24 * 60;
+
+	if (start <= end) return time >= start && time < end;
+
+	return time >= start || time < end;
+}
+
+function toMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+
+	return hours! * 60 + minutes!;
+}
@@ -0,0 +1,73 @@
+import { LoginLockedError } from '@directus/errors';
+import { randomUUID } from 'node:crypto';
+import { describe, expect, test, vi } from 'vitest';
+import { checkLoginLockout, getLockoutDuration, registerFailedLogin, resetLoginAttempts } from './login-attempts.js';
+
+vi.mock('@directus/env', () => ({
+	useEnv: vi.fn().mockReturnValue({
+		RATE_LIMITER_STORE: 'memory',
+		LOGIN_IP_ATTEMPTS: 5,
+		LOGIN_ATTEMPTS_WINDOW: '1d',
+		LOGIN_LOCKOUT_DURATION: '5m',
+		LOGIN_LOCKOUT_MAX_DURATION: '1h',
+	}),
+}));
+
+describe('getLockoutDuration', () => {
+	test('does not lock out before the allowed attempts are used up', () => {
+		expect(getLockoutDuration(2, 3)).toBe(0);
+	});
+
+	test('doubles the lockout with every further failed attempt', () => {
+		expect(getLockoutDuration(3, 3)).toBe(5 * 60 * 1000);
+		expect(getLockoutDuration(4, 3)).toBe(10 * 60 * 1000);
+		expect(getLockoutDuration(5, 3)).toBe(20 * 60 * 1000);
+	});
+
+	test('does not exceed the max duration', () => {
+		expect(getLockoutDuration(10, 3)).toBe(60 * 60 * 1000);
+	});
+});
+
+describe('lockout', () => {
+	test('locks the account out after the allowed attempts', async () => {
+		const user = randomUUID();
+
+		await registerFailedLogin({ user }, 2);
+		await expect(checkLoginLockout({ user })).resolves.toBeUndefined();
+
+		await registerFailedLogin({ user }, 2);
+		await expect(checkLoginLockout({ user })).rejects.toBeInstanceOf(LoginLockedError);
+	});
+
+	test('does not lock accounts out without allowed attempts', async () => {
+		const user = randomUUID();
+
+		for (let i = 0; i < 3; i++) {
+			await registerFailedLogin({ user }, null);
+		}
+
+		await expect(checkLoginLockout({ user })).resolves.toBeUndefined();
+	});
+
+	test('locks the IP address out after LOGIN_IP_ATTEMPTS', async () => {
+		const ip = '192.0.2.1';
+
+		for (let i = 0; i < 5; i++) {
+			await registerFailedLogin({ user: randomUUID(), ip }, null);
+		}
+
+		await expect(checkLoginLockout({ user: randomUUID(), ip })).rejects.toBeInstanceOf(LoginLockedError);
+		await expect(checkLoginLockout({ ip: '192.0.2.2' })).resolves.toBeUndefined();
+	});
+
+	test('lifts the lockout of an account when its attempts are reset', async () => {
+		const user = randomUUID();
+
+		await registerFailedLogin({ user }, 1);
+		await expect(checkLoginLockout({ user })).rejects.toBeInstanceOf(LoginLockedError);
+
+		await resetLoginAttempts(user);
+		await expect(checkLoginLockout({ user })).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,109 @@
+import { useEnv } from '@directus/env';
+import { LoginLockedError, ServiceUnavailableError } from '@directus/errors';
+import { createRateLimiter } from '../rate-limiter.js';
+import { getMilliseconds } from './get-milliseconds.js';
+
+const env = useEnv();
+
+/**
+ * Counts the failed login attempts per account and per IP, until the window passes or the account logs in
+ */
+const failedAttemptsLimiter = createRateLimiter('RATE_LIMITER', {
+	keyPrefix: 'login-failed',
+	points: Number.MAX_SAFE_INTEGER,
+	duration: Math.ceil(getMilliseconds(env['LOGIN_ATTEMPTS_WINDOW'], 0) / 1000),
+});
+
+const lockoutLimiter = createRateLimiter('RATE_LIMITER', {
+	keyPrefix: 'login-lockout',
+	points: 1,
+	duration: 1,
+});
+
+export type LoginAttemptKeys = {
+	user?: string | null | undefined;
+	ip?: string | null | undefined;
+};
+
+/**
+ * Throw when the account or the IP address is locked out after too many failed login attempts
+ */
+export async function checkLoginLockout(keys: LoginAttemptKeys): Promise<void> {
+	let reset = 0;
+
+	for (const key of getKeys(keys)) {
+		const result = await useStore(() => lockoutLimiter.get(key.name));
+
+		if (result && result.consumedPoints > 1) {
+			reset = Math.max(reset, Date.now() + result.msBeforeNext);
+		}
+	}
+
+	if (reset > 0) {
+		throw new LoginLockedError({ reset: new Date(reset) });
+	}
+}
+
+/**
+ * Count a failed login attempt, and lock the account or IP address out once it exceeds the allowed attempts. Every
+ * further failed attempt doubles the duration of the lockout, up to `LOGIN_LOCKOUT_MAX_DURATION`
+ *
+ * @param allowedAttempts - Failed attempts allowed for the account before it's locked out, `null` to not lock accounts
+ */
+export async function registerFailedLogin(keys: LoginAttemptKeys, allowedAttempts: number | null): Promise<void> {
+	for (const key of getKeys(keys, allowedAttempts)) {
+		const result = await useStore(() => failedAttemptsLimiter.penalty(key.name));
+		const duration = getLockoutDuration(result.consumedPoints, key.allowedAttempts);
+
+		if (duration > 0) {
+			await useStore(() => lockoutLimiter.block(key.name, Math.ceil(duration / 1000)));
+		}
+	}
+}
+
+/**
+ * Reset the failed login attempts of an account and lift its lockout, after it logged in or reset its password
+ */
+export async function resetLoginAttempts(user: string): Promise<void> {
+	const key = `user:${user}`;
+
+	await useStore(() => failedAttemptsLimiter.delete(key));
+	await useStore(() => lockoutLimiter.delete(key));
+}
+
+export function getLockoutDuration(failedAttempts: number, allowedAttempts: number): number {
+	if (failedAttempts < allowedAttempts) return 0;
+
+	const duration = getMilliseconds(env['LOGIN_LOCKOUT_DURATION'], 0);
+	const maxDuration = getMilliseconds(env['LOGIN_LOCKOUT_MAX_DURATION'], duration);
+
+	return Math.min(duration * 2 ** (failedAttempts - allowedAttempts), maxDuration);
+}
+
+function getKeys(keys: LoginAttemptKeys, allowedAttempts: number | null = null) {
+	const result: { name: string; allowedAttempts: number }[] = [];
+
+	if (keys.user) {
+		// Accounts aren't locked out when the allowed login attempts setting is empty
+		result.push({ name: `user:${keys.user}`, allowedAttempts: allowedAttempts ?? Infinity });
+	}
+
+	const ipAttempts = env['LOGIN_IP_ATTEMPTS'];
+
+	if (keys.ip && typeof ipAttempts === 'number') {
+		result.push({ name: `ip:${keys.ip}`, allowedAttempts: ipAttempts });
+	}
+
+	return result;
+}
+
+async function useStore<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch {
+		throw new ServiceUnavailableError({
+			service: 'authentication',
+			reason: 'Rate limiter unreachable',
+		});
+	}
+}
@@ -96,6 +96,26 @@ describe('merging permissions', () => {
 		expect(mergedPermission).toStrictEqual({ ...permissionTemplate, validation: fullFilter });
 	});
 
+	test('{} supersedes permissions merged in _or before', () => {
+		const mergedPermission = mergePermission(
+			'or',
+			{ ...permissionTemplate, permissions: { _or: [conditionalFilter, conditionalFilter2] } },
+			{ ...permissionTemplate, permissions: fullFilter },
+		);
+
+		expect(mergedPermission).toStrictEqual({ ...permissionTemplate, permissions: fullFilter });
+	});
+
+	test('{} supersedes validations merged in _or before', () => {
+		const mergedPermission = mergePermission(
+			'or',
+			{ ...permissionTemplate, validation: { _or: [conditionalFilter, conditionalFilter2] } },
+			{ ...permissionTemplate, validation: fullFilter },
+		);
+
+		expect(mergedPermission).toStrictEqual({ ...permissionTemplate, validation: fullFilter });
+	});
+
 	test('{} does not supersede conditional permissions in _and', () => {
 		const mergedPermission = mergePermission(
 			'and',
@@ -29,7 +29,10 @@ export function mergePermission(
 	let presets = currentPerm.presets;
 
 	if (newPerm.permissions) {
-		if (currentPerm.permissions && Object.keys(currentPerm.permissions)[0] === logicalKey) {
+		// Empty {} also supersedes permissions that were merged into an _OR already
+		const supersedes = strategy === 'or' && isEqual(newPerm.permissions, {});
+
+		if (currentPerm.permissions && Object.keys(currentPerm.permissions)[0] === logicalKey && !supersedes) {
 			permissions = {
 				[logicalKey]: [
 					...(currentPerm.permissions as LogicalFilterOR & LogicalFilterAND)[logicalKey],
@@ -53,7 +56,10 @@ export function mergePermission(
 	}
 
 	if (newPerm.validation) {
-		if (currentPerm.validation && Object.keys(currentPerm.validation)[0] === logicalKey) {
+		// Empty {} also supersedes validations that were merged into an _OR already
+		const supersedes = strategy === 'or' && isEqual(newPerm.validation, {});
+
+		if (currentPerm.validation && Object.keys(currentPerm.validation)[0] === logicalKey && !supersedes) {
 			validation = {
 				[logicalKey]: [
 					...(currentPerm.validation as LogicalFilterOR & LogicalFilterAND)[logicalKey],
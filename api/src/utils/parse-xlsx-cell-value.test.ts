@@ -0,0 +1,48 @@
+import { expect, test } from 'vitest';
+import { parseXLSXCellValue } from './parse-xlsx-cell-value.js';
+
+test('Returns undefined for empty cells', () => {
+	expect(parseXLSXCellValue(null)).toBeUndefined();
+	expect(parseXLSXCellValue(undefined)).toBeUndefined();
+	expect(parseXLSXCellValue('')).toBeUndefined();
+});
+
+test.each([
+	{ type: 'date', expected: '2023-06-01' },
+	{ type: 'time', expected: '12:34:56' },
+	{ type: 'dateTime', expected: '2023-06-01T12:34:56' },
+	{ type: 'timestamp', expected: '2023-06-01T12:34:56.000Z' },
+] as const)('Formats dates for $type fields', ({ type, expected }) => {
+	expect(parseXLSXCellValue(new Date('2023-06-01T12:34:56.000Z'), type)).toBe(expected);
+});
+
+test('Returns the result of formulas', () => {
+	expect(parseXLSXCellValue({ formula: 'A1+B1', result: 3 }, 'integer')).toBe(3);
+	expect(parseXLSXCellValue({ sharedFormula: 'A1', result: 'test' })).toBe('test');
+});
+
+test('Returns the text of rich text and hyperlink cells', () => {
+	expect(parseXLSXCellValue({ richText: [{ text: 'Hello ' }, { text: 'World' }] })).toBe('Hello World');
+	expect(parseXLSXCellValue({ text: 'Directus', hyperlink: 'https://directus.io' })).toBe('Directus');
+});
+
+test('Ignores error cells', () => {
+	expect(parseXLSXCellValue({ error: '#REF!' })).toBeUndefined();
+});
+
+test('Converts boolean fields', () => {
+	expect(parseXLSXCellValue(true, 'boolean')).toBe(true);
+	expect(parseXLSXCellValue(0, 'boolean')).toBe(false);
+	expect(parseXLSXCellValue('TRUE', 'boolean')).toBe(true);
+});
+
+test('Parses JSON strings', () => {
+	expect(parseXLSXCellValue('{"a":1}', 'json')).toEqual({ a: 1 });
+	expect(parseXLSXCellValue('[1,2]')).toEqual([1, 2]);
+	expect(parseXLSXCellValue('{invalid')).toBe('{invalid');
+});
+
+test('Passes other values through', () => {
+	expect(parseXLSXCellValue('test', 'string')).toBe('test');
+	expect(parseXLSXCellValue(12.5, 'float')).toBe(12.5);
+});
@@ -0,0 +1,58 @@
+import type { Type } from '@directus/types';
+import { parseJSON } from '@directus/utils';
+import type { CellValue } from 'exceljs';
+
+/**
+ * Convert a spreadsheet cell value into a value that can be saved into a field of the given type
+ */
+export function parseXLSXCellValue(value: CellValue, type?: Type): unknown {
+	if (value === null || value === undefined) return undefined;
+
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) return undefined;
+
+		const iso = value.toISOString();
+
+		if (type === 'date') return iso.slice(0, 10);
+		if (type === 'time') return iso.slice(11, 19);
+		if (type === 'dateTime') return iso.slice(0, 19);
+
+		return iso;
+	}
+
+	if (typeof value === 'object') {
+		if ('error' in value) return undefined;
+
+		if ('richText' in value) return parseXLSXCellValue(value.richText.map(({ text }) => text).join(''), type);
+
+		if ('hyperlink' in value) return parseXLSXCellValue(value.text, type);
+
+		if ('formula' in value || 'sharedFormula' in value) return parseXLSXCellValue(value.result, type);
+
+		return undefined;
+	}
+
+	if (typeof value === 'number') {
+		if (type === 'boolean') return value !== 0;
+
+		return value;
+	}
+
+	if (typeof value === 'string') {
+		if (value.length === 0) return undefined;
+
+		if (type === 'boolean' && ['true', 'false'].includes(value.toLowerCase())) {
+			return value.toLowerCase() === 'true';
+		}
+
+		if (type === 'json' || value.startsWith('{') || value.startsWith('[')) {
+			try {
+				return parseJSON(value);
+			} catch {
+				return value;
+			}
+		}
+	}
+
+	return value;
+}
@@ -0,0 +1,52 @@
+import knex, { type Knex } from 'knex';
+import { createTracker, MockClient, type Tracker } from 'knex-mock-client';
+import { afterEach, beforeAll, expect, test } from 'vitest';
+import { requiresTFASetup } from './requires-tfa-setup.js';
+
+let db: Knex;
+let tracker: Tracker;
+
+beforeAll(() => {
+	db = knex.default({ client: MockClient });
+	tracker = createTracker(db);
+});
+
+afterEach(() => {
+	tracker.reset();
+});
+
+test('requires setup when a role enforces TFA and the user has no second factor', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'role-b' });
+	tracker.on.select('directus_users').responseOnce({ tfa_secret: null });
+	tracker.on.select('directus_webauthn_credentials').responseOnce(undefined);
+
+	await expect(requiresTFASetup('user-1', ['role-a', 'role-b'], db)).resolves.toBe(true);
+	expect(tracker.history.select[0]!.bindings).toEqual(['role-a', 'role-b', true, 1]);
+});
+
+test('does not require setup when no role enforces TFA', async () => {
+	tracker.on.select('directus_roles').responseOnce(undefined);
+
+	await expect(requiresTFASetup('user-1', ['role-a'], db)).resolves.toBe(false);
+	expect(tracker.history.select).toHaveLength(1);
+});
+
+test('does not require setup once a one-time password app is set up', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'role-a' });
+	tracker.on.select('directus_users').responseOnce({ tfa_secret: 'secret' });
+
+	await expect(requiresTFASetup('user-1', ['role-a'], db)).resolves.toBe(false);
+});
+
+test('does not require setup once a passkey is registered', async () => {
+	tracker.on.select('directus_roles').responseOnce({ id: 'role-a' });
+	tracker.on.select('directus_users').responseOnce({ tfa_secret: null });
+	tracker.on.select('directus_webauthn_credentials').responseOnce({ id: 'credential-1' });
+
+	await expect(requiresTFASetup('user-1', ['role-a'], db)).resolves.toBe(false);
+});
+
+test('does not require setup for users without roles', async () => {
+	await expect(requiresTFASetup('user-1', [], db)).resolves.toBe(false);
+	expect(tracker.history.select).toHaveLength(0);
+});
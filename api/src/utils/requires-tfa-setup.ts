@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * Whether one of the roles of a user enforces TFA while the user has no second factor yet. A passkey or security key
+ * counts as second factor, just like a one-time password app
+ */
+export async function requiresTFASetup(user: string, roles: string[], database: Knex): Promise<boolean> {
+	if (roles.length === 0) return false;
+
+	const enforcingRole = await database
+		.select('id')
+		.from('directus_roles')
+		.whereIn('id', roles)
+		.andWhere({ enforce_tfa: true })
+		.first();
+
+	if (!enforcingRole) return false;
+
+	const record = await database.select('tfa_secret').from('directus_users').where({ id: user }).first();
+
+	if (record?.tfa_secret) return false;
+
+	const credential = await database.select('id').from('directus_webauthn_credentials').where({ user }).first();
+
+	return !credential;
+}
@@ -73,7 +73,7 @@ export function sanitizeQuery(rawQuery: Record<string, any>, accountability?: Ac
 	}
 
 	if (rawQuery['export']) {
-		query.export = rawQuery['export'] as 'json' | 'csv';
+		query.export = rawQuery['export'] as NonNullable<Query['export']>;
 	}
 
 	if (rawQuery['deep'] as Record<string, any>) {
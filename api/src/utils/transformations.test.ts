@@ -15,6 +15,7 @@ const inputFile = {
 	uploaded_on: '2023-12-19T16:12:53.149Z',
 	charset: null,
 	filesize: 123,
+	hash: null,
 	width: 1920,
 	height: 1080,
 	duration: null,
@@ -0,0 +1,51 @@
+import { StorageQuotaExceededError } from '@directus/errors';
+import type { Knex } from 'knex';
+import { afterEach, expect, test, vi } from 'vitest';
+import { getStorageQuotas } from './get-storage-quotas.js';
+import { validateStorageQuota } from './validate-storage-quota.js';
+
+vi.mock('./get-storage-quotas.js');
+
+const owner = { user: 'user-1', role: 'role-1', folder: 'folder-1' };
+const database = {} as Knex;
+
+afterEach(() => {
+	vi.clearAllMocks();
+});
+
+test('Only checks the quotas that have a limit', async () => {
+	vi.mocked(getStorageQuotas).mockResolvedValue([]);
+
+	await validateStorageQuota(owner, 100, { database, exclude: 'file-1' });
+
+	expect(getStorageQuotas).toHaveBeenCalledWith(owner, { database, exclude: 'file-1', limitedOnly: true });
+});
+
+test('Passes when the file fits into the quota', async () => {
+	vi.mocked(getStorageQuotas).mockResolvedValue([
+		{ scope: 'folder', key: 'folder-1', size: { used: 900, limit: 1000 }, files: { used: 9, limit: 10 } },
+	]);
+
+	await expect(validateStorageQuota(owner, 100, { database })).resolves.toBeUndefined();
+});
+
+test('Throws when the size quota would be exceeded', async () => {
+	vi.mocked(getStorageQuotas).mockResolvedValue([
+		{ scope: 'user', key: 'user-1', size: { used: 0, limit: null }, files: { used: 0, limit: null } },
+		{ scope: 'role', key: 'role-1', size: { used: 900, limit: 1000 }, files: { used: 1, limit: null } },
+	]);
+
+	await expect(validateStorageQuota(owner, 101, { database })).rejects.toEqual(
+		new StorageQuotaExceededError({ scope: 'role', limit: 'size' }),
+	);
+});
+
+test('Throws when the files quota would be exceeded', async () => {
+	vi.mocked(getStorageQuotas).mockResolvedValue([
+		{ scope: 'user', key: 'user-1', size: { used: 0, limit: 1000 }, files: { used: 10, limit: 10 } },
+	]);
+
+	await expect(validateStorageQuota(owner, 0, { database })).rejects.toEqual(
+		new StorageQuotaExceededError({ scope: 'user', limit: 'files' }),
+	);
+});
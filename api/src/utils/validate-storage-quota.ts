@@ -0,0 +1,27 @@
+import { StorageQuotaExceededError } from '@directus/errors';
+import type { PrimaryKey } from '@directus/types';
+import type { Knex } from 'knex';
+import { getStorageQuotas, type StorageQuotaOwner } from './get-storage-quotas.js';
+
+/**
+ * Check that adding a file of the given size doesn't exceed any of the quotas of its owners
+ *
+ * @throws StorageQuotaExceededError
+ */
+export async function validateStorageQuota(
+	owner: StorageQuotaOwner,
+	size: number,
+	context: { database: Knex; exclude?: PrimaryKey | undefined },
+): Promise<void> {
+	const quotas = await getStorageQuotas(owner, { ...context, limitedOnly: true });
+
+	for (const { scope, size: sizeQuota, files: filesQuota } of quotas) {
+		if (filesQuota.limit !== null && filesQuota.used + 1 > filesQuota.limit) {
+			throw new StorageQuotaExceededError({ scope, limit: 'files' });
+		}
+
+		if (sizeQuota.limit !== null && sizeQuota.used + size > sizeQuota.limit) {
+			throw new StorageQuotaExceededError({ scope, limit: 'size' });
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { InvalidIpError, TokenExpiredError } from '@directus/errors';
+import type { AccessTokenScope } from '@directus/types';
+import { parseJSON } from '@directus/utils';
+import { createHash } from 'node:crypto';
+import getDatabase from '../database/index.js';
+import { ipInNetworks } from './ip-in-networks.js';
+
+/**
+ * How long the last use of a token is kept before it's updated again, to not write to the database on every request
+ */
+const LAST_USED_INTERVAL = 60 * 1000;
+
+/**
+ * The user a personal access token belongs to, and the collections and actions it's restricted to
+ */
+export type VerifiedAccessToken = {
+	user: string;
+	role: string | null;
+	scope: AccessTokenScope[] | null;
+};
+
+/**
+ * Find the active user a personal access token belongs to, and mark the token as used
+ *
+ * @returns `null` when there is no such token
+ * @throws If the token expired or is used from an IP address that isn't allowed
+ */
+export async function verifyAccessToken(token: string, ip?: string | null): Promise<VerifiedAccessToken | null> {
+	const database = getDatabase();
+
+	const record = await database
+		.select('t.id', 't.scope', 't.ip_access', 't.expires', 't.last_used', 'u.id as user', 'u.role')
+		.from('directus_access_tokens AS t')
+		.innerJoin('directus_users AS u', 't.user', 'u.id')
+		.where({ 't.token': hashAccessToken(token), 'u.status': 'active' })
+		.first();
+
+	if (!record) return null;
+
+	if (record.expires && new Date(record.expires).getTime() <= Date.now()) {
+		throw new TokenExpiredError();
+	}
+
+	if (record.ip_access && (!ip || !ipInNetworks(ip, record.ip_access.split(',')))) {
+		throw new InvalidIpError();
+	}
+
+	if (!record.last_used || Date.now() - new Date(record.last_used).getTime() > LAST_USED_INTERVAL) {
+		await database('directus_access_tokens').update({ last_used: new Date() }).where({ id: record.id });
+	}
+
+	return {
+		user: record.user,
+		role: record.role,
+		scope: typeof record.scope === 'string' ? parseJSON(record.scope) : record.scope ?? null,
+	};
+}
+
+/**
+ * Tokens are random enough to not need a slow hash, which would make looking them up on every request expensive
+ */
+export function hashAccessToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
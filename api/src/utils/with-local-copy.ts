@@ -0,0 +1,33 @@
+import { useEnv } from '@directus/env';
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { join } from 'path';
+
+/**
+ * Write the content of a file to a temporary directory, for tools that can only read from the local filesystem.
+ * The directory is passed along to store any output in, and is removed once the callback is done
+ */
+export async function withLocalCopy<T>(
+	stream: Readable,
+	extension: string,
+	callback: (filepath: string, directory: string) => Promise<T>,
+): Promise<T> {
+	const env = useEnv();
+
+	const directory = join(env['TEMP_PATH'] as string, 'media', randomUUID());
+
+	try {
+		await mkdir(directory, { recursive: true });
+
+		const filepath = join(directory, `source${extension}`);
+
+		await pipeline(stream, createWriteStream(filepath));
+
+		return await callback(filepath, directory);
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+}
@@ -7,8 +7,10 @@ import {
 	AuthenticationData,
 	LoginOptions,
 	RestCommand,
+	WebAuthnAssertion,
 	authenticateShare,
 	getAuthEndpoint,
+	loginWithPasskey,
 	readMe,
 } from '@directus/sdk';
 import { useAppStore } from '@directus/stores';
@@ -21,6 +23,7 @@ type LoginCredentials = {
 	email?: string;
 	password?: string;
 	otp?: string;
+	webauthn?: WebAuthnAssertion;
 	share?: string;
 };
 
@@ -44,13 +47,24 @@ export async function login({ credentials, provider, share }: LoginParams): Prom
 		// To initialize auto-refresh
 		response = await sdk.refresh();
 	} else {
-		const { email, identifier, password, otp } = credentials;
+		const { email, identifier, password, otp, webauthn } = credentials;
 
-		if (!password) throw new Error('Missing password');
+		const loginOptions: LoginOptions = {
+			otp,
+			...(webauthn && { webauthn }),
+			...(provider !== DEFAULT_AUTH_PROVIDER && { provider }),
+		};
 
-		const loginOptions: LoginOptions = { otp, ...(provider !== DEFAULT_AUTH_PROVIDER && { provider }) };
+		if (!password && webauthn) {
+			await sdk.request(
+				loginWithPasskey(webauthn, { mode: 'session', ...(provider !== DEFAULT_AUTH_PROVIDER && { provider }) }),
+			);
 
-		if (email) {
+			// To initialize auto-refresh
+			response = await sdk.refresh();
+		} else if (!password) {
+			throw new Error('Missing password');
+		} else if (email) {
 			response = await sdk.login(email, password, loginOptions);
 		} else if (identifier) {
 			const login =
@@ -95,7 +109,16 @@ emitter.on(Events.tabActive, () => {
 	}
 });
 
-export async function refresh({ navigate }: LogoutOptions = { navigate: true }): Promise<void> {
+export type RefreshOptions = {
+	navigate?: boolean;
+	/**
+	 * Request a new access token even if the current one is still fresh, for example once it's outdated after 2FA
+	 * has been set up
+	 */
+	force?: boolean;
+};
+
+export async function refresh({ navigate = true, force = false }: RefreshOptions = {}): Promise<void> {
 	const appStore = useAppStore();
 
 	// Allow refresh during initial page load, skip if not logged in
@@ -103,7 +126,11 @@ export async function refresh({ navigate }: LogoutOptions = { navigate: true }):
 
 	try {
 		// Skip access token refreshing if it is still fresh but validate the session
-		if (appStore.accessTokenExpiry && Date.now() < appStore.accessTokenExpiry - SDK_AUTH_REFRESH_BEFORE_EXPIRES) {
+		if (
+			!force &&
+			appStore.accessTokenExpiry &&
+			Date.now() < appStore.accessTokenExpiry - SDK_AUTH_REFRESH_BEFORE_EXPIRES
+		) {
 			await sdk.request(readMe({ fields: ['id'] }));
 			return;
 		}
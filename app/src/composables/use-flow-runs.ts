@@ -0,0 +1,150 @@
+import api from '@/api';
+import { useServerStore } from '@/stores/server';
+import { localizedFormat } from '@/utils/localized-format';
+import { localizedFormatDistance } from '@/utils/localized-format-distance';
+import { unexpectedError } from '@/utils/unexpected-error';
+import type { FlowRun, PrimaryKey } from '@directus/types';
+import { isThisYear, isToday, isYesterday, parseISO } from 'date-fns';
+import { groupBy, orderBy } from 'lodash';
+import { Ref, ref, unref, watch } from 'vue';
+import { useI18n } from 'vue-i18n';
+
+export type FlowRunWithTime = FlowRun & {
+	timestampFormatted: string;
+	timeRelative: string;
+};
+
+export type FlowRunsByDate = {
+	date: Date;
+	dateFormatted: string;
+	runs: FlowRunWithTime[];
+};
+
+export function useFlowRuns(flow: Ref<PrimaryKey>) {
+	const { t } = useI18n();
+	const { info } = useServerStore();
+
+	const runsByDate = ref<FlowRunsByDate[] | null>(null);
+	const runsCount = ref(0);
+	const loading = ref(false);
+	const loadingCount = ref(false);
+	const replaying = ref(false);
+	const pagesCount = ref(0);
+
+	watch(flow, () => refresh());
+
+	return {
+		runsByDate,
+		runsCount,
+		loading,
+		loadingCount,
+		replaying,
+		pagesCount,
+		getRuns,
+		getRunsCount,
+		replayRun,
+		refresh,
+	};
+
+	async function getRuns(page = 0) {
+		loading.value = true;
+		const pageSize = info.queryLimit?.max && info.queryLimit.max !== -1 ? Math.min(10, info.queryLimit.max) : 10;
+
+		try {
+			const response = await api.get<{ data: FlowRun[] }>(`/flows/${unref(flow)}/runs`, {
+				params: {
+					sort: '-date_started',
+					limit: pageSize,
+					page,
+				},
+			});
+
+			const runsGroupedByDate = groupBy(
+				response.data.data,
+				(run) => new Date(new Date(run.date_started).toDateString()),
+			);
+
+			const runsGrouped: FlowRunsByDate[] = [];
+
+			for (const [key, value] of Object.entries(runsGroupedByDate)) {
+				const date = new Date(key);
+
+				let dateFormatted: string;
+
+				if (isToday(date)) dateFormatted = t('today');
+				else if (isYesterday(date)) dateFormatted = t('yesterday');
+				else if (isThisYear(date)) dateFormatted = localizedFormat(date, String(t('date-fns_date_short_no_year')));
+				else dateFormatted = localizedFormat(date, String(t('date-fns_date_short')));
+
+				runsGrouped.push({
+					date,
+					dateFormatted,
+					runs: value.map((run) => ({
+						...run,
+						timestampFormatted: getFormattedDate(run.date_started),
+						timeRelative: `${localizedFormat(
+							new Date(run.date_started),
+							String(t('date-fns_time')),
+						)} (${localizedFormatDistance(parseISO(run.date_started), new Date(), { addSuffix: true })})`,
+					})),
+				});
+			}
+
+			runsByDate.value = orderBy(runsGrouped, ['date'], ['desc']);
+			pagesCount.value = Math.ceil(runsCount.value / pageSize);
+		} catch (error) {
+			unexpectedError(error);
+		} finally {
+			loading.value = false;
+		}
+	}
+
+	async function getRunsCount() {
+		loadingCount.value = true;
+
+		try {
+			const response = await api.get(`/flows/${unref(flow)}/runs`, {
+				params: {
+					aggregate: {
+						count: 'id',
+					},
+				},
+			});
+
+			runsCount.value = Number(response.data.data[0].count.id);
+		} catch (error) {
+			unexpectedError(error);
+		} finally {
+			loadingCount.value = false;
+		}
+	}
+
+	async function replayRun(run: PrimaryKey): Promise<FlowRun | null> {
+		replaying.value = true;
+
+		try {
+			const response = await api.post<{ data: FlowRun | null }>(`/flows/${unref(flow)}/runs/${run}/replay`);
+
+			await refresh();
+
+			return response.data.data;
+		} catch (error) {
+			unexpectedError(error);
+			return null;
+		} finally {
+			replaying.value = false;
+		}
+	}
+
+	async function refresh(page = 0) {
+		await getRunsCount();
+		await getRuns(page);
+	}
+
+	function getFormattedDate(timestamp: string) {
+		const date = localizedFormat(new Date(timestamp), String(t('date-fns_date_short')));
+		const time = localizedFormat(new Date(timestamp), String(t('date-fns_time')));
+
+		return `${date} (${time})`;
+	}
+}
@@ -11,6 +11,7 @@ export function useTFASetup(initialEnabled: boolean) {
 	const tfaGenerated = ref(false);
 	const secret = ref<string>();
 	const otp = ref('');
+	const recoveryCodes = ref<string[] | null>(null);
 	const error = ref<any>();
 	const canvasID = nanoid();
 
@@ -25,12 +26,14 @@ export function useTFASetup(initialEnabled: boolean) {
 		enableTFA,
 		disableTFA,
 		adminDisableTFA,
+		generateRecoveryCodes,
 		loading,
 		password,
 		tfaEnabled,
 		tfaGenerated,
 		secret,
 		otp,
+		recoveryCodes,
 		error,
 		canvasID,
 	};
@@ -62,7 +65,8 @@ export function useTFASetup(initialEnabled: boolean) {
 		let success = false;
 
 		try {
-			await api.post('/users/me/tfa/enable', { otp: otp.value, secret: secret.value });
+			const response = await api.post('/users/me/tfa/enable', { otp: otp.value, secret: secret.value });
+			recoveryCodes.value = response.data.data.recovery_codes;
 			success = true;
 			tfaEnabled.value = true;
 			tfaGenerated.value = false;
@@ -100,6 +104,25 @@ export function useTFASetup(initialEnabled: boolean) {
 		return success;
 	}
 
+	async function generateRecoveryCodes() {
+		loading.value = true;
+		let success = false;
+
+		try {
+			const response = await api.post('/users/me/tfa/recovery-codes', { otp: otp.value });
+			recoveryCodes.value = response.data.data.recovery_codes;
+			success = true;
+			otp.value = '';
+			error.value = null;
+		} catch (err: any) {
+			error.value = err;
+		} finally {
+			loading.value = false;
+		}
+
+		return success;
+	}
+
 	async function adminDisableTFA(pk: string) {
 		loading.value = true;
 		let success = false;
@@ -121,7 +121,9 @@ export function useVersions(collection: Ref<string>, isSingleton: Ref<boolean>,
 		currentVersion.value = version;
 	}
 
-	async function updateVersion(updates: { key: string; name?: string | null }) {
+	async function updateVersion(
+		updates: Partial<Pick<ContentVersion, 'key' | 'name' | 'publish_at' | 'publish_error'>>,
+	) {
 		if (!currentVersion.value || !versions.value) return;
 
 		const currentVersionId = currentVersion.value.id;
@@ -129,8 +131,10 @@ export function useVersions(collection: Ref<string>, isSingleton: Ref<boolean>,
 		const versionToUpdate = versions.value.find((version) => version.id === currentVersionId);
 
 		if (versionToUpdate) {
-			versionToUpdate.key = updates.key;
+			if (updates.key) versionToUpdate.key = updates.key;
 			if ('name' in updates) versionToUpdate.name = updates.name ?? null;
+			if ('publish_at' in updates) versionToUpdate.publish_at = updates.publish_at ?? null;
+			if ('publish_error' in updates) versionToUpdate.publish_error = updates.publish_error ?? null;
 			currentVersion.value = versionToUpdate;
 		}
 	}
@@ -70,13 +70,20 @@ export async function hydrate(): Promise<void> {
 		const lang = getCurrentLanguage();
 		const currentUser = userStore.currentUser;
 
-		if (currentUser?.role) {
-			await Promise.all([permissionsStore.hydrate(), fieldsStore.hydrate({ skipTranslation: true })]);
+		// The API rejects all other requests until the user has set up 2FA
+		if (currentUser?.role && !userStore.requiresTFASetup) {
+			try {
+				await Promise.all([permissionsStore.hydrate(), fieldsStore.hydrate({ skipTranslation: true })]);
 
-			const hydratedStores = ['userStore', 'permissionsStore', 'fieldsStore', 'serverStore'];
-			await Promise.all(stores.filter(({ $id }) => !hydratedStores.includes($id)).map((store) => store.hydrate?.()));
+				const hydratedStores = ['userStore', 'permissionsStore', 'fieldsStore', 'serverStore'];
+				await Promise.all(stores.filter(({ $id }) => !hydratedStores.includes($id)).map((store) => store.hydrate?.()));
 
-			await onHydrateExtensions();
+				await onHydrateExtensions();
+			} catch (error: any) {
+				if (error?.response?.data?.errors?.[0]?.extensions?.code !== 'TFA_REQUIRED') throw error;
+
+				userStore.tfaRequired = true;
+			}
 		}
 
 		await setLanguage(lang);
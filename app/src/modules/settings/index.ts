@@ -10,6 +10,7 @@ import FieldDetail from './routes/data-model/field-detail/field-detail.vue';
 import Fields from './routes/data-model/fields/fields.vue';
 import NewCollection from './routes/data-model/new-collection.vue';
 import Extensions from './routes/extensions/extensions.vue';
+import ExportsOverview from './routes/exports/overview.vue';
 import FlowOperationDetail from './routes/flows/components/operation-detail.vue';
 import FlowsDetail from './routes/flows/flow.vue';
 import FlowsOverview from './routes/flows/overview.vue';
@@ -192,6 +193,11 @@ export default defineModule({
 				},
 			],
 		},
+		{
+			name: 'settings-exports',
+			path: 'exports',
+			component: ExportsOverview,
+		},
 		{
 			path: 'flows',
 			component: RouterPass,
@@ -0,0 +1,69 @@
+import { defineOperationApp } from '@directus/extensions';
+
+export default defineOperationApp({
+	id: 'loop',
+	icon: 'repeat',
+	name: '$t:operations.loop.name',
+	description: '$t:operations.loop.description',
+	overview: ({ array, operation, concurrency }) => [
+		{
+			label: '$t:operations.loop.array',
+			text: typeof array === 'string' ? array : JSON.stringify(array ?? []),
+		},
+		{
+			label: '$t:operations.loop.operation',
+			text: operation,
+		},
+		{
+			label: '$t:operations.loop.concurrency',
+			text: String(concurrency ?? 1),
+		},
+	],
+	options: [
+		{
+			field: 'array',
+			name: '$t:operations.loop.array',
+			type: 'string',
+			meta: {
+				width: 'full',
+				interface: 'input',
+				note: '$t:operations.loop.array_note',
+				options: {
+					font: 'monospace',
+					placeholder: '{{ $trigger.body.items }}',
+				},
+			},
+		},
+		{
+			field: 'operation',
+			name: '$t:operations.loop.operation',
+			type: 'string',
+			meta: {
+				width: 'half',
+				interface: 'input',
+				note: '$t:operations.loop.operation_note',
+				options: {
+					font: 'monospace',
+					placeholder: '$t:operations.loop.operation_placeholder',
+				},
+			},
+		},
+		{
+			field: 'concurrency',
+			name: '$t:operations.loop.concurrency',
+			type: 'integer',
+			meta: {
+				width: 'half',
+				interface: 'input',
+				note: '$t:operations.loop.concurrency_note',
+				options: {
+					min: 1,
+					type: 'integer',
+				},
+			},
+			schema: {
+				default_value: 1,
+			},
+		},
+	],
+});
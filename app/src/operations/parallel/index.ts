@@ -0,0 +1,88 @@
+import { defineOperationApp } from '@directus/extensions';
+
+export default defineOperationApp({
+	id: 'parallel',
+	icon: 'call_split',
+	name: '$t:operations.parallel.name',
+	description: '$t:operations.parallel.description',
+	overview: ({ branches, mode }) => [
+		{
+			label: '$t:operations.parallel.branches',
+			text: Array.isArray(branches) ? branches.map((branch) => branch.name).join(', ') : '--',
+		},
+		{
+			label: '$t:operations.parallel.mode',
+			text: mode === 'first' ? '$t:operations.parallel.first' : '$t:operations.parallel.all',
+		},
+	],
+	options: [
+		{
+			field: 'branches',
+			name: '$t:operations.parallel.branches',
+			type: 'json',
+			meta: {
+				width: 'full',
+				interface: 'list',
+				note: '$t:operations.parallel.branches_note',
+				options: {
+					template: '{{ name }}',
+					fields: [
+						{
+							field: 'name',
+							name: '$t:name',
+							type: 'string',
+							meta: {
+								width: 'half',
+								interface: 'input',
+								required: true,
+								options: {
+									font: 'monospace',
+									placeholder: '$t:operations.parallel.name_placeholder',
+								},
+							},
+						},
+						{
+							field: 'operation',
+							name: '$t:operations.parallel.operation',
+							type: 'string',
+							meta: {
+								width: 'half',
+								interface: 'input',
+								required: true,
+								options: {
+									font: 'monospace',
+									placeholder: '$t:operations.parallel.operation_placeholder',
+								},
+							},
+						},
+					],
+				},
+			},
+		},
+		{
+			field: 'mode',
+			name: '$t:operations.parallel.mode',
+			type: 'string',
+			meta: {
+				width: 'half',
+				interface: 'select-dropdown',
+				note: '$t:operations.parallel.mode_note',
+				options: {
+					choices: [
+						{
+							text: '$t:operations.parallel.all',
+							value: 'all',
+						},
+						{
+							text: '$t:operations.parallel.first',
+							value: 'first',
+						},
+					],
+				},
+			},
+			schema: {
+				default_value: 'all',
+			},
+		},
+	],
+});
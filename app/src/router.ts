@@ -146,7 +146,7 @@ export const onBeforeEach: NavigationGuard = async (to) => {
 
 		if (userStore.currentUser && !('share' in userStore.currentUser) && userStore.currentUser.role) {
 			if (to.path !== '/tfa-setup') {
-				if (userStore.currentUser.role.enforce_tfa && userStore.currentUser.tfa_secret === null) {
+				if (userStore.requiresTFASetup) {
 					if (userStore.currentUser.last_page === to.fullPath) {
 						return '/tfa-setup';
 					} else {
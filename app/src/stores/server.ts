@@ -51,6 +51,10 @@ export type Info = {
 		default: number;
 		max: number;
 	};
+	storage?: {
+		locations: string[];
+		usage?: Record<string, { size: number; files: number }>;
+	};
 	version?: string;
 	extensions?: {
 		limit: number | null;
@@ -68,6 +72,7 @@ export const useServerStore = defineStore('serverStore', () => {
 		extensions: undefined,
 		rateLimit: undefined,
 		queryLimit: undefined,
+		storage: undefined,
 	});
 
 	const auth = reactive<Auth>({
@@ -99,6 +104,7 @@ export const useServerStore = defineStore('serverStore', () => {
 
 		info.project = serverInfoResponse.data.data?.project;
 		info.queryLimit = serverInfoResponse.data.data?.queryLimit;
+		info.storage = serverInfoResponse.data.data?.storage;
 		info.extensions = serverInfoResponse.data.data?.extensions;
 		info.version = serverInfoResponse.data.data?.version;
 
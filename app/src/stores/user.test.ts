@@ -115,6 +115,49 @@ describe('getters', () => {
 			expect(userStore.isAdmin).toEqual(true);
 		});
 	});
+
+	describe('requiresTFASetup', () => {
+		test('should return false when the role enforces TFA but the API accepts the user, who may use a passkey', async () => {
+			const userStore = useUserStore();
+
+			userStore.currentUser = {
+				tfa_secret: null,
+				role: {
+					enforce_tfa: true,
+				},
+			} as User;
+
+			expect(userStore.requiresTFASetup).toEqual(false);
+		});
+
+		test('should return true when the API requires TFA for the current user', async () => {
+			const userStore = useUserStore();
+
+			userStore.currentUser = {
+				tfa_secret: null,
+				role: {
+					enforce_tfa: false,
+				},
+			} as User;
+
+			userStore.tfaRequired = true;
+
+			expect(userStore.requiresTFASetup).toEqual(true);
+		});
+
+		test('should return false when the current user has set up TFA', async () => {
+			const userStore = useUserStore();
+
+			userStore.currentUser = {
+				tfa_secret: '**********',
+				role: {
+					enforce_tfa: true,
+				},
+			} as User;
+
+			expect(userStore.requiresTFASetup).toEqual(false);
+		});
+	});
 });
 
 describe('actions', () => {
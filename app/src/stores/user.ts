@@ -18,6 +18,10 @@ export const useUserStore = defineStore({
 	id: 'userStore',
 	state: () => ({
 		currentUser: null as User | ShareUser | null,
+		/**
+		 * Set when the API rejected a request because a role of the user requires 2FA
+		 */
+		tfaRequired: false,
 		loading: false,
 		error: null,
 	}),
@@ -29,6 +33,14 @@ export const useUserStore = defineStore({
 		isAdmin(): boolean {
 			return this.currentUser?.role?.admin_access === true || false;
 		},
+		requiresTFASetup(): boolean {
+			if (this.currentUser === null || 'share' in this.currentUser || this.currentUser.tfa_secret !== null) {
+				return false;
+			}
+
+			// Only the API knows about passkeys, which count as second factor as well
+			return this.tfaRequired;
+		},
 	},
 	actions: {
 		async hydrate() {
@@ -0,0 +1,14 @@
+import { sdk } from '@/sdk';
+import { requestWebAuthnChallenge, type WebAuthnAssertion } from '@directus/sdk';
+import { startAuthentication } from '@simplewebauthn/browser';
+
+/**
+ * Let the browser sign a new WebAuthn challenge with a passkey or security key of the user
+ */
+export async function getWebAuthnAssertion(): Promise<WebAuthnAssertion> {
+	const { options, token } = await sdk.request(requestWebAuthnChallenge());
+
+	const response = await startAuthentication(options as Parameters<typeof startAuthentication>[0]);
+
+	return { response, token };
+}
@@ -45,3 +45,15 @@ test('Returns true if fields, validation, presets, and permissions is empty', ()
 
 	expect(isPermissionEmpty(perm)).toBe(true);
 });
+
+test('Returns false if the permission has conditions', () => {
+	const perm: any = {
+		fields: [],
+		validation: {},
+		presets: {},
+		permissions: {},
+		ip_access: ['192.168.0.0/24'],
+	};
+
+	expect(isPermissionEmpty(perm)).toBe(false);
+});
@@ -5,6 +5,10 @@ export function isPermissionEmpty(perm: Permission): boolean {
 		(perm.fields || []).length === 0 &&
 		Object.keys(perm.validation || {}).length === 0 &&
 		Object.keys(perm.presets || {}).length === 0 &&
-		Object.keys(perm.permissions || {}).length === 0
+		Object.keys(perm.permissions || {}).length === 0 &&
+		!perm.active_from &&
+		!perm.active_until &&
+		!perm.schedule &&
+		(perm.ip_access || []).length === 0
 	);
 }
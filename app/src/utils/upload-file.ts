@@ -5,6 +5,13 @@ import { notify } from '@/utils/notify';
 import type { AxiosProgressEvent } from 'axios';
 import { unexpectedError } from './unexpected-error';
 
+/**
+ * New files larger than this are uploaded in chunks that can be resumed after a connection failure
+ */
+const RESUMABLE_UPLOAD_THRESHOLD = 10 * 1024 * 1024;
+const RESUMABLE_UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+const RESUMABLE_UPLOAD_RETRIES = 5;
+
 export async function uploadFile(
 	file: File,
 	options?: {
@@ -15,6 +22,11 @@ export async function uploadFile(
 	},
 ): Promise<any> {
 	const progressHandler = options?.onProgressChange || (() => undefined);
+
+	if (!options?.fileId && file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+		return uploadResumable();
+	}
+
 	const formData = new FormData();
 
 	if (options?.preset) {
@@ -55,4 +67,77 @@ export async function uploadFile(
 		const percentCompleted = Math.floor((progressEvent.loaded * 100) / progressEvent.total!);
 		progressHandler(percentCompleted);
 	}
+
+	async function uploadResumable() {
+		const metadata = Object.entries({ ...options?.preset, filename: file.name, filetype: file.type })
+			.filter(([, value]) => value !== undefined && value !== '')
+			.map(([key, value]) => `${key} ${encodeMetadataValue(String(value))}`)
+			.join(',');
+
+		try {
+			const createResponse = await api.post('/files/tus', null, {
+				headers: { 'Tus-Resumable': '1.0.0', 'Upload-Length': file.size, 'Upload-Metadata': metadata },
+			});
+
+			const uploadId = createResponse.headers['location'].split('/').pop();
+
+			let offset = 0;
+			let fileId: string | null = null;
+			let retries = 0;
+			let resync = false;
+
+			while (fileId === null) {
+				try {
+					// Continue from the offset the server received before the connection failed
+					const response = resync
+						? await api.head(`/files/tus/${uploadId}`, { headers: { 'Tus-Resumable': '1.0.0' } })
+						: await uploadChunk(uploadId, offset);
+
+					offset = Number(response.headers['upload-offset']);
+					fileId = response.headers['directus-file-id'] ?? null;
+					resync = false;
+					retries = 0;
+				} catch (error: any) {
+					// Only connection failures and server errors can be resumed
+					if ((error?.response && error.response.status < 500) || retries >= RESUMABLE_UPLOAD_RETRIES) throw error;
+
+					await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** retries));
+
+					resync = true;
+					retries++;
+				}
+			}
+
+			const response = await api.get(`/files/${fileId}`);
+
+			if (options?.notifications) {
+				notify({
+					title: i18n.global.t('upload_file_success'),
+				});
+			}
+
+			emitter.emit(Events.upload);
+
+			return response.data.data;
+		} catch (error) {
+			unexpectedError(error);
+		}
+	}
+
+	function uploadChunk(uploadId: string, offset: number) {
+		return api.patch(`/files/tus/${uploadId}`, file.slice(offset, offset + RESUMABLE_UPLOAD_CHUNK_SIZE), {
+			headers: {
+				'Tus-Resumable': '1.0.0',
+				'Upload-Offset': offset,
+				'Content-Type': 'application/offset+octet-stream',
+			},
+			onUploadProgress: (progressEvent) => {
+				progressHandler(Math.floor(((offset + progressEvent.loaded) * 100) / file.size));
+			},
+		});
+	}
+}
+
+function encodeMetadataValue(value: string) {
+	return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
 }
@@ -158,6 +158,10 @@ function sidebarDeveloperReference() {
 					link: '/reference/system/dashboards',
 					text: 'Dashboards',
 				},
+				{
+					link: '/reference/system/exports',
+					text: 'Exports',
+				},
 				{
 					link: '/reference/system/extensions',
 					text: 'Extensions',
@@ -7,6 +7,7 @@ export enum Action {
 	COMMENT = 'comment',
 	UPLOAD = 'upload',
 	LOGIN = 'login',
+	LOGIN_FAILED = 'login_failed',
 	RUN = 'run',
 	INSTALL = 'install',
 }
@@ -49,6 +49,10 @@ export const DEFAULTS = {
 	SESSION_REFRESH_GRACE_PERIOD: '10s',
 
 	LOGIN_STALL_TIME: 500,
+	LOGIN_IP_ATTEMPTS: 100,
+	LOGIN_ATTEMPTS_WINDOW: '1d',
+	LOGIN_LOCKOUT_DURATION: '5m',
+	LOGIN_LOCKOUT_MAX_DURATION: '1d',
 	REGISTER_STALL_TIME: 750,
 	SERVER_SHUTDOWN_TIMEOUT: 1000,
 
@@ -57,8 +61,8 @@ export const DEFAULTS = {
 	CORS_ENABLED: false,
 	CORS_ORIGIN: false,
 	CORS_METHODS: 'GET,POST,PATCH,DELETE',
-	CORS_ALLOWED_HEADERS: 'Content-Type,Authorization',
-	CORS_EXPOSED_HEADERS: 'Content-Range',
+	CORS_ALLOWED_HEADERS: 'Content-Type,Authorization,Tus-Resumable,Upload-Length,Upload-Offset,Upload-Metadata',
+	CORS_EXPOSED_HEADERS: 'Content-Range,Location,Tus-Resumable,Upload-Length,Upload-Offset,Directus-File-Id',
 	CORS_CREDENTIALS: true,
 	CORS_MAX_AGE: 18000,
 
@@ -118,6 +122,10 @@ export const DEFAULTS = {
 	EXPORT_BATCH_SIZE: 5000,
 
 	FILE_METADATA_ALLOW_LIST: 'ifd0.Make,ifd0.Model,exif.FNumber,exif.ExposureTime,exif.FocalLength,exif.ISOSpeedRatings',
+	FFPROBE_PATH: 'ffprobe',
+	FFMPEG_PATH: 'ffmpeg',
+	PDFINFO_PATH: 'pdfinfo',
+	PDFTOPPM_PATH: 'pdftoppm',
 
 	GRAPHQL_INTROSPECTION: true,
 
@@ -136,6 +144,12 @@ export const DEFAULTS = {
 	FLOWS_ENV_ALLOW_LIST: false,
 	FLOWS_RUN_SCRIPT_MAX_MEMORY: 32,
 	FLOWS_RUN_SCRIPT_TIMEOUT: 10000,
+	FLOWS_QUEUE_ENABLED: false,
+	FLOWS_QUEUE_RETRIES: 3,
+	FLOWS_QUEUE_BACKOFF: 1000,
+	FLOWS_QUEUE_POLL_INTERVAL: 1000,
+	FLOWS_QUEUE_CLAIM_TIMEOUT: 300000,
+	FLOWS_QUEUE_CONCURRENCY: 5,
 
 	PRESSURE_LIMITER_ENABLED: true,
 	PRESSURE_LIMITER_SAMPLE_INTERVAL: 250,
@@ -146,4 +160,9 @@ export const DEFAULTS = {
 	PRESSURE_LIMITER_RETRY_AFTER: false,
 
 	FILES_MIME_TYPE_ALLOW_LIST: '*/*',
+	FILES_RESUMABLE_UPLOAD_EXPIRATION: '1d',
+	FILES_DEDUPLICATION: false,
+	FILES_ORPHAN_CLEANUP_SCHEDULE: false,
+	FILES_ORPHAN_CLEANUP_GRACE_PERIOD: '7d',
+	FILES_ORPHAN_CLEANUP_DRY_RUN: false,
 } as const;
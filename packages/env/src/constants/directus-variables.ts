@@ -58,10 +58,17 @@ export const DIRECTUS_VARIABLES = [
 	'REDIS_DB',
 
 	'LOGIN_STALL_TIME',
+	'LOGIN_IP_ATTEMPTS',
+	'LOGIN_ATTEMPTS_WINDOW',
+	'LOGIN_LOCKOUT_DURATION',
+	'LOGIN_LOCKOUT_MAX_DURATION',
 	'REGISTER_STALL_TIME',
 	'PASSWORD_RESET_URL_ALLOW_LIST',
 	'USER_INVITE_URL_ALLOW_LIST',
 	'USER_REGISTER_URL_ALLOW_LIST',
+	'WEBAUTHN_RP_ID',
+	'WEBAUTHN_RP_NAME',
+	'WEBAUTHN_ORIGINS',
 	'IP_TRUST_PROXY',
 	'IP_CUSTOM_HEADER',
 	'ASSETS_CONTENT_SECURITY_POLICY',
@@ -124,10 +131,20 @@ export const DIRECTUS_VARIABLES = [
 
 	// metadata
 	'FILE_METADATA_ALLOW_LIST',
+	'FFPROBE_PATH',
+	'FFMPEG_PATH',
+	'PDFINFO_PATH',
+	'PDFTOPPM_PATH',
 
 	// files
 	'FILES_MAX_UPLOAD_SIZE',
 	'FILES_CONTENT_TYPE_ALLOW_LIST',
+	'FILES_RESUMABLE_UPLOAD_EXPIRATION',
+	'FILES_DEDUPLICATION',
+	'FILES_ORPHAN_CLEANUP_SCHEDULE',
+	'FILES_ORPHAN_CLEANUP_GRACE_PERIOD',
+	'FILES_ORPHAN_CLEANUP_EXCLUDED_FOLDERS',
+	'FILES_ORPHAN_CLEANUP_DRY_RUN',
 
 	// assets
 	'ASSETS_CACHE_TTL',
@@ -233,6 +250,12 @@ export const DIRECTUS_VARIABLES = [
 	'FLOWS_ENV_ALLOW_LIST',
 	'FLOWS_RUN_SCRIPT_MAX_MEMORY',
 	'FLOWS_RUN_SCRIPT_TIMEOUT',
+	'FLOWS_QUEUE_ENABLED',
+	'FLOWS_QUEUE_RETRIES',
+	'FLOWS_QUEUE_BACKOFF',
+	'FLOWS_QUEUE_POLL_INTERVAL',
+	'FLOWS_QUEUE_CLAIM_TIMEOUT',
+	'FLOWS_QUEUE_CONCURRENCY',
 
 	// websockets
 	'WEBSOCKETS_.+',
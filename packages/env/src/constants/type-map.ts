@@ -23,6 +23,7 @@ export const TYPE_MAP: Record<string, EnvType> = {
 	IMPORT_IP_DENY_LIST: 'array',
 
 	FILE_METADATA_ALLOW_LIST: 'array',
+	FILES_ORPHAN_CLEANUP_EXCLUDED_FOLDERS: 'array',
 
 	GRAPHQL_INTROSPECTION: 'boolean',
 
@@ -32,5 +33,7 @@ export const TYPE_MAP: Record<string, EnvType> = {
 
 	LOG_HTTP_IGNORE_PATHS: 'array',
 
+	WEBAUTHN_ORIGINS: 'array',
+
 	REDIS_ENABLED: 'boolean',
 } as const;
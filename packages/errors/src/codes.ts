@@ -13,6 +13,7 @@ export enum ErrorCode {
 	InvalidQuery = 'INVALID_QUERY',
 	InvalidToken = 'INVALID_TOKEN',
 	LimitExceeded = 'LIMIT_EXCEEDED',
+	LoginLocked = 'LOGIN_LOCKED',
 	MethodNotAllowed = 'METHOD_NOT_ALLOWED',
 	NotNullViolation = 'NOT_NULL_VIOLATION',
 	OutOfDate = 'OUT_OF_DATE',
@@ -21,6 +22,8 @@ export enum ErrorCode {
 	RequestsExceeded = 'REQUESTS_EXCEEDED',
 	RouteNotFound = 'ROUTE_NOT_FOUND',
 	ServiceUnavailable = 'SERVICE_UNAVAILABLE',
+	StorageQuotaExceeded = 'STORAGE_QUOTA_EXCEEDED',
+	TfaRequired = 'TFA_REQUIRED',
 	TokenExpired = 'TOKEN_EXPIRED',
 	UnexpectedResponse = 'UNEXPECTED_RESPONSE',
 	UnprocessableContent = 'UNPROCESSABLE_CONTENT',
@@ -13,6 +13,7 @@ export { InvalidProviderError } from './invalid-provider.js';
 export { InvalidQueryError } from './invalid-query.js';
 export { InvalidTokenError } from './invalid-token.js';
 export { LimitExceededError } from './limit-exceeded.js';
+export { LoginLockedError } from './login-locked.js';
 export { MethodNotAllowedError } from './method-not-allowed.js';
 export { NotNullViolationError } from './not-null-violation.js';
 export { OutOfDateError } from './out-of-date.js';
@@ -20,6 +21,8 @@ export { RangeNotSatisfiableError } from './range-not-satisfiable.js';
 export { RecordNotUniqueError } from './record-not-unique.js';
 export { RouteNotFoundError } from './route-not-found.js';
 export { ServiceUnavailableError } from './service-unavailable.js';
+export { StorageQuotaExceededError } from './storage-quota-exceeded.js';
+export { TfaRequiredError } from './tfa-required.js';
 export { TokenExpiredError } from './token-expired.js';
 export { UnexpectedResponseError } from './unexpected-response.js';
 export { UnprocessableContentError } from './unprocessable-content.js';
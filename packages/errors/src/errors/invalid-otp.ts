@@ -1,3 +1,10 @@
 import { createError, ErrorCode } from '../index.js';
 
-export const InvalidOtpError = createError(ErrorCode.InvalidOtp, 'Invalid user OTP.', 401);
+export interface InvalidOtpErrorExtensions {
+	/** Whether the user has a one-time password app */
+	otp: boolean;
+	/** Whether the user has a passkey or security key */
+	webauthn: boolean;
+}
+
+export const InvalidOtpError = createError<InvalidOtpErrorExtensions>(ErrorCode.InvalidOtp, 'Invalid user OTP.', 401);
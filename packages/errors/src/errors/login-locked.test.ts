@@ -0,0 +1,14 @@
+import { expect, test, vi } from 'vitest';
+import { messageConstructor } from './login-locked.js';
+
+vi.useFakeTimers();
+
+vi.setSystemTime('2024-06-19T09:00:00Z');
+
+test('Constructs message', () => {
+	expect(
+		messageConstructor({
+			reset: new Date('2024-06-19T09:15:00Z'),
+		}),
+	).toMatchInlineSnapshot('"Too many failed login attempts, retry after 15m."');
+});
@@ -0,0 +1,13 @@
+import ms from 'ms';
+import { createError, ErrorCode } from '../index.js';
+
+export interface LoginLockedErrorExtensions {
+	reset: Date;
+}
+
+export const messageConstructor = (extensions: LoginLockedErrorExtensions) => {
+	const msBeforeNext = extensions.reset.getTime() - Date.now();
+	return `Too many failed login attempts, retry after ${ms(msBeforeNext)}.`;
+};
+
+export const LoginLockedError = createError<LoginLockedErrorExtensions>(ErrorCode.LoginLocked, messageConstructor, 429);
@@ -0,0 +1,14 @@
+import { expect, test } from 'vitest';
+import { messageConstructor } from './storage-quota-exceeded.js';
+
+test('Constructs message for the size limit', () => {
+	const message = messageConstructor({ scope: 'folder', limit: 'size' });
+
+	expect(message).toMatchInlineSnapshot(`"Storage quota of the folder is exceeded."`);
+});
+
+test('Constructs message for the files limit', () => {
+	const message = messageConstructor({ scope: 'user', limit: 'files' });
+
+	expect(message).toMatchInlineSnapshot(`"File quota of the user is exceeded."`);
+});
@@ -0,0 +1,15 @@
+import { createError, ErrorCode } from '../index.js';
+
+export interface StorageQuotaExceededErrorExtensions {
+	scope: 'user' | 'role' | 'folder';
+	limit: 'size' | 'files';
+}
+
+export const messageConstructor = ({ scope, limit }: StorageQuotaExceededErrorExtensions) =>
+	`${limit === 'size' ? 'Storage' : 'File'} quota of the ${scope} is exceeded.`;
+
+export const StorageQuotaExceededError = createError<StorageQuotaExceededErrorExtensions>(
+	ErrorCode.StorageQuotaExceeded,
+	messageConstructor,
+	413,
+);
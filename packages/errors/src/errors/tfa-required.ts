@@ -0,0 +1,3 @@
+import { createError, ErrorCode } from '../index.js';
+
+export const TfaRequiredError = createError(ErrorCode.TfaRequired, 'Two-factor authentication has to be set up.', 403);
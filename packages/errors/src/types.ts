@@ -3,6 +3,7 @@ import type { ContainsNullValuesErrorExtensions } from './errors/contains-null-v
 import type { HitRateLimitErrorExtensions } from './errors/hit-rate-limit.js';
 import type { IllegalAssetTransformationErrorExtensions } from './errors/illegal-asset-transformation.js';
 import type { InvalidForeignKeyErrorExtensions } from './errors/invalid-foreign-key.js';
+import type { InvalidOtpErrorExtensions } from './errors/invalid-otp.js';
 import type { InvalidPayloadErrorExtensions } from './errors/invalid-payload.js';
 import type { InvalidProviderConfigErrorExtensions } from './errors/invalid-provider-config.js';
 import type { InvalidQueryErrorExtensions } from './errors/invalid-query.js';
@@ -21,6 +22,7 @@ type Map = {
 	[ErrorCode.ContainsNullValues]: ContainsNullValuesErrorExtensions;
 	[ErrorCode.IllegalAssetTransformation]: IllegalAssetTransformationErrorExtensions;
 	[ErrorCode.InvalidForeignKey]: InvalidForeignKeyErrorExtensions;
+	[ErrorCode.InvalidOtp]: InvalidOtpErrorExtensions;
 	[ErrorCode.InvalidPayload]: InvalidPayloadErrorExtensions;
 	[ErrorCode.InvalidProviderConfig]: InvalidProviderConfigErrorExtensions;
 	[ErrorCode.InvalidQuery]: InvalidQueryErrorExtensions;
@@ -1,10 +1,14 @@
-import type { Accountability, DeepPartial, Field, FlowRaw } from '@directus/types';
+import type { Accountability, DeepPartial, Field, Flow, FlowRaw } from '@directus/types';
 import type { ComponentOptions } from 'vue';
 import type { ApiExtensionContext } from './api-extension-context.js';
 
 export type OperationContext = ApiExtensionContext & {
 	data: Record<string, unknown>;
 	accountability: Accountability | null;
+	/**
+	 * Flow the operation is run in
+	 */
+	flow?: Flow;
 };
 
 export type OperationHandler<Options = Record<string, unknown>> = (
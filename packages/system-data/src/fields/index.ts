@@ -24,6 +24,14 @@ import operationFields from './operations.yaml';
 import translationFields from './translations.yaml';
 import versionFields from './versions.yaml';
 import extensionFields from './extensions.yaml';
+import exportFields from './exports.yaml';
+import exportRunFields from './export-runs.yaml';
+import flowRunFields from './flow-runs.yaml';
+import flowJobFields from './flow-jobs.yaml';
+import fileUploadFields from './file-uploads.yaml';
+import userRoleFields from './user-roles.yaml';
+import webAuthnCredentialFields from './webauthn-credentials.yaml';
+import accessTokenFields from './access-tokens.yaml';
 
 import { FieldMeta } from '../types.js';
 
@@ -53,6 +61,14 @@ processFields(operationFields);
 processFields(translationFields);
 processFields(versionFields);
 processFields(extensionFields);
+processFields(exportFields);
+processFields(exportRunFields);
+processFields(flowRunFields);
+processFields(flowJobFields);
+processFields(fileUploadFields);
+processFields(userRoleFields);
+processFields(webAuthnCredentialFields);
+processFields(accessTokenFields);
 
 function processFields(systemFields: Record<string, any>) {
 	const { fields, table } = systemFields as { fields: FieldMeta[]; table: string };
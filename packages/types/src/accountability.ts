@@ -1,4 +1,5 @@
 import type { Permission } from './permissions.js';
+import type { AccessTokenScope } from './users.js';
 
 export type ShareScope = {
 	collection: string;
@@ -7,12 +8,20 @@ export type ShareScope = {
 
 export type Accountability = {
 	role: string | null;
+	/**
+	 * All roles of the user, starting with the primary role. Their permissions are merged
+	 */
+	roles?: string[];
 	user?: string | null;
 	admin?: boolean;
 	app?: boolean;
 	permissions?: Permission[];
 	share?: string;
 	share_scope?: ShareScope;
+	/**
+	 * The collections and actions the access token of the request is restricted to
+	 */
+	access_token_scope?: AccessTokenScope[];
 	ip?: string | null;
 	userAgent?: string;
 	origin?: string;
@@ -0,0 +1,30 @@
+import type { Query } from './query.js';
+
+export type ExportFormat = 'csv' | 'json' | 'xml' | 'yaml' | 'xlsx';
+
+export type ScheduledExport = {
+	id: string;
+	name: string;
+	status: 'active' | 'inactive';
+	schedule: string;
+	collection: string;
+	query: Query | null;
+	format: ExportFormat;
+	storage: string;
+	path: string | null;
+	retention_count: number | null;
+	retention_age: string | null;
+	date_created: string;
+	user_created: string | null;
+};
+
+export type ScheduledExportRun = {
+	id: string;
+	export: string;
+	status: 'running' | 'success' | 'error';
+	date_started: string;
+	date_finished: string | null;
+	filename_disk: string | null;
+	filesize: number | null;
+	error: string | null;
+};
@@ -14,6 +14,10 @@ export type File = {
 	modified_on: string;
 	charset: string | null;
 	filesize: number;
+	/**
+	 * SHA-256 hash of the content of the file
+	 */
+	hash: string | null;
 	width: number | null;
 	height: number | null;
 	duration: number | null;
@@ -29,3 +33,84 @@ export type File = {
 export type BusboyFileStream = {
 	truncated: boolean;
 } & Readable;
+
+export type FileUpload = {
+	id: string;
+	storage: string;
+	/**
+	 * Total size of the file in bytes
+	 */
+	length: number;
+	/**
+	 * Number of bytes that have been received so far
+	 */
+	offset: number;
+	/**
+	 * Fields of the file that is created once the upload is complete
+	 */
+	metadata: Record<string, any> | null;
+	file: string | null;
+	user: string | null;
+	date_created: string;
+	date_updated: string;
+};
+
+export type FileVerificationReport = {
+	/**
+	 * Number of files that were read from their storage location
+	 */
+	checked: number;
+	/**
+	 * Files that didn't have a hash yet, which is now stored
+	 */
+	hashed: string[];
+	/**
+	 * Files whose content doesn't exist in their storage location
+	 */
+	missing: string[];
+	/**
+	 * Files whose content doesn't match their stored hash
+	 */
+	mismatched: string[];
+};
+
+export type AssetRegenerationReport = {
+	/**
+	 * Number of files whose derivatives were regenerated
+	 */
+	files: number;
+	/**
+	 * Number of derivatives that were removed
+	 */
+	purged: number;
+	/**
+	 * Number of derivatives that were generated
+	 */
+	generated: number;
+	/**
+	 * Files for which not all derivatives could be generated
+	 */
+	failed: string[];
+};
+
+export type OrphanedFile = Pick<File, 'id' | 'filename_download' | 'folder' | 'filesize' | 'uploaded_on'>;
+
+export type StorageQuota = {
+	/**
+	 * What the quota applies to, the files uploaded by a user or the users of a role, or the files in a folder and its
+	 * subfolders
+	 */
+	scope: 'user' | 'role' | 'folder';
+	/**
+	 * Primary key of the user, role or folder
+	 */
+	key: string;
+	/**
+	 * Total size of the files in bytes, and the maximum size or `null` if it's unlimited
+	 */
+	size: { used: number; limit: number | null };
+	/**
+	 * Number of files, and the maximum number or `null` if it's unlimited
+	 */
+	files: { used: number; limit: number | null };
+};
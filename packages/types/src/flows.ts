@@ -1,3 +1,5 @@
+import type { Accountability } from './accountability.js';
+
 export type TriggerType = 'event' | 'schedule' | 'operation' | 'webhook' | 'manual';
 
 type Status = 'active' | 'inactive';
@@ -11,6 +13,11 @@ export interface Flow {
 	trigger: TriggerType | null;
 	options: Record<string, any>;
 	operation: Operation | null;
+	/**
+	 * Operations that aren't connected to the trigger, keyed by the key of their first operation. These chains are only
+	 * run by other operations, like the loop operation
+	 */
+	chains: Record<string, Operation>;
 	accountability: 'all' | 'activity' | null;
 }
 
@@ -56,3 +63,45 @@ export interface OperationRaw {
 	date_created: string;
 	user_created: string;
 }
+
+export type FlowRunStatus = 'resolve' | 'reject' | 'unknown';
+
+export type FlowRunStep = {
+	operation: string;
+	key: string;
+	status: FlowRunStatus;
+	date_started: string;
+	duration: number;
+	options?: Record<string, any> | null;
+	data?: unknown;
+};
+
+export interface FlowRun {
+	id: string;
+	flow: string;
+	status: FlowRunStatus;
+	date_started: string;
+	date_finished: string;
+	duration: number;
+	user: string | null;
+	data: Record<string, unknown> | null;
+	steps: FlowRunStep[];
+	replay_of: string | null;
+}
+
+export type FlowJobStatus = 'pending' | 'running' | 'failed';
+
+export interface FlowJob {
+	id: string;
+	flow: string;
+	status: FlowJobStatus;
+	operation: string | null;
+	data: Record<string, unknown>;
+	accountability: Accountability | null;
+	attempts: number;
+	available_at: string;
+	claimed_by: string | null;
+	claimed_at: string | null;
+	error: string | null;
+	date_created: string;
+}
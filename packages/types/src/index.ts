@@ -1,6 +1,7 @@
 export * from './accountability.js';
 export * from './collection.js';
 export * from './events.js';
+export * from './exports.js';
 export * from './fields.js';
 export * from './files.js';
 export * from './filter.js';
@@ -1,4 +1,5 @@
 import type { Filter } from './filter.js';
+import type { PrimaryKey } from './items.js';
 
 export type PermissionsAction = 'create' | 'read' | 'update' | 'delete' | 'comment' | 'explain' | 'share';
 
@@ -11,11 +12,92 @@ export type Permission = {
 	validation: Filter | null;
 	presets: Record<string, any> | null;
 	fields: string[] | null;
+	/**
+	 * Date from which the rule is active
+	 */
+	active_from?: string | null;
+	/**
+	 * Date until which the rule is active
+	 */
+	active_until?: string | null;
+	/**
+	 * Recurring time window in which the rule is active
+	 */
+	schedule?: PermissionSchedule | null;
+	/**
+	 * Networks from which the rule is active
+	 */
+	ip_access?: string[] | null;
 	system?: true;
 };
 
+export type PermissionSchedule = {
+	/**
+	 * Days of the week on which the rule is active, starting at 0 for Sunday
+	 */
+	days?: number[] | null;
+	/**
+	 * Time of day from which the rule is active, formatted as HH:mm
+	 */
+	start?: string | null;
+	/**
+	 * Time of day until which the rule is active, formatted as HH:mm. Windows that end before they start run overnight
+	 */
+	end?: string | null;
+	/**
+	 * IANA timezone the days and times are in, defaults to UTC
+	 */
+	timezone?: string | null;
+};
+
 export type ItemPermissions = {
 	update: { access: boolean; presets?: Permission['presets']; fields?: Permission['fields'] };
 	delete: { access: boolean };
 	share: { access: boolean };
 };
+
+export type PermissionExplanationRule = {
+	/**
+	 * Primary key of the permission rule, null for the minimal permissions that come with app access and the rules
+	 * that are generated for a share
+	 */
+	id: number | null;
+	role: string | null;
+	source: 'role' | 'share' | 'app_access';
+	permissions: Filter | null;
+	validation: Filter | null;
+	fields: string[] | null;
+	/**
+	 * Whether the item matches the filter of the rule, null when no item was checked
+	 */
+	item: boolean | null;
+	/**
+	 * Whether the field is one of the fields of the rule, null when no field was checked
+	 */
+	field: boolean | null;
+	allowed: boolean;
+};
+
+export type PermissionExplanation = {
+	action: PermissionsAction;
+	allowed: boolean;
+	reason: 'admin' | 'allowed' | 'no_rule' | 'item' | 'field';
+	rules: PermissionExplanationRule[];
+};
+
+export type AccessExplanation = {
+	user: string | null;
+	role: string | null;
+	share: string | null;
+	/**
+	 * IP address the rules that are limited to certain networks were checked against
+	 */
+	ip: string | null;
+	roles: string[];
+	admin_access: boolean;
+	app_access: boolean;
+	collection: string;
+	item: PrimaryKey | null;
+	field: string | null;
+	actions: PermissionExplanation[];
+};
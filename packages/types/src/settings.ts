@@ -24,6 +24,7 @@ export type SettingsStorageAssetPreset = {
 	withoutEnlargement: boolean | null;
 	format: 'jpeg' | 'png' | 'webp' | 'tiff' | 'avif' | null;
 	transforms: any[] | null;
+	eager: boolean | null;
 };
 
 export type CustomAspectRatio = {
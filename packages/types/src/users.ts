@@ -1,3 +1,5 @@
+import type { Permission, PermissionsAction } from './permissions.js';
+
 export type Role = {
 	id: string;
 	name: string;
@@ -8,9 +10,48 @@ export type Role = {
 	ip_access: string[];
 	app_access: boolean;
 	admin_access: boolean;
+	storage_quota: number | null;
+	storage_quota_files: number | null;
 	users: string[];
 };
 
+export type UserRole = {
+	id: number;
+	user: string | User;
+	role: string | Role;
+};
+
+/**
+ * The access a user gets from all of their roles combined
+ */
+export type UserAccess = {
+	roles: string[];
+	admin_access: boolean;
+	app_access: boolean;
+	permissions: Permission[];
+};
+
+/**
+ * A session a user is logged in with, without its token
+ */
+export type UserSession = {
+	id: string;
+	/**
+	 * Browser and operating system, derived from the user agent
+	 */
+	device: string | null;
+	ip: string | null;
+	user_agent: string | null;
+	origin: string | null;
+	date_created: string | null;
+	last_refresh: string | null;
+	expires: string;
+	/**
+	 * Whether this is the session the request was made with
+	 */
+	current: boolean;
+};
+
 export type Avatar = {
 	id: string;
 };
@@ -35,6 +76,7 @@ export type User = {
 	theme_light_overrides: Record<string, unknown> | null;
 	theme_dark_overrides: Record<string, unknown> | null;
 	role: Role | null;
+	roles: UserRole[];
 	language: string | null;
 	avatar: Avatar | null;
 	title: string | null;
@@ -42,6 +84,8 @@ export type User = {
 	location: string | null;
 	tags: string[] | null;
 	email_notifications: boolean;
+	storage_quota: number | null;
+	storage_quota_files: number | null;
 };
 
 export type RegisterUserInput = {
@@ -51,3 +95,43 @@ export type RegisterUserInput = {
 	first_name?: User['first_name'];
 	last_name?: User['last_name'];
 };
+
+/**
+ * A passkey or security key a user can log in with, without its public key
+ */
+export type WebAuthnCredential = {
+	id: number;
+	name: string | null;
+	/**
+	 * Either `singleDevice` for hardware keys or `multiDevice` for passkeys that are synced between devices
+	 */
+	device_type: string | null;
+	backed_up: boolean;
+	transports: string[] | null;
+	date_created: string | null;
+	last_used: string | null;
+};
+
+/**
+ * A collection and action the permissions of an access token are restricted to
+ */
+export type AccessTokenScope = {
+	collection: string;
+	action: PermissionsAction;
+};
+
+/**
+ * A personal access token of a user, without the token itself
+ */
+export type UserAccessToken = {
+	id: string;
+	name: string;
+	/**
+	 * The collections and actions the token is restricted to, or `null` for all permissions of the user
+	 */
+	scope: AccessTokenScope[] | null;
+	ip_access: string[] | null;
+	expires: string | null;
+	date_created: string | null;
+	last_used: string | null;
+};
@@ -9,4 +9,39 @@ export type ContentVersion = {
 	date_updated: string | null;
 	user_created: string | null;
 	user_updated: string | null;
+	publish_at: string | null;
+	publish_hash: string | null;
+	publish_error: string | null;
+	/**
+	 * User that scheduled the promotion, whose permissions it's done with
+	 */
+	publish_user: string | null;
+};
+
+export type ContentVersionFieldDiff = {
+	field: string;
+	/**
+	 * Type of the relation of the field, if any
+	 */
+	relation: 'm2o' | 'a2o' | 'o2m' | null;
+	old: unknown;
+	new: unknown;
+	/**
+	 * Related items that are created, updated or deleted by the change of an o2m field
+	 */
+	changes?: {
+		create: Record<string, unknown>[];
+		update: Record<string, unknown>[];
+		delete: (string | number)[];
+	};
+};
+
+export type ContentVersionDiff = {
+	outdated: boolean;
+	mainHash: string;
+	/**
+	 * Version the changes are compared against, or null for the main version of the item
+	 */
+	base: string | null;
+	fields: ContentVersionFieldDiff[];
 };
@@ -3,12 +3,21 @@ export type AuthenticationMode = 'json' | 'cookie' | 'session';
 export type LoginOptions = {
 	/** The user's one-time-password (if MFA is enabled). */
 	otp?: string;
+	/** The response of a passkey or security key to a WebAuthn challenge, as an alternative to the one-time-password. */
+	webauthn?: WebAuthnAssertion;
 	/** Whether to retrieve the refresh token in the JSON response, or in a httpOnly cookie. One of `json`, `cookie` or `session`. Defaults to `cookie`. */
 	mode?: AuthenticationMode;
 	/** Use a specific authentication provider (does not work for SSO that relies on browser redirects). */
 	provider?: string;
 };
 
+export type WebAuthnAssertion = {
+	/** The serialized response of the authenticator to the challenge. */
+	response: Record<string, any>;
+	/** The token that was returned together with the challenge. */
+	token: string;
+};
+
 export interface AuthenticationData {
 	access_token: string | null;
 	refresh_token: string | null;
@@ -4,3 +4,4 @@ export * from './password-request.js';
 export * from './password-reset.js';
 export * from './providers.js';
 export * from './refresh.js';
+export * from './webauthn.js';
@@ -15,8 +15,9 @@ export const login =
 	<Schema>(email: string, password: string, options: LoginOptions = {}): RestCommand<AuthenticationData, Schema> =>
 	() => {
 		const path = getAuthEndpoint(options.provider);
-		const data: Record<string, string> = { email, password };
+		const data: Record<string, unknown> = { email, password };
 		if ('otp' in options) data['otp'] = options.otp;
+		if ('webauthn' in options) data['webauthn'] = options.webauthn;
 		data['mode'] = options.mode ?? 'cookie';
 		return { path, method: 'POST', body: JSON.stringify(data) };
 	};
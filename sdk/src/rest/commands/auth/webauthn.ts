@@ -0,0 +1,41 @@
+import type { AuthenticationData, AuthenticationMode, WebAuthnAssertion } from '../../../index.js';
+import type { RestCommand } from '../../types.js';
+import { getAuthEndpoint } from '../../utils/get-auth-endpoint.js';
+
+export type WebAuthnChallenge = {
+	/** The options to pass to `navigator.credentials.get()` or `navigator.credentials.create()`. */
+	options: Record<string, any>;
+	/** The token to send back together with the response of the authenticator. */
+	token: string;
+};
+
+/**
+ * Request a WebAuthn challenge to log in with a passkey or to use a security key as second factor.
+ *
+ * @returns The options for the browser and the token of the challenge.
+ */
+export const requestWebAuthnChallenge =
+	<Schema>(): RestCommand<WebAuthnChallenge, Schema> =>
+	() => ({
+		path: '/auth/webauthn/options',
+		method: 'POST',
+	});
+
+/**
+ * Authenticate as a user with a passkey instead of email and password.
+ *
+ * @param webauthn The response of the passkey to a challenge from `requestWebAuthnChallenge`.
+ * @param options Optional login settings.
+ *
+ * @returns Authentication data.
+ */
+export const loginWithPasskey =
+	<Schema>(
+		webauthn: WebAuthnAssertion,
+		options: { mode?: AuthenticationMode; provider?: string } = {},
+	): RestCommand<AuthenticationData, Schema> =>
+	() => ({
+		path: getAuthEndpoint(options.provider),
+		method: 'POST',
+		body: JSON.stringify({ webauthn, mode: options.mode ?? 'cookie' }),
+	});
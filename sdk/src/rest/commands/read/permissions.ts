@@ -15,6 +15,33 @@ export type ReadItemPermissionsOutput = {
 	share: { access: boolean };
 };
 
+export type ExplainAccessOutput = {
+	user: string | null;
+	role: string | null;
+	roles: string[];
+	admin_access: boolean;
+	app_access: boolean;
+	collection: string;
+	item: string | number | null;
+	field: string | null;
+	actions: {
+		action: 'create' | 'read' | 'update' | 'delete' | 'share';
+		allowed: boolean;
+		reason: 'admin' | 'allowed' | 'no_rule' | 'item' | 'field';
+		rules: {
+			id: number | null;
+			role: string | null;
+			source: 'role' | 'app_access';
+			permissions: Record<string, any> | null;
+			validation: Record<string, any> | null;
+			fields: string[] | null;
+			item: boolean | null;
+			field: boolean | null;
+			allowed: boolean;
+		}[];
+	}[];
+};
+
 /**
  * List all Permissions that exist in Directus.
  * @param query The query parameters
@@ -73,3 +100,29 @@ export const readItemPermissions =
 			method: 'GET',
 		};
 	};
+
+/**
+ * Explain whether a user, role or share is allowed to access a collection, item or field, and which permission rules led to
+ * the decision.
+ * @param options The collection to check, optionally with an item and field, and the user, role or share to check it for. Without a user, role or share, the public access is explained. Rules that are limited to certain networks are checked against the given IP, or the IP of the request
+ * @returns Returns the decision and the permission rules for each action.
+ */
+export const explainAccess =
+	<Schema, Collection extends AllCollections<Schema>>(options: {
+		collection: Collection;
+		user?: string;
+		role?: string;
+		share?: string;
+		item?: string | number;
+		field?: string;
+		ip?: string;
+	}): RestCommand<ExplainAccessOutput, Schema> =>
+	() => {
+		throwIfEmpty(String(options.collection), 'Collection cannot be empty');
+
+		return {
+			path: `/permissions/explain`,
+			params: options,
+			method: 'GET',
+		};
+	};
@@ -86,3 +86,28 @@ export const updateFile =
 			method: 'PATCH',
 		};
 	};
+
+/**
+ * Move the content of multiple files to another storage location.
+ * @param keys
+ * @param storage
+ * @param query
+ * @returns Returns the file objects for the moved files.
+ * @throws Will throw if keys is empty
+ */
+export const moveFilesToStorage =
+	<Schema, const TQuery extends Query<Schema, DirectusFile<Schema>>>(
+		keys: DirectusFile<Schema>['id'][],
+		storage: string,
+		query?: TQuery,
+	): RestCommand<UpdateFileOutput<Schema, TQuery>[], Schema> =>
+	() => {
+		throwIfEmpty(keys, 'Keys cannot be empty');
+
+		return {
+			path: `/files/move`,
+			params: query ?? {},
+			body: JSON.stringify({ keys, storage }),
+			method: 'POST',
+		};
+	};
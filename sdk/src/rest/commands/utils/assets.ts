@@ -0,0 +1,26 @@
+import type { DirectusFile } from '../../../schema/file.js';
+import type { RestCommand } from '../../types.js';
+
+export type AssetRegenerationReport = {
+	files: number;
+	purged: number;
+	generated: number;
+	failed: string[];
+};
+
+/**
+ * Remove the derivatives of files and generate those of the eager presets again.
+ * @param keys The files to regenerate the derivatives of, all files if omitted
+ * @param presets The presets to generate the derivatives of instead of the eager presets
+ * @returns The number of removed and generated derivatives, or null when all files are regenerated in the background.
+ */
+export const regenerateAssets =
+	<Schema>(
+		keys?: DirectusFile<Schema>['id'][],
+		presets?: string[],
+	): RestCommand<AssetRegenerationReport | null, Schema> =>
+	() => ({
+		path: `/assets/regenerate`,
+		body: JSON.stringify({ keys, presets }),
+		method: 'POST',
+	});
@@ -0,0 +1,67 @@
+import type { DirectusFile } from '../../../schema/file.js';
+import type { RestCommand } from '../../types.js';
+import { throwIfEmpty } from '../../utils/index.js';
+
+export type FileVerificationReport = {
+	checked: number;
+	hashed: string[];
+	missing: string[];
+	mismatched: string[];
+};
+
+/**
+ * Verify the content of files against their stored hash.
+ * @param keys
+ * @returns The files whose content is missing or doesn't match its hash.
+ * @throws Will throw if keys is empty
+ */
+export const verifyFiles =
+	<Schema>(keys: DirectusFile<Schema>['id'][]): RestCommand<FileVerificationReport, Schema> =>
+	() => {
+		throwIfEmpty(keys, 'Keys cannot be empty');
+
+		return {
+			path: `/files/verify`,
+			body: JSON.stringify({ keys }),
+			method: 'POST',
+		};
+	};
+
+export type StorageQuota = {
+	scope: 'user' | 'role' | 'folder';
+	key: string;
+	size: { used: number; limit: number | null };
+	files: { used: number; limit: number | null };
+};
+
+/**
+ * Get the storage quotas and usage of the current user, their role and a folder.
+ * @param folder The primary key of the folder
+ * @returns The quotas and the current usage.
+ */
+export const readStorageUsage =
+	<Schema>(folder?: string): RestCommand<StorageQuota[], Schema> =>
+	() => ({
+		path: `/files/usage`,
+		params: folder ? { folder } : {},
+		method: 'GET',
+	});
+
+export type OrphanedFile = {
+	id: string;
+	filename_download: string;
+	folder: string | null;
+	filesize: number;
+	uploaded_on: string;
+};
+
+/**
+ * List the files that aren't referenced through any relation, leaving out recent files and excluded folders.
+ * @returns The orphaned files.
+ */
+export const readOrphanedFiles =
+	<Schema>(): RestCommand<OrphanedFile[], Schema> =>
+	() => ({
+		path: `/files/orphans`,
+		method: 'GET',
+	});
@@ -1,14 +1,42 @@
 import type { RestCommand } from '../../types.js';
 
+export type UtilsImportOptions = {
+	/** Name or position of the worksheet to import, for Excel files */
+	sheet?: string | number;
+	/** Row number of the header row, for Excel files */
+	headerRow?: number;
+	/** Validate the file and report the invalid rows, without saving anything */
+	dryRun?: boolean;
+	/** Save the valid rows and report the invalid ones, instead of aborting on the first invalid row */
+	skipInvalid?: boolean;
+	/** Fields used to find existing items, defaults to the primary key */
+	matchFields?: string[];
+	/** Only create new items, only update existing items, or both */
+	mode?: 'insert' | 'update' | 'upsert';
+};
+
+export type UtilsImportReport = {
+	total: number;
+	valid: number;
+	invalid: number;
+	errors: { row: number; field: string | null; code: string; message: string }[];
+	rejected_file: string | null;
+};
+
 /**
- * Import multiple records from a JSON or CSV file into a collection.
- * @returns Nothing
+ * Import multiple records from a JSON, CSV or Excel file into a collection.
+ * @returns The import report when doing a dry run or skipping invalid rows, nothing otherwise
  */
 export const utilsImport =
-	<Schema>(collection: keyof Schema, data: FormData): RestCommand<void, Schema> =>
+	<Schema>(
+		collection: keyof Schema,
+		data: FormData,
+		options: UtilsImportOptions = {},
+	): RestCommand<UtilsImportReport | void, Schema> =>
 	() => ({
 		path: `/utils/import/${collection as string}`,
 		method: 'POST',
 		body: data,
+		params: options,
 		headers: { 'Content-Type': 'multipart/form-data' },
 	});
@@ -1,5 +1,7 @@
+export * from './assets.js';
 export * from './cache.js';
 export * from './export.js';
+export * from './files.js';
 export * from './flows.js';
 export * from './hash.js';
 export * from './import.js';
@@ -1,4 +1,7 @@
+import type { DirectusPermission } from '../../../schema/permission.js';
+import type { DirectusUser } from '../../../schema/user.js';
 import type { RestCommand } from '../../types.js';
+import { throwIfEmpty } from '../../utils/index.js';
 
 /**
  * Invite a new user by email.
@@ -103,10 +106,10 @@ export const generateTwoFactorSecret =
  * @param secret The TFA secret from tfa/generate.
  * @param otp OTP generated with the secret, to recheck if the user has a correct TFA setup
  *
- * @returns Nothing
+ * @returns One-time recovery codes, which can be used instead of an OTP when the authenticator app is lost
  */
 export const enableTwoFactor =
-	<Schema>(secret: string, otp: string): RestCommand<void, Schema> =>
+	<Schema>(secret: string, otp: string): RestCommand<{ recovery_codes: string[] }, Schema> =>
 	() => ({
 		path: `/users/me/tfa/enable`,
 		method: 'POST',
@@ -116,6 +119,21 @@ export const enableTwoFactor =
 		}),
 	});
 
+/**
+ * Replaces the two-factor recovery codes of the user with new ones.
+ *
+ * @param otp One-time password generated by the authenticator app.
+ *
+ * @returns The new recovery codes
+ */
+export const generateTwoFactorRecoveryCodes =
+	<Schema>(otp: string): RestCommand<{ recovery_codes: string[] }, Schema> =>
+	() => ({
+		path: `/users/me/tfa/recovery-codes`,
+		method: 'POST',
+		body: JSON.stringify({ otp }),
+	});
+
 /**
  * Disables two-factor authentication by removing the OTP secret from the user.
  *
@@ -130,3 +148,364 @@ export const disableTwoFactor =
 		method: 'POST',
 		body: JSON.stringify({ otp }),
 	});
+
+export type UserAccess<Schema> = {
+	roles: string[];
+	admin_access: boolean;
+	app_access: boolean;
+	permissions: DirectusPermission<Schema>[];
+};
+
+/**
+ * Retrieve the access a user gets from all of their roles combined.
+ *
+ * @param key The primary key of the user
+ *
+ * @returns The roles of the user, their admin and app access and the merged permission rules.
+ * @throws Will throw if key is empty
+ */
+export const readUserAccess =
+	<Schema>(key: DirectusUser<Schema>['id']): RestCommand<UserAccess<Schema>, Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+
+		return {
+			path: `/users/${key}/access`,
+			method: 'GET',
+		};
+	};
+
+export type UserSession = {
+	id: string;
+	device: string | null;
+	ip: string | null;
+	user_agent: string | null;
+	origin: string | null;
+	date_created: string | null;
+	last_refresh: string | null;
+	expires: string;
+	current: boolean;
+};
+
+/**
+ * List the active sessions of the current user.
+ *
+ * @returns The sessions of the current user, without their tokens.
+ */
+export const readMySessions =
+	<Schema>(): RestCommand<UserSession[], Schema> =>
+	() => ({
+		path: `/users/me/sessions`,
+		method: 'GET',
+	});
+
+/**
+ * Revoke a session of the current user.
+ *
+ * @param id The id of the session
+ *
+ * @returns Nothing
+ * @throws Will throw if id is empty
+ */
+export const revokeMySession =
+	<Schema>(id: UserSession['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(id, 'Id cannot be empty');
+
+		return {
+			path: `/users/me/sessions/${id}`,
+			method: 'DELETE',
+		};
+	};
+
+/**
+ * Revoke all sessions of the current user, except the session the request is made with.
+ *
+ * @returns Nothing
+ */
+export const revokeMySessions =
+	<Schema>(): RestCommand<void, Schema> =>
+	() => ({
+		path: `/users/me/sessions`,
+		method: 'DELETE',
+	});
+
+/**
+ * List the active sessions of a user.
+ *
+ * @param key The primary key of the user
+ *
+ * @returns The sessions of the user, without their tokens.
+ * @throws Will throw if key is empty
+ */
+export const readUserSessions =
+	<Schema>(key: DirectusUser<Schema>['id']): RestCommand<UserSession[], Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+
+		return {
+			path: `/users/${key}/sessions`,
+			method: 'GET',
+		};
+	};
+
+/**
+ * Revoke a session of a user.
+ *
+ * @param key The primary key of the user
+ * @param id The id of the session
+ *
+ * @returns Nothing
+ * @throws Will throw if key or id is empty
+ */
+export const revokeUserSession =
+	<Schema>(key: DirectusUser<Schema>['id'], id: UserSession['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+		throwIfEmpty(id, 'Id cannot be empty');
+
+		return {
+			path: `/users/${key}/sessions/${id}`,
+			method: 'DELETE',
+		};
+	};
+
+/**
+ * Revoke all sessions of a user.
+ *
+ * @param key The primary key of the user
+ *
+ * @returns Nothing
+ * @throws Will throw if key is empty
+ */
+export const revokeUserSessions =
+	<Schema>(key: DirectusUser<Schema>['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+
+		return {
+			path: `/users/${key}/sessions`,
+			method: 'DELETE',
+		};
+	};
+
+export type UserAccessTokenScope = {
+	collection: string;
+	action: 'create' | 'read' | 'update' | 'delete' | 'share';
+};
+
+export type UserAccessToken = {
+	id: string;
+	name: string;
+	scope: UserAccessTokenScope[] | null;
+	ip_access: string[] | null;
+	expires: string | null;
+	date_created: string | null;
+	last_used: string | null;
+};
+
+export type CreateAccessTokenInput = {
+	name: string;
+	expires?: string | null;
+	ip_access?: string[] | null;
+	scope?: UserAccessTokenScope[] | null;
+};
+
+/**
+ * List the personal access tokens of the current user.
+ *
+ * @returns The access tokens of the current user, without the tokens themselves.
+ */
+export const readMyAccessTokens =
+	<Schema>(): RestCommand<UserAccessToken[], Schema> =>
+	() => ({
+		path: `/users/me/access-tokens`,
+		method: 'GET',
+	});
+
+/**
+ * Create a personal access token for the current user.
+ *
+ * @param item The name, and the optional expiry, IP allowlist and scope of the token
+ *
+ * @returns The id of the access token, and the token itself, which can't be retrieved again.
+ */
+export const createAccessToken =
+	<Schema>(item: CreateAccessTokenInput): RestCommand<{ id: string; token: string }, Schema> =>
+	() => ({
+		path: `/users/me/access-tokens`,
+		method: 'POST',
+		body: JSON.stringify(item),
+	});
+
+/**
+ * Revoke a personal access token of the current user.
+ *
+ * @param id The id of the access token
+ *
+ * @returns Nothing
+ * @throws Will throw if id is empty
+ */
+export const deleteMyAccessToken =
+	<Schema>(id: UserAccessToken['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(id, 'Id cannot be empty');
+
+		return {
+			path: `/users/me/access-tokens/${id}`,
+			method: 'DELETE',
+		};
+	};
+
+/**
+ * List the personal access tokens of a user.
+ *
+ * @param key The primary key of the user
+ *
+ * @returns The access tokens of the user, without the tokens themselves.
+ * @throws Will throw if key is empty
+ */
+export const readUserAccessTokens =
+	<Schema>(key: DirectusUser<Schema>['id']): RestCommand<UserAccessToken[], Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+
+		return {
+			path: `/users/${key}/access-tokens`,
+			method: 'GET',
+		};
+	};
+
+/**
+ * Revoke a personal access token of a user.
+ *
+ * @param key The primary key of the user
+ * @param id The id of the access token
+ *
+ * @returns Nothing
+ * @throws Will throw if key or id is empty
+ */
+export const deleteUserAccessToken =
+	<Schema>(key: DirectusUser<Schema>['id'], id: UserAccessToken['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+		throwIfEmpty(id, 'Id cannot be empty');
+
+		return {
+			path: `/users/${key}/access-tokens/${id}`,
+			method: 'DELETE',
+		};
+	};
+
+export type WebAuthnCredential = {
+	id: number;
+	name: string | null;
+	device_type: string | null;
+	backed_up: boolean;
+	transports: string[] | null;
+	date_created: string | null;
+	last_used: string | null;
+};
+
+/**
+ * List the passkeys and security keys of the current user.
+ *
+ * @returns The credentials of the current user, without their public keys.
+ */
+export const readMyWebAuthnCredentials =
+	<Schema>(): RestCommand<WebAuthnCredential[], Schema> =>
+	() => ({
+		path: `/users/me/webauthn`,
+		method: 'GET',
+	});
+
+/**
+ * Generate the options to register a new passkey or security key for the current user.
+ *
+ * @param password The user's password.
+ *
+ * @returns The options to pass to `navigator.credentials.create()` and the token of the challenge.
+ */
+export const generateWebAuthnRegistration =
+	<Schema>(password: string): RestCommand<{ options: Record<string, any>; token: string }, Schema> =>
+	() => ({
+		path: `/users/me/webauthn/options`,
+		method: 'POST',
+		body: JSON.stringify({ password }),
+	});
+
+/**
+ * Register a new passkey or security key for the current user.
+ *
+ * @param response The serialized response of `navigator.credentials.create()`.
+ * @param token The token returned together with the registration options.
+ * @param name An optional name to recognize the credential by.
+ *
+ * @returns Nothing
+ */
+export const registerWebAuthnCredential =
+	<Schema>(response: Record<string, any>, token: string, name?: string): RestCommand<void, Schema> =>
+	() => ({
+		path: `/users/me/webauthn`,
+		method: 'POST',
+		body: JSON.stringify({ response, token, ...(name ? { name } : {}) }),
+	});
+
+/**
+ * Remove a passkey or security key of the current user.
+ *
+ * @param id The id of the credential
+ *
+ * @returns Nothing
+ * @throws Will throw if id is empty
+ */
+export const deleteMyWebAuthnCredential =
+	<Schema>(id: WebAuthnCredential['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(String(id), 'Id cannot be empty');
+
+		return {
+			path: `/users/me/webauthn/${id}`,
+			method: 'DELETE',
+		};
+	};
+
+/**
+ * List the passkeys and security keys of a user.
+ *
+ * @param key The primary key of the user
+ *
+ * @returns The credentials of the user, without their public keys.
+ * @throws Will throw if key is empty
+ */
+export const readUserWebAuthnCredentials =
+	<Schema>(key: DirectusUser<Schema>['id']): RestCommand<WebAuthnCredential[], Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+
+		return {
+			path: `/users/${key}/webauthn`,
+			method: 'GET',
+		};
+	};
+
+/**
+ * Remove a passkey or security key of a user.
+ *
+ * @param key The primary key of the user
+ * @param id The id of the credential
+ *
+ * @returns Nothing
+ * @throws Will throw if key or id is empty
+ */
+export const deleteUserWebAuthnCredential =
+	<Schema>(key: DirectusUser<Schema>['id'], id: WebAuthnCredential['id']): RestCommand<void, Schema> =>
+	() => {
+		throwIfEmpty(String(key), 'Key cannot be empty');
+		throwIfEmpty(String(id), 'Id cannot be empty');
+
+		return {
+			path: `/users/${key}/webauthn/${id}`,
+			method: 'DELETE',
+		};
+	};
@@ -56,6 +56,49 @@ export const compareContentVersion =
 		};
 	};
 
+/**
+ * Get the changes of an existing Content Version, compared to the main version of the item or to another Content Version
+ * of the same item.
+ *
+ * @param id Primary key of the Content Version.
+ * @param base Optional primary key of the Content Version to compare against. Defaults to the main version of the item.
+ *
+ * @returns The old and new values of all changed fields, along with the hash of the main version of the item and the
+information whether the Content Version is outdated
+ */
+export const diffContentVersion =
+	<Schema, Collection extends keyof Schema, Item = UnpackList<Schema[Collection]>>(
+		id: DirectusVersion<Schema>['id'],
+		base?: DirectusVersion<Schema>['id'],
+	): RestCommand<
+		{
+			outdated: boolean;
+			mainHash: string;
+			base: DirectusVersion<Schema>['id'] | null;
+			fields: {
+				field: keyof Item;
+				relation: 'm2o' | 'a2o' | 'o2m' | null;
+				old: unknown;
+				new: unknown;
+				changes?: {
+					create: Record<string, unknown>[];
+					update: Record<string, unknown>[];
+					delete: (string | number)[];
+				};
+			}[];
+		},
+		Schema
+	> =>
+	() => {
+		throwIfEmpty(id, 'ID cannot be empty');
+
+		return {
+			path: `/versions/${id}/diff`,
+			params: base ? { base } : {},
+			method: 'GET',
+		};
+	};
+
 /**
  * Promote an existing Content Version to become the new main version of the item.
  *
@@ -80,3 +123,28 @@ export const promoteContentVersion =
 			body: JSON.stringify(fields ? { mainHash, fields } : { mainHash }),
 		};
 	};
+
+/**
+ * Schedule the promotion of an existing Content Version into the main version of the item.
+ *
+ * @param id Primary key of the version.
+ * @param publishAt Date to promote the version at, or null to cancel a scheduled promotion.
+ * @param mainHash The current hash of the main version of the item (obtained from the `compare` endpoint).
+ *
+ * @returns The Content Version.
+ */
+export const scheduleContentVersion =
+	<Schema>(
+		id: DirectusVersion<Schema>['id'],
+		publishAt: string | null,
+		mainHash?: string,
+	): RestCommand<DirectusVersion<Schema>, Schema> =>
+	() => {
+		throwIfEmpty(id, 'ID cannot be empty');
+
+		return {
+			path: `/versions/${id}/schedule`,
+			method: 'POST',
+			body: JSON.stringify(mainHash ? { publishAt, mainHash } : { publishAt }),
+		};
+	};
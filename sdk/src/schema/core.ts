@@ -16,6 +16,7 @@ import type { DirectusRole } from './role.js';
 import type { DirectusSettings } from './settings.js';
 import type { DirectusShare } from './share.js';
 import type { DirectusUser } from './user.js';
+import type { DirectusUserRole } from './user-role.js';
 import type { DirectusVersion } from './version.js';
 import type { DirectusWebhook } from './webhook.js';
 
@@ -38,6 +39,7 @@ export interface CoreSchema<Schema = object> {
 	directus_settings: DirectusSettings<Schema>;
 	directus_shares: DirectusShare<Schema>[];
 	directus_users: DirectusUser<Schema>[];
+	directus_user_roles: DirectusUserRole<Schema>[];
 	directus_versions: DirectusVersion<Schema>[];
 	directus_webhooks: DirectusWebhook<Schema>[];
 }
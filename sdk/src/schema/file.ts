@@ -20,6 +20,7 @@ export type DirectusFile<Schema> = MergeCoreCollection<
 		modified_on: 'datetime';
 		charset: string | null;
 		filesize: string | null;
+		hash: string | null;
 		width: number | null;
 		height: number | null;
 		duration: number | null;
@@ -7,5 +7,7 @@ export type DirectusFolder<Schema> = MergeCoreCollection<
 		id: string;
 		name: string;
 		parent: DirectusFolder<Schema> | string | null;
+		storage_quota: string | null;
+		storage_quota_files: number | null;
 	}
 >;
@@ -19,5 +19,6 @@ export * from './settings.js';
 export * from './share.js';
 export * from './translation.js';
 export * from './user.js';
+export * from './user-role.js';
 export * from './version.js';
 export * from './webhook.js';
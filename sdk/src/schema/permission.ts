@@ -13,5 +13,14 @@ export type DirectusPermission<Schema> = MergeCoreCollection<
 		validation: Record<string, any> | null;
 		presets: Record<string, any> | null;
 		fields: string[] | null;
+		active_from: 'datetime' | null;
+		active_until: 'datetime' | null;
+		schedule: {
+			days?: number[] | null;
+			start?: string | null;
+			end?: string | null;
+			timezone?: string | null;
+		} | null;
+		ip_access: string[] | null;
 	}
 >;
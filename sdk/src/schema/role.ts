@@ -12,5 +12,7 @@ export type DirectusRole<Schema> = MergeCoreCollection<
 		enforce_tfa: boolean;
 		admin_access: boolean;
 		app_access: boolean;
+		storage_quota: string | null;
+		storage_quota_files: number | null;
 	}
 >;
@@ -0,0 +1,15 @@
+import type { DirectusRole, MergeCoreCollection } from '../index.js';
+import type { DirectusUser } from './user.js';
+
+/**
+ * directus_user_roles type
+ */
+export type DirectusUserRole<Schema> = MergeCoreCollection<
+	Schema,
+	'directus_user_roles',
+	{
+		id: number;
+		user: DirectusUser<Schema> | string;
+		role: DirectusRole<Schema> | string;
+	}
+>;
@@ -1,5 +1,6 @@
 import type { DirectusRole, MergeCoreCollection } from '../index.js';
 import type { DirectusFile } from './file.js';
+import type { DirectusUserRole } from './user-role.js';
 
 /**
  * directus_users type
@@ -21,8 +22,10 @@ export type DirectusUser<Schema> = MergeCoreCollection<
 		language: string | null;
 		theme: string | null;
 		tfa_secret: string | null;
+		tfa_recovery_codes: string | null;
 		status: string;
 		role: DirectusRole<Schema> | string | null;
+		roles: DirectusUserRole<Schema>[] | number[];
 		token: string | null;
 		last_access: 'datetime' | null;
 		last_page: string | null;
@@ -30,5 +33,7 @@ export type DirectusUser<Schema> = MergeCoreCollection<
 		external_identifier: string | null;
 		auth_data: Record<string, any> | null;
 		email_notifications: boolean | null;
+		storage_quota: string | null;
+		storage_quota_files: number | null;
 	}
 >;
@@ -16,5 +16,8 @@ export type DirectusVersion<Schema> = MergeCoreCollection<
 		date_updated: 'datetime' | null;
 		user_created: DirectusUser<Schema> | string | null;
 		user_updated: DirectusUser<Schema> | string | null;
+		publish_at: 'datetime' | null;
+		publish_hash: string | null;
+		publish_error: string | null;
 	}
 >;